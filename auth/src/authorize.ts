@@ -1,5 +1,9 @@
-import { APIGatewayProxyEvent } from 'aws-lambda';
-import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { SecretCache } from './secret-cache';
+import { getSecretField, secretCache } from './secrets';
+import { KeySlot, matchSharedKey, parseSharedKeySet } from './shared-keys';
+import { ClientRegistry, parseClientKey, verifyClientKey } from './client-registry';
+import { HttpEvent } from './event-adapter';
+import { ApiKeySource, DEFAULT_API_KEY_SOURCES, extractApiKey } from './key-sources';
 
 /**
  * Result of authorization attempt
@@ -8,74 +12,158 @@ export interface AuthResult {
   /** Whether the request is authorized */
   authorized: boolean;
   /** Authentication method used */
-  method: 'shared-key' | 'none';
+  method: 'shared-key' | 'client-key' | 'hmac' | 'none';
+  /** Which shared key matched (current or a previous key during rotation) */
+  keySlot?: KeySlot;
+  /** Resolved client identifier (client keys only) */
+  clientId?: string;
+  /** Resolved client name (client keys only) */
+  clientName?: string;
+  /** Scopes granted to the client (client keys only; the shared key is unscoped) */
+  scopes?: string[];
 }
 
-const secretsClient = new SecretsManagerClient({});
-
 /**
- * Retrieve secret value from AWS Secrets Manager
+ * Authorize a `<keyId>.<secret>` client key against the registry.
+ *
+ * Returns null when the key id is not registered, so the caller can fall back
+ * to the shared key check. Only a registered key that fails verification
+ * forces a registry refresh; unknown key ids are chosen by the caller and
+ * must not bypass the cache.
  */
-export async function getSecretValue(secretPath: string, key: string): Promise<string | null> {
-  try {
-    const response = await secretsClient.send(
-      new GetSecretValueCommand({ SecretId: secretPath })
-    );
+async function authorizeClientKey(
+  registry: ClientRegistry,
+  presentedKey: string,
+  serviceName?: string
+): Promise<AuthResult | null> {
+  const clientKey = parseClientKey(presentedKey);
+  if (!clientKey) {
+    return null;
+  }
 
-    if (!response.SecretString) return null;
+  let record = await registry.getClient(clientKey.keyId);
+  if (record && !verifyClientKey(record, clientKey.secret, serviceName)) {
+    // Registry entry may be stale after the key was rotated
+    record = await registry.getClient(clientKey.keyId, { forceRefresh: true });
+  }
 
-    const secrets = JSON.parse(response.SecretString);
-    return secrets[key] || null;
-  } catch (error) {
-    console.error(`Failed to retrieve secret ${secretPath}:`, error);
+  if (!record) {
     return null;
   }
+
+  if (!verifyClientKey(record, clientKey.secret, serviceName)) {
+    return { authorized: false, method: 'none' };
+  }
+
+  return {
+    authorized: true,
+    method: 'client-key',
+    clientId: record.clientId,
+    clientName: record.clientName,
+    scopes: record.scopes,
+  };
+}
+
+export interface AuthorizeRequestOptions {
+  sharedKeyName?: string;
+  cache?: SecretCache;
+  /** Per-client key registry (enables `<keyId>.<secret>` client keys) */
+  clientRegistry?: ClientRegistry;
+  /** Service being called, checked against each client's allowed services */
+  serviceName?: string;
+  /** Where to look for the key, in precedence order (see `extractApiKey`) */
+  keySources?: readonly ApiKeySource[];
 }
 
 /**
- * Authorizes an API Gateway request using shared API key authentication.
+ * Authorizes an HTTP request (API Gateway REST or HTTP API, or ALB) using shared
+ * API key authentication.
  *
- * Validates the X-API-Key header (case-insensitive) against the expected key
- * stored in AWS Secrets Manager.
+ * Validates the presented key against the expected key stored in AWS Secrets
+ * Manager. The key is read from the first non-empty `keySources` entry
+ * (default: `X-API-Key` header in any casing, then `Authorization: Bearer`). The secret is cached in memory; if the presented
+ * key does not match the cached value, the secret is re-read once so a freshly
+ * rotated key is accepted immediately.
  *
- * @param event - API Gateway proxy event
+ * The secret may hold a key set with previous keys (see `parseSharedKeySet`);
+ * any unexpired key is accepted and the matching slot is reported in `keySlot`.
+ *
+ * With a `clientRegistry`, keys in `<keyId>.<secret>` form are first looked up
+ * as per-client keys; a match reports `method: 'client-key'` with the client's
+ * id and scopes. Unregistered key ids fall back to the shared key check.
+ *
+ * @param event - API Gateway (v1 or v2) or ALB event
  * @param secretPath - AWS Secrets Manager path for the shared API key
- * @param options - Optional configuration for key name
+ * @param options - Optional configuration for key name, secret cache and client registry
  * @returns Authorization result indicating success or failure
  *
  * @example
  * ```typescript
  * const result = await authorizeRequest(event, '/aviary/shared/api-key');
  * if (!result.authorized) {
- *   return { statusCode: 401, body: 'Unauthorized' };
+ *   return fail(new AuthenticationError(), { context });
  * }
  * ```
  */
 export async function authorizeRequest(
-  event: APIGatewayProxyEvent,
+  event: HttpEvent,
   secretPath: string,
-  options?: {
-    sharedKeyName?: string;
-  }
+  options?: AuthorizeRequestOptions
 ): Promise<AuthResult> {
-  const { sharedKeyName = 'AVIARY_SHARED_API_KEY' } = options || {};
-
-  // Check for X-API-Key header (case-insensitive)
-  const sharedKey = event.headers?.['X-API-Key'] || event.headers?.['x-api-key'];
-
-  if (!sharedKey) {
+  const presented = extractApiKey(event, options?.keySources ?? DEFAULT_API_KEY_SOURCES);
+  if (!presented) {
     return { authorized: false, method: 'none' };
   }
 
-  const trimmedKey = sharedKey.trim();
-  if (!trimmedKey) {
-    return { authorized: false, method: 'none' };
-  }
+  return authorizeApiKey(presented.key, secretPath, options);
+}
+
+/**
+ * Authorizes an API key taken from elsewhere than an HTTP request (e.g. the
+ * token of a `TOKEN` authorizer). Same checks as `authorizeRequest`;
+ * `keySources` is ignored.
+ *
+ * @param key - Presented API key, already trimmed
+ */
+export async function authorizeApiKey(
+  key: string,
+  secretPath: string,
+  options?: AuthorizeRequestOptions
+): Promise<AuthResult> {
+  const {
+    sharedKeyName = 'AVIARY_SHARED_API_KEY',
+    cache = secretCache,
+    clientRegistry,
+    serviceName,
+  } = options || {};
 
   try {
-    const expectedKey = await getSecretValue(secretPath, sharedKeyName);
-    if (expectedKey && trimmedKey === expectedKey) {
-      return { authorized: true, method: 'shared-key' };
+    if (clientRegistry) {
+      const clientResult = await authorizeClientKey(clientRegistry, key, serviceName);
+      if (clientResult) {
+        return clientResult;
+      }
+    }
+
+    const keySet = parseSharedKeySet(
+      await getSecretField(secretPath, sharedKeyName, { cache })
+    );
+    if (!keySet) {
+      return { authorized: false, method: 'none' };
+    }
+
+    let keySlot = matchSharedKey(key, keySet);
+
+    // Cached keys may be stale after a rotation - re-read the secret once
+    if (!keySlot) {
+      const refreshedKeySet = parseSharedKeySet(
+        await getSecretField(secretPath, sharedKeyName, { cache, forceRefresh: true })
+      );
+      keySlot = refreshedKeySet && matchSharedKey(key, refreshedKeySet);
+    }
+
+    if (keySlot) {
+      return { authorized: true, method: 'shared-key', keySlot };
     }
   } catch (error) {
     console.error('Authorization failed:', error);
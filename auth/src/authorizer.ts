@@ -0,0 +1,275 @@
+/**
+ * API Gateway Lambda Authorizer
+ *
+ * Runs `authorizeRequest` at the API Gateway edge so unauthenticated traffic
+ * never reaches service Lambdas. Handles:
+ * - REST API `TOKEN` authorizers (token from the identity source header)
+ * - REST API `REQUEST` authorizers (IAM policy response)
+ * - HTTP API `REQUEST` authorizers, payload v2 (simple or IAM response)
+ *
+ * Allow policies cover the whole stage (`.../{stage}/*`) so API Gateway's
+ * authorizer result cache can reuse them across routes.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  APIGatewayAuthorizerResult,
+  APIGatewayProxyEvent,
+  APIGatewayProxyEventV2,
+  APIGatewayRequestAuthorizerEvent,
+  APIGatewayRequestAuthorizerEventV2,
+  APIGatewaySimpleAuthorizerWithContextResult,
+  APIGatewayTokenAuthorizerEvent,
+} from 'aws-lambda';
+import { AuthResult, AuthorizeRequestOptions, authorizeApiKey, authorizeRequest } from './authorize';
+import { ClientRegistry, clientRegistryFromEnv } from './client-registry';
+import { HttpEvent } from './event-adapter';
+import { ApiKeySource } from './key-sources';
+
+/**
+ * Any authorizer event the handler accepts
+ */
+export type AuthorizerEvent =
+  | APIGatewayTokenAuthorizerEvent
+  | APIGatewayRequestAuthorizerEvent
+  | APIGatewayRequestAuthorizerEventV2;
+
+/**
+ * Context passed to the integration (`event.requestContext.authorizer`)
+ */
+export interface AuthorizerContext {
+  [key: string]: string;
+  /** Authentication method ('shared-key' or 'client-key') */
+  authMethod: string;
+  /** Resolved client id ('' for the shared key) */
+  clientId: string;
+  /** Comma-separated scopes ('' for the shared key) */
+  scopes: string;
+  /** Matched shared key slot ('' for client keys) */
+  keySlot: string;
+}
+
+/**
+ * Authorizer handler configuration
+ */
+export interface AuthorizerHandlerOptions {
+  /** Secrets Manager path for the shared API key */
+  secretPath: string;
+  /** Field of the shared key in the secret (default: AVIARY_SHARED_API_KEY) */
+  sharedKeyName?: string;
+  /** Per-client key registry */
+  clientRegistry?: ClientRegistry;
+  /** Service name checked against each client's allowed services */
+  serviceName?: string;
+  /** Where REQUEST authorizers look for the key (default: X-API-Key, then Bearer) */
+  keySources?: readonly ApiKeySource[];
+  /**
+   * Response format for HTTP API (payload v2) events (default: 'simple').
+   * REST API events always get an IAM policy.
+   */
+  httpApiResponse?: 'simple' | 'iam';
+}
+
+export type AuthorizerResult =
+  | APIGatewayAuthorizerResult
+  | APIGatewaySimpleAuthorizerWithContextResult<AuthorizerContext | Record<string, never>>;
+
+const SHARED_KEY_PRINCIPAL = 'aviary-shared-key';
+
+function isTokenEvent(event: AuthorizerEvent): event is APIGatewayTokenAuthorizerEvent {
+  return event.type === 'TOKEN';
+}
+
+function isHttpApiEvent(event: AuthorizerEvent): event is APIGatewayRequestAuthorizerEventV2 {
+  return 'routeArn' in event && 'version' in event && event.version === '2.0';
+}
+
+/**
+ * The request a `REQUEST` authorizer event describes, without a body
+ */
+function toHttpEvent(
+  event: APIGatewayRequestAuthorizerEvent | APIGatewayRequestAuthorizerEventV2
+): HttpEvent {
+  if (isHttpApiEvent(event)) {
+    const request: APIGatewayProxyEventV2 = {
+      version: event.version,
+      routeKey: event.routeKey,
+      rawPath: event.rawPath,
+      rawQueryString: event.rawQueryString,
+      cookies: event.cookies,
+      headers: event.headers || {},
+      queryStringParameters: event.queryStringParameters,
+      requestContext: event.requestContext,
+      pathParameters: event.pathParameters,
+      stageVariables: event.stageVariables,
+      isBase64Encoded: false,
+    };
+    return request;
+  }
+
+  const request: APIGatewayProxyEvent = {
+    body: null,
+    headers: event.headers || {},
+    multiValueHeaders: event.multiValueHeaders || {},
+    httpMethod: event.httpMethod,
+    isBase64Encoded: false,
+    path: event.path,
+    pathParameters: event.pathParameters,
+    queryStringParameters: event.queryStringParameters,
+    multiValueQueryStringParameters: event.multiValueQueryStringParameters,
+    stageVariables: event.stageVariables,
+    requestContext: event.requestContext,
+    resource: event.resource,
+  };
+  return request;
+}
+
+/**
+ * Authorize the key an authorizer event presents
+ */
+async function authorizeEvent(
+  event: AuthorizerEvent,
+  secretPath: string,
+  options: AuthorizeRequestOptions
+): Promise<AuthResult> {
+  if (!isTokenEvent(event)) {
+    return authorizeRequest(toHttpEvent(event), secretPath, options);
+  }
+
+  // TOKEN events carry only the identity source header, so keySources do not apply
+  const token = (event.authorizationToken || '').replace(/^Bearer\s+/i, '').trim();
+  return token ? authorizeApiKey(token, secretPath, options) : { authorized: false, method: 'none' };
+}
+
+/**
+ * Widen a method/route ARN to every method and path of its stage.
+ *
+ * @example
+ * stageWildcardArn('arn:aws:execute-api:us-east-1:123456789012:abc123/dev/POST/v1/jobs')
+ * // => 'arn:aws:execute-api:us-east-1:123456789012:abc123/dev/*'
+ */
+export function stageWildcardArn(methodArn: string): string {
+  const [apiArn, stage] = methodArn.split('/');
+  return stage ? `${apiArn}/${stage}/*` : methodArn;
+}
+
+function toContext(result: AuthResult): AuthorizerContext {
+  return {
+    authMethod: result.method,
+    clientId: result.clientId ?? '',
+    scopes: (result.scopes ?? []).join(','),
+    keySlot: result.keySlot ?? '',
+  };
+}
+
+function policy(
+  principalId: string,
+  effect: 'Allow' | 'Deny',
+  resource: string,
+  context?: AuthorizerContext
+): APIGatewayAuthorizerResult {
+  return {
+    principalId,
+    policyDocument: {
+      Version: '2012-10-17',
+      Statement: [{ Action: 'execute-api:Invoke', Effect: effect, Resource: resource }],
+    },
+    ...(context ? { context } : {}),
+  };
+}
+
+/**
+ * Create an API Gateway Lambda authorizer backed by `authorizeRequest`.
+ *
+ * Unauthorized REST API requests throw `Unauthorized`, which API Gateway turns
+ * into a 401. Unauthorized HTTP API requests get `isAuthorized: false` (simple
+ * responses) or a Deny policy.
+ *
+ * @example
+ * ```typescript
+ * export const handler = createAuthorizerHandler({
+ *   secretPath: '/aviary/shared/api-key',
+ *   serviceName: 'condor',
+ * });
+ * ```
+ */
+export function createAuthorizerHandler(options: AuthorizerHandlerOptions) {
+  const {
+    secretPath,
+    sharedKeyName,
+    clientRegistry,
+    serviceName,
+    keySources,
+    httpApiResponse = 'simple',
+  } = options;
+
+  return async (event: AuthorizerEvent): Promise<AuthorizerResult> => {
+    const result = await authorizeEvent(event, secretPath, {
+      sharedKeyName,
+      clientRegistry,
+      serviceName,
+      keySources,
+    });
+
+    if (isHttpApiEvent(event)) {
+      if (httpApiResponse === 'simple') {
+        return result.authorized
+          ? { isAuthorized: true, context: toContext(result) }
+          : { isAuthorized: false, context: {} };
+      }
+      const resource = stageWildcardArn(event.routeArn);
+      return result.authorized
+        ? policy(result.clientId ?? SHARED_KEY_PRINCIPAL, 'Allow', resource, toContext(result))
+        : policy('anonymous', 'Deny', resource);
+    }
+
+    if (!result.authorized) {
+      // API Gateway maps this exact message to a 401 response
+      throw new Error('Unauthorized');
+    }
+
+    return policy(
+      result.clientId ?? SHARED_KEY_PRINCIPAL,
+      'Allow',
+      stageWildcardArn(event.methodArn),
+      toContext(result)
+    );
+  };
+}
+
+/**
+ * Build authorizer options from the Lambda environment.
+ *
+ * - `AVIARY_SHARED_KEY_SECRET_PATH` (required)
+ * - `AVIARY_CLIENT_REGISTRY_SECRET_PATH` or `AVIARY_CLIENT_REGISTRY_TABLE` (optional)
+ * - `SERVICE_NAME` (optional)
+ * - `AUTHORIZER_HTTP_API_RESPONSE` ('simple' | 'iam', optional)
+ */
+export function authorizerOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AuthorizerHandlerOptions {
+  const secretPath = env.AVIARY_SHARED_KEY_SECRET_PATH;
+  if (!secretPath) {
+    throw new Error('AVIARY_SHARED_KEY_SECRET_PATH is not set');
+  }
+
+  return {
+    secretPath,
+    clientRegistry: clientRegistryFromEnv(env),
+    serviceName: env.SERVICE_NAME,
+    httpApiResponse: env.AUTHORIZER_HTTP_API_RESPONSE === 'iam' ? 'iam' : 'simple',
+  };
+}
+
+let envHandler: ReturnType<typeof createAuthorizerHandler> | undefined;
+
+/**
+ * Ready-made authorizer handler configured from environment variables
+ * (see `authorizerOptionsFromEnv`). Deployed by the `SharedKeyAuthorizer`
+ * construct in cdk-patterns.
+ */
+export async function authorizerHandler(event: AuthorizerEvent): Promise<AuthorizerResult> {
+  envHandler ??= createAuthorizerHandler(authorizerOptionsFromEnv());
+  return envHandler(event);
+}
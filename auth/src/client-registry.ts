@@ -0,0 +1,267 @@
+/**
+ * Per-Client API Key Registry
+ *
+ * Maps a key id to the client that owns it (an Airtable base, an internal
+ * service, ...) along with the services it may call and its scopes.
+ *
+ * Client keys are presented as `<keyId>.<secret>`; the key id selects the
+ * registry entry and the secret is checked against the entry's key material
+ * (plaintext `key` or salted `hash`, same as shared key entries).
+ *
+ * Two backends are provided:
+ * - `SecretsManagerClientRegistry`: one secret holding `{ "<keyId>": { ...entry } }`
+ * - `DynamoDBClientRegistry`: one item per key, partition key `key_id`
+ *
+ * @packageDocumentation
+ */
+
+import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { SecretCache } from './secret-cache';
+import { SharedKeyEntry, isKeyExpired, entryMatchesKey, parseSharedKeySet } from './shared-keys';
+import { isKeyHash } from './key-hashing';
+import { getSecretField, secretCache } from './secrets';
+
+/**
+ * A registered client key
+ */
+export interface ClientRecord extends SharedKeyEntry {
+  /** Key id (the part of the presented key before the first '.') */
+  keyId: string;
+  /** Stable client identifier (e.g., 'airtable-briefly-remembered') */
+  clientId: string;
+  /** Human-readable client name */
+  clientName: string;
+  /** Services this key may call ('*' for all) */
+  services: string[];
+  /** Granted scopes (e.g., 'tts:write', 'mix:read', 'mix:*') */
+  scopes: string[];
+  /** Disabled keys are rejected without being deleted */
+  disabled?: boolean;
+}
+
+/**
+ * Lookup interface implemented by each registry backend
+ */
+export interface ClientRegistry {
+  /**
+   * Find the client record for a key id.
+   *
+   * @param keyId - Key id from the presented key
+   * @param options - `forceRefresh` bypasses any cached copy
+   */
+  getClient(
+    keyId: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<ClientRecord | null>;
+}
+
+/**
+ * Split a presented client key into key id and secret.
+ *
+ * @returns Key id and secret, or null if the key is not in `<keyId>.<secret>` form
+ *
+ * @example
+ * parseClientKey('ak_condor_airtable.s3cr3t') // => { keyId: 'ak_condor_airtable', secret: 's3cr3t' }
+ * parseClientKey('plain-shared-key')          // => null
+ */
+export function parseClientKey(presentedKey: string): { keyId: string; secret: string } | null {
+  const separator = presentedKey.indexOf('.');
+  if (separator <= 0 || separator === presentedKey.length - 1) {
+    return null;
+  }
+  return {
+    keyId: presentedKey.substring(0, separator),
+    secret: presentedKey.substring(separator + 1),
+  };
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/**
+ * Build a client record from a registry entry, or null if it is malformed.
+ *
+ * Accepts camelCase (Secrets Manager JSON) and snake_case (DynamoDB) attribute names.
+ */
+export function toClientRecord(keyId: string, raw: unknown): ClientRecord | null {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const entry = value as Record<string, unknown>;
+  const clientId = entry.clientId ?? entry.client_id;
+  if (typeof clientId !== 'string' || !clientId) {
+    return null;
+  }
+
+  const keyMaterial = parseSharedKeySet({
+    current: {
+      key: entry.key,
+      hash: isKeyHash(entry.hash) ? entry.hash : entry.key_hash,
+      expiresAt: entry.expiresAt ?? entry.expires_at,
+    },
+  })?.current;
+  if (!keyMaterial) {
+    return null;
+  }
+
+  const clientName = entry.clientName ?? entry.client_name;
+
+  return {
+    ...keyMaterial,
+    keyId,
+    clientId,
+    clientName: typeof clientName === 'string' ? clientName : clientId,
+    services: toStringArray(entry.services),
+    scopes: toStringArray(entry.scopes),
+    disabled: entry.disabled === true,
+  };
+}
+
+/**
+ * Verify the secret part of a client key against its record.
+ *
+ * @param record - Registry entry for the key id
+ * @param secret - Secret part of the presented key
+ * @param serviceName - Service being called; checked against `record.services` when given
+ */
+export function verifyClientKey(
+  record: ClientRecord,
+  secret: string,
+  serviceName?: string
+): boolean {
+  const keyMatches = entryMatchesKey(record, secret);
+  if (!keyMatches || record.disabled || isKeyExpired(record)) {
+    return false;
+  }
+  if (serviceName && !record.services.includes('*') && !record.services.includes(serviceName)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Client registry stored as a single Secrets Manager secret.
+ *
+ * @example
+ * ```json
+ * {
+ *   "ak_airtable_briefly": {
+ *     "clientId": "airtable-briefly-remembered",
+ *     "clientName": "Briefly Remembered base",
+ *     "services": ["condor", "nightingale"],
+ *     "scopes": ["tts:write", "mix:*"],
+ *     "hash": { "algorithm": "hmac-sha256", "salt": "...", "digest": "..." }
+ *   }
+ * }
+ * ```
+ */
+export class SecretsManagerClientRegistry implements ClientRegistry {
+  private readonly cache: SecretCache;
+
+  constructor(
+    private readonly secretPath: string,
+    options?: { cache?: SecretCache }
+  ) {
+    this.cache = options?.cache ?? secretCache;
+  }
+
+  async getClient(
+    keyId: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<ClientRecord | null> {
+    const raw = await getSecretField(this.secretPath, keyId, {
+      cache: this.cache,
+      forceRefresh: options?.forceRefresh,
+    });
+    return raw ? toClientRecord(keyId, raw) : null;
+  }
+}
+
+/**
+ * Client registry stored in a DynamoDB table (partition key `key_id`).
+ *
+ * Items use snake_case attributes: `client_id`, `client_name`, `services`,
+ * `scopes`, `key` or `key_hash`, `expires_at`, `disabled`. Lookups are cached
+ * in memory with the same TTL semantics as secrets. Key ids come from callers,
+ * so the cache is bounded and unknown key ids are only remembered briefly.
+ */
+export class DynamoDBClientRegistry implements ClientRegistry {
+  private readonly client: Pick<DynamoDBClient, 'send'>;
+  private readonly cache: SecretCache;
+
+  constructor(
+    private readonly tableName: string,
+    options?: {
+      client?: Pick<DynamoDBClient, 'send'>;
+      cacheTtlMs?: number;
+      /** How long an unknown key id is remembered (default: 10 seconds) */
+      missTtlMs?: number;
+      /** Most key ids cached, least recently used evicted first (default: 1000) */
+      maxCachedClients?: number;
+    }
+  ) {
+    this.client = options?.client ?? new DynamoDBClient({});
+    this.cache = new SecretCache((keyId) => this.fetchItem(keyId), {
+      ttlMs: options?.cacheTtlMs,
+      missTtlMs: options?.missTtlMs ?? 10_000,
+      maxEntries: options?.maxCachedClients ?? 1000,
+    });
+  }
+
+  private async fetchItem(keyId: string): Promise<string | null> {
+    const response = await this.client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { key_id: { S: keyId } },
+        ConsistentRead: false,
+      })
+    );
+    if (!response.Item) return null;
+
+    // String sets (SS) unmarshall to Set, which JSON.stringify would drop
+    return JSON.stringify(unmarshall(response.Item), (_key, value) =>
+      value instanceof Set ? [...value] : value
+    );
+  }
+
+  async getClient(
+    keyId: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<ClientRecord | null> {
+    try {
+      const raw = await this.cache.get(keyId, { forceRefresh: options?.forceRefresh });
+      return raw ? toClientRecord(keyId, raw) : null;
+    } catch (error) {
+      console.error(`Failed to look up client key ${keyId} in ${this.tableName}:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Client registry configured from the Lambda environment:
+ * `AVIARY_CLIENT_REGISTRY_SECRET_PATH`, else `AVIARY_CLIENT_REGISTRY_TABLE`.
+ * Returns undefined when neither is set.
+ */
+export function clientRegistryFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): ClientRegistry | undefined {
+  if (env.AVIARY_CLIENT_REGISTRY_SECRET_PATH) {
+    return new SecretsManagerClientRegistry(env.AVIARY_CLIENT_REGISTRY_SECRET_PATH);
+  }
+  if (env.AVIARY_CLIENT_REGISTRY_TABLE) {
+    return new DynamoDBClientRegistry(env.AVIARY_CLIENT_REGISTRY_TABLE);
+  }
+  return undefined;
+}
@@ -0,0 +1,186 @@
+/**
+ * Typed API Errors
+ *
+ * One `ApiError` subclass per standard error code in docs/api-standards.md.
+ * Throw them from handlers wrapped with `withErrorHandling` (or routes of a
+ * `Router`) and they become the matching status code and error envelope.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Standard error codes (docs/api-standards.md)
+ */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'AUTHENTICATION_ERROR'
+  | 'AUTHORIZATION_ERROR'
+  | 'RESOURCE_NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'CONFLICT'
+  | 'API_VERSION_REMOVED'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'INTERNAL_ERROR'
+  | 'SERVICE_UNAVAILABLE';
+
+/**
+ * `error` object of the standard error envelope
+ */
+export interface ErrorBody {
+  code: string;
+  message: string;
+  details?: unknown;
+  [key: string]: unknown;
+}
+
+export interface ApiErrorOptions {
+  /** Extra detail for the client, e.g. the invalid field */
+  details?: unknown;
+  /** Response headers to send with the error */
+  headers?: Record<string, string>;
+  /** Underlying error (logged, never sent to the client) */
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors that map to an HTTP status and standard error code
+ */
+export class ApiError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+  readonly details?: unknown;
+  readonly headers: Record<string, string>;
+
+  constructor(statusCode: number, code: string, message: string, options?: ApiErrorOptions) {
+    super(message, options?.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = options?.details;
+    this.headers = options?.headers || {};
+  }
+
+  /**
+   * The `error` object of the response envelope
+   */
+  toErrorBody(): ErrorBody {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details !== undefined ? { details: this.details } : {}),
+    };
+  }
+}
+
+/** 400 - Invalid input data */
+export class ValidationError extends ApiError {
+  constructor(message = 'Invalid input provided', options?: ApiErrorOptions) {
+    super(400, 'VALIDATION_ERROR', message, options);
+  }
+}
+
+/** 401 - Invalid or missing credentials */
+export class AuthenticationError extends ApiError {
+  constructor(message = 'Invalid or missing API key', options?: ApiErrorOptions) {
+    super(401, 'AUTHENTICATION_ERROR', message, options);
+  }
+}
+
+/** 403 - Insufficient permissions */
+export class AuthorizationError extends ApiError {
+  constructor(message = 'Insufficient permissions', options?: ApiErrorOptions) {
+    super(403, 'AUTHORIZATION_ERROR', message, options);
+  }
+}
+
+/** 404 - Requested resource doesn't exist */
+export class NotFoundError extends ApiError {
+  constructor(message = 'Resource not found', options?: ApiErrorOptions) {
+    super(404, 'RESOURCE_NOT_FOUND', message, options);
+  }
+}
+
+/** 405 - Route exists but not for this method; sets the `Allow` header */
+export class MethodNotAllowedError extends ApiError {
+  readonly allowedMethods: string[];
+
+  constructor(allowedMethods: string[], message = 'Method not allowed', options?: ApiErrorOptions) {
+    super(405, 'METHOD_NOT_ALLOWED', message, {
+      ...options,
+      headers: { ...options?.headers, Allow: allowedMethods.join(', ') },
+    });
+    this.allowedMethods = allowedMethods;
+  }
+}
+
+/** 409 - Request conflicts with one already in progress */
+export class ConflictError extends ApiError {
+  constructor(message = 'Request conflicts with the current state of the resource', options?: ApiErrorOptions) {
+    super(409, 'CONFLICT', message, options);
+  }
+}
+
+/** 410 - API version is no longer served */
+export class VersionRemovedError extends ApiError {
+  constructor(message = 'API version has been removed', options?: ApiErrorOptions) {
+    super(410, 'API_VERSION_REMOVED', message, options);
+  }
+}
+
+/** 429 - Too many requests; sets `Retry-After` and `retry_after` when known */
+export class RateLimitError extends ApiError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(retryAfterSeconds?: number, message?: string, options?: ApiErrorOptions) {
+    super(
+      429,
+      'RATE_LIMIT_EXCEEDED',
+      message ??
+        (retryAfterSeconds !== undefined
+          ? `Rate limit exceeded. Try again in ${retryAfterSeconds} seconds.`
+          : 'Rate limit exceeded'),
+      {
+        ...options,
+        headers:
+          retryAfterSeconds !== undefined
+            ? { ...options?.headers, 'Retry-After': String(retryAfterSeconds) }
+            : options?.headers,
+      }
+    );
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  toErrorBody(): ErrorBody {
+    return {
+      ...super.toErrorBody(),
+      ...(this.retryAfterSeconds !== undefined ? { retry_after: this.retryAfterSeconds } : {}),
+    };
+  }
+}
+
+/** 500 - Server-side error */
+export class InternalError extends ApiError {
+  constructor(message = 'Internal server error', options?: ApiErrorOptions) {
+    super(500, 'INTERNAL_ERROR', message, options);
+  }
+}
+
+/** 503 - Temporary service issue; sets `Retry-After` when known */
+export class ServiceUnavailableError extends ApiError {
+  constructor(message = 'Service temporarily unavailable', retryAfterSeconds?: number, options?: ApiErrorOptions) {
+    super(503, 'SERVICE_UNAVAILABLE', message, {
+      ...options,
+      headers:
+        retryAfterSeconds !== undefined
+          ? { ...options?.headers, 'Retry-After': String(retryAfterSeconds) }
+          : options?.headers,
+    });
+  }
+}
+
+/**
+ * Whether a thrown value is an `ApiError`
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
@@ -0,0 +1,211 @@
+/**
+ * HTTP Event Adapter
+ *
+ * One view over the three Lambda HTTP event shapes Aviary services receive:
+ * - API Gateway REST API (`APIGatewayProxyEvent`, payload v1)
+ * - API Gateway HTTP API (`APIGatewayProxyEventV2`: `rawPath`, lowercased headers, `cookies`)
+ * - Application Load Balancer (`ALBEvent`: optional multi-value headers, undecoded query strings)
+ *
+ * Handlers read requests through these helpers (headers via ./headers) and
+ * build responses with `toHttpResult`, which returns the result shape the
+ * event source expects.
+ *
+ * @packageDocumentation
+ */
+
+import { STATUS_CODES } from 'http';
+import {
+  ALBEvent,
+  ALBResult,
+  APIGatewayProxyEvent,
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResult,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+import { normalizeApiPath } from './path-normalization';
+import { getHeader, hasMultiValueHeaders } from './headers';
+
+/**
+ * Any HTTP event supported by the adapter
+ */
+export type HttpEvent = APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent;
+
+/**
+ * Result shape for any supported HTTP event
+ */
+export type HttpResult = APIGatewayProxyResult | APIGatewayProxyStructuredResultV2 | ALBResult;
+
+/**
+ * Where an HTTP event came from
+ */
+export type HttpEventSource = 'rest-api' | 'http-api' | 'alb';
+
+/**
+ * Source-independent response, converted with `toHttpResult`
+ */
+export interface HttpResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body?: string;
+  isBase64Encoded?: boolean;
+  /** `Set-Cookie` values */
+  cookies?: string[];
+}
+
+/**
+ * Detect the source of an HTTP event
+ */
+export function getEventSource(event: HttpEvent): HttpEventSource {
+  if ('version' in event && event.version === '2.0') {
+    return 'http-api';
+  }
+  if (event.requestContext && 'elb' in event.requestContext) {
+    return 'alb';
+  }
+  return 'rest-api';
+}
+
+function isV2(event: HttpEvent): event is APIGatewayProxyEventV2 {
+  return getEventSource(event) === 'http-api';
+}
+
+/**
+ * HTTP method in upper case
+ */
+export function getMethod(event: HttpEvent): string {
+  const method = isV2(event) ? event.requestContext.http.method : event.httpMethod;
+  return (method || '').toUpperCase();
+}
+
+/**
+ * Request path as received (HTTP API `rawPath`, otherwise `path`)
+ */
+export function getEventPath(event: HttpEvent): string {
+  return (isV2(event) ? event.rawPath : event.path) || '/';
+}
+
+/**
+ * Request path with the unified API Gateway service prefix stripped
+ *
+ * @see normalizeApiPath
+ */
+export function getNormalizedPath(event: HttpEvent, servicePrefix: string): string {
+  return normalizeApiPath(getEventPath(event), servicePrefix);
+}
+
+function decodeQueryComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Decoded query string parameters (first value for repeated parameters)
+ *
+ * ALB passes query strings undecoded; API Gateway decodes them.
+ */
+export function getQueryParameters(event: HttpEvent): Record<string, string> {
+  const source = getEventSource(event);
+  const result: Record<string, string> = {};
+
+  const multi =
+    'multiValueQueryStringParameters' in event ? event.multiValueQueryStringParameters : undefined;
+  for (const [key, values] of Object.entries(multi || {})) {
+    if (values?.length) {
+      result[source === 'alb' ? decodeQueryComponent(key) : key] =
+        source === 'alb' ? decodeQueryComponent(values[0]) : values[0];
+    }
+  }
+
+  for (const [key, value] of Object.entries(event.queryStringParameters || {})) {
+    if (value === undefined) {
+      continue;
+    }
+    if (source === 'alb') {
+      result[decodeQueryComponent(key)] = decodeQueryComponent(value);
+    } else if (source === 'http-api') {
+      // HTTP API joins repeated parameters with commas
+      result[key] = value.split(',')[0];
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Raw request body, base64-decoded when the event says so
+ */
+export function getRawBody(event: HttpEvent): string | Buffer {
+  const body = event.body || '';
+  return event.isBase64Encoded ? Buffer.from(body, 'base64') : body;
+}
+
+/**
+ * Request cookies (HTTP API `cookies`, otherwise the `Cookie` header)
+ */
+export function getCookies(event: HttpEvent): Record<string, string> {
+  const pairs = isV2(event)
+    ? event.cookies || []
+    : (getHeader(event, 'cookie') || '').split(';');
+
+  const cookies: Record<string, string> = {};
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      cookies[pair.slice(0, index).trim()] = decodeQueryComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Convert a response to the result shape expected by the event's source.
+ *
+ * - REST API: `Set-Cookie` values go in `multiValueHeaders`
+ * - HTTP API: `Set-Cookie` values go in `cookies`
+ * - ALB: adds `statusDescription`, and uses `multiValueHeaders` when the
+ *   target group has multi-value headers enabled (the request had them)
+ */
+export function toHttpResult(event: HttpEvent, response: HttpResponse): HttpResult {
+  const { statusCode, headers = {}, body = '', isBase64Encoded = false, cookies = [] } = response;
+  const source = getEventSource(event);
+
+  if (source === 'http-api') {
+    return {
+      statusCode,
+      headers,
+      body,
+      isBase64Encoded,
+      ...(cookies.length ? { cookies } : {}),
+    };
+  }
+
+  if (source === 'alb') {
+    const statusDescription = `${statusCode} ${STATUS_CODES[statusCode] || ''}`.trim();
+    if (hasMultiValueHeaders(event)) {
+      const multi: Record<string, string[]> = {};
+      for (const [key, value] of Object.entries(headers)) {
+        multi[key] = [value];
+      }
+      if (cookies.length) {
+        multi['Set-Cookie'] = cookies;
+      }
+      return { statusCode, statusDescription, multiValueHeaders: multi, body, isBase64Encoded };
+    }
+    // Single-value headers can carry only one cookie
+    const albHeaders = cookies.length ? { ...headers, 'Set-Cookie': cookies[0] } : headers;
+    return { statusCode, statusDescription, headers: albHeaders, body, isBase64Encoded };
+  }
+
+  return {
+    statusCode,
+    headers,
+    body,
+    isBase64Encoded,
+    ...(cookies.length ? { multiValueHeaders: { 'Set-Cookie': cookies } } : {}),
+  };
+}
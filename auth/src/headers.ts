@@ -0,0 +1,97 @@
+/**
+ * Header Access Utilities
+ *
+ * Case-insensitive header lookup across `headers` and `multiValueHeaders` for
+ * API Gateway REST API, HTTP API and ALB events. HTTP header names are
+ * case-insensitive, but each event source preserves or lowercases them
+ * differently, so never index `event.headers` directly.
+ *
+ * @packageDocumentation
+ */
+
+import type { HttpEvent } from './event-adapter';
+
+type HeaderMap = Record<string, string | undefined>;
+type MultiValueHeaderMap = Record<string, string[] | undefined>;
+
+function singleValueHeaders(event: HttpEvent): HeaderMap {
+  return (event.headers || {}) as HeaderMap;
+}
+
+function multiValueHeaders(event: HttpEvent): MultiValueHeaderMap {
+  return ('multiValueHeaders' in event && event.multiValueHeaders
+    ? event.multiValueHeaders
+    : {}) as MultiValueHeaderMap;
+}
+
+/**
+ * Whether the event carries multi-value headers (REST API, or ALB with
+ * multi-value headers enabled on the target group)
+ */
+export function hasMultiValueHeaders(event: HttpEvent): boolean {
+  return 'multiValueHeaders' in event && !!event.multiValueHeaders;
+}
+
+/**
+ * All values of a header, matched case-insensitively.
+ *
+ * Multi-value headers are preferred when present since they carry every value;
+ * HTTP API comma-joins repeated headers into a single value, which is returned as-is.
+ *
+ * @example
+ * getHeaderValues(event, 'accept') // => ['text/html', 'application/json']
+ */
+export function getHeaderValues(event: HttpEvent, name: string): string[] {
+  const lowerName = name.toLowerCase();
+
+  const multi = multiValueHeaders(event);
+  const values = Object.keys(multi)
+    .filter((key) => key.toLowerCase() === lowerName)
+    .flatMap((key) => multi[key] || []);
+  if (values.length > 0) {
+    return values;
+  }
+
+  const headers = singleValueHeaders(event);
+  return Object.keys(headers)
+    .filter((key) => key.toLowerCase() === lowerName && headers[key] !== undefined)
+    .map((key) => headers[key] as string);
+}
+
+/**
+ * First value of a header, matched case-insensitively.
+ *
+ * @example
+ * getHeader(event, 'X-API-Key') // matches 'x-api-key', 'X-Api-Key', 'X-API-KEY', ...
+ */
+export function getHeader(event: HttpEvent, name: string): string | undefined {
+  return getHeaderValues(event, name)[0];
+}
+
+/**
+ * All request headers with lowercased names (first value of each)
+ */
+export function getHeaders(event: HttpEvent): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const [key, values] of Object.entries(multiValueHeaders(event))) {
+    if (values?.length) {
+      result[key.toLowerCase()] = values[0];
+    }
+  }
+  for (const [key, value] of Object.entries(singleValueHeaders(event))) {
+    if (value !== undefined && !(key.toLowerCase() in result)) {
+      result[key.toLowerCase()] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Token from an `Authorization: Bearer <token>` header, if present
+ */
+export function getBearerToken(event: HttpEvent): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(getHeader(event, 'Authorization')?.trim() || '');
+  return match ? match[1].trim() : undefined;
+}
@@ -0,0 +1,437 @@
+/**
+ * Idempotency Keys
+ *
+ * Dedupes identical job submissions (docs/airtable-automations.md section 3):
+ * the first request with a given key runs and its response is stored; later
+ * requests with the same key get the stored response replayed (so the client
+ * sees the existing `job_id`), and a duplicate that arrives while the first is
+ * still running gets 409 `CONFLICT`.
+ *
+ * The key comes from the `Idempotency-Key` header or, failing that, an
+ * `idempotency_key` field in the JSON body. It is stored per method, route and
+ * caller, so two clients (or two routes) using the same key never see each
+ * other's responses, and with a hash of the body, so a reused key with a
+ * different body is rejected instead of replaying the old response.
+ *
+ * - `InMemoryIdempotencyStore`: per Lambda instance; fine for tests
+ * - `DynamoDBIdempotencyStore`: shared across instances via a conditional write
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'crypto';
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDBClient,
+  PutItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { AuthResult } from './authorize';
+import { ConflictError, ServiceUnavailableError, ValidationError } from './errors';
+import { HttpEvent, HttpResponse, getEventPath, getMethod, getRawBody } from './event-adapter';
+import { getHeader } from './headers';
+import { extractApiKey } from './key-sources';
+import { HttpHandler } from './responses';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_KEY_FIELD = 'idempotency_key';
+
+const MAX_KEY_LENGTH = 255;
+
+// Client errors worth retrying; replaying them for the whole TTL would lock the key
+const TRANSIENT_STATUS_CODES = new Set([408, 425, 429]);
+
+/**
+ * Existing record for a key that could not be claimed
+ */
+export type IdempotencyRecord =
+  | { status: 'in_progress'; fingerprint?: string }
+  | { status: 'completed'; response: HttpResponse; fingerprint?: string };
+
+/**
+ * Storage for idempotency records
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim a key for a new request.
+   *
+   * @param key - Idempotency key
+   * @param options.expiresAt - When the record may be forgotten
+   * @param options.lockExpiresAt - When an unfinished claim may be taken over
+   *   (the request that made it is assumed to have crashed)
+   * @param options.fingerprint - Hash of the request body, stored with the claim
+   * @returns null if the key was claimed, otherwise the existing record
+   */
+  claim(
+    key: string,
+    options: { expiresAt: Date; lockExpiresAt: Date; fingerprint?: string }
+  ): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Store the response (and request fingerprint) for a claimed key
+   */
+  complete(key: string, response: HttpResponse, expiresAt: Date, fingerprint?: string): Promise<void>;
+
+  /**
+   * Drop an unfinished claim so the request can be retried
+   */
+  release(key: string): Promise<void>;
+}
+
+interface StoredRecord {
+  response?: HttpResponse;
+  fingerprint?: string;
+  expiresAt: number;
+  lockExpiresAt: number;
+}
+
+/**
+ * Idempotency store held in process memory.
+ *
+ * Only dedupes requests that reach the same Lambda instance.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, StoredRecord>();
+
+  async claim(
+    key: string,
+    options: { expiresAt: Date; lockExpiresAt: Date; fingerprint?: string }
+  ): Promise<IdempotencyRecord | null> {
+    const now = Date.now();
+    const existing = this.records.get(key);
+
+    if (existing && existing.expiresAt > now) {
+      const { fingerprint } = existing;
+      if (existing.response) {
+        return { status: 'completed', response: existing.response, fingerprint };
+      }
+      if (existing.lockExpiresAt > now) {
+        return { status: 'in_progress', fingerprint };
+      }
+    }
+
+    this.records.set(key, {
+      fingerprint: options.fingerprint,
+      expiresAt: options.expiresAt.getTime(),
+      lockExpiresAt: options.lockExpiresAt.getTime(),
+    });
+    return null;
+  }
+
+  async complete(key: string, response: HttpResponse, expiresAt: Date, fingerprint?: string): Promise<void> {
+    this.records.set(key, { response, fingerprint, expiresAt: expiresAt.getTime(), lockExpiresAt: 0 });
+  }
+
+  async release(key: string): Promise<void> {
+    if (!this.records.get(key)?.response) {
+      this.records.delete(key);
+    }
+  }
+}
+
+function isConditionalCheckFailure(error: unknown): error is ConditionalCheckFailedException {
+  return (
+    error instanceof ConditionalCheckFailedException ||
+    (error as Error)?.name === 'ConditionalCheckFailedException'
+  );
+}
+
+/**
+ * Idempotency store backed by a DynamoDB table.
+ *
+ * Table layout: partition key `idempotency_key` (string) and a TTL attribute
+ * `expires_at` (epoch seconds); see `IdempotencyTable` in cdk-patterns.
+ * Items hold `status` (`IN_PROGRESS` or `COMPLETED`), `locked_until`, the
+ * `request_hash` fingerprint and the stored `response` as JSON. A key is
+ * claimed with a conditional put that succeeds only if the item is absent,
+ * expired (TTL deletion can lag by hours) or an abandoned in-progress claim.
+ */
+export class DynamoDBIdempotencyStore implements IdempotencyStore {
+  private readonly client: Pick<DynamoDBClient, 'send'>;
+
+  constructor(
+    private readonly tableName: string,
+    options?: { client?: Pick<DynamoDBClient, 'send'> }
+  ) {
+    this.client = options?.client ?? new DynamoDBClient({});
+  }
+
+  async claim(
+    key: string,
+    options: { expiresAt: Date; lockExpiresAt: Date; fingerprint?: string }
+  ): Promise<IdempotencyRecord | null> {
+    try {
+      await this.client.send(
+        new PutItemCommand({
+          TableName: this.tableName,
+          Item: {
+            idempotency_key: { S: key },
+            status: { S: 'IN_PROGRESS' },
+            expires_at: { N: String(toEpochSeconds(options.expiresAt)) },
+            locked_until: { N: String(toEpochSeconds(options.lockExpiresAt)) },
+            ...(options.fingerprint ? { request_hash: { S: options.fingerprint } } : {}),
+          },
+          ConditionExpression:
+            'attribute_not_exists(idempotency_key) OR expires_at < :now OR (#status = :inProgress AND locked_until < :now)',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':now': { N: String(Math.floor(Date.now() / 1000)) },
+            ':inProgress': { S: 'IN_PROGRESS' },
+          },
+          ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+        })
+      );
+      return null;
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        return toRecord(error.Item);
+      }
+      throw error;
+    }
+  }
+
+  async complete(key: string, response: HttpResponse, expiresAt: Date, fingerprint?: string): Promise<void> {
+    await this.client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: {
+          idempotency_key: { S: key },
+          status: { S: 'COMPLETED' },
+          expires_at: { N: String(toEpochSeconds(expiresAt)) },
+          response: { S: JSON.stringify(response) },
+          ...(fingerprint ? { request_hash: { S: fingerprint } } : {}),
+        },
+      })
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    try {
+      await this.client.send(
+        new DeleteItemCommand({
+          TableName: this.tableName,
+          Key: { idempotency_key: { S: key } },
+          ConditionExpression: '#status = :inProgress',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: { ':inProgress': { S: 'IN_PROGRESS' } },
+        })
+      );
+    } catch (error) {
+      // Already completed or gone; nothing to release
+      if (!isConditionalCheckFailure(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+function toEpochSeconds(date: Date): number {
+  return Math.ceil(date.getTime() / 1000);
+}
+
+function toRecord(item: Record<string, AttributeValue> | undefined): IdempotencyRecord {
+  const fingerprint = item?.request_hash?.S;
+  if (item?.status?.S === 'COMPLETED' && item.response?.S) {
+    return {
+      status: 'completed',
+      response: JSON.parse(item.response.S) as HttpResponse,
+      ...(fingerprint ? { fingerprint } : {}),
+    };
+  }
+  return { status: 'in_progress', ...(fingerprint ? { fingerprint } : {}) };
+}
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore;
+  /** How long responses are replayed (default: 24 hours) */
+  ttlSeconds?: number;
+  /**
+   * How long an unfinished request holds its key before a retry may take it
+   * over (default: 300). Set to at least the Lambda timeout.
+   */
+  inProgressTimeoutSeconds?: number;
+  /** Reject requests without a key with 400 `VALIDATION_ERROR` (default: false) */
+  required?: boolean;
+}
+
+/**
+ * Read the idempotency key from the `Idempotency-Key` header or the
+ * `idempotency_key` field of a JSON body.
+ *
+ * @throws ValidationError when the key is longer than 255 characters
+ */
+export function getIdempotencyKey(event: HttpEvent): string | null {
+  let key = getHeader(event, IDEMPOTENCY_KEY_HEADER)?.trim();
+
+  if (!key) {
+    try {
+      const body = JSON.parse(getRawBody(event).toString() || 'null');
+      const field = body?.[IDEMPOTENCY_KEY_FIELD];
+      key = typeof field === 'string' ? field.trim() : undefined;
+    } catch {
+      // Not JSON; only the header can carry a key
+    }
+  }
+
+  if (!key) {
+    return null;
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new ValidationError(`Idempotency key must be at most ${MAX_KEY_LENGTH} characters`, {
+      details: { field: IDEMPOTENCY_KEY_HEADER, reason: 'Too long' },
+    });
+  }
+  return key;
+}
+
+/**
+ * Who and what an idempotency key belongs to
+ */
+export interface IdempotencyScope {
+  /** Normalized request path, e.g. '/v1/jobs/abc' (default: the request path) */
+  route?: string;
+  /** Authorization result; keys are kept per client id, or for the shared key as a whole */
+  auth?: AuthResult;
+}
+
+function sha256(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function callerId(event: HttpEvent, auth: AuthResult | undefined): string {
+  if (auth?.clientId) {
+    return `client:${auth.clientId}`;
+  }
+  if (auth?.method === 'shared-key') {
+    // Not the key slot: a retry during rotation may present the previous key
+    return 'shared-key';
+  }
+  // Not authorized here (e.g. behind an API Gateway authorizer): the presented key identifies the caller
+  const presented = extractApiKey(event);
+  return presented ? `key:${sha256(presented.key).slice(0, 32)}` : 'anonymous';
+}
+
+/**
+ * Store key for an idempotency key: method, route and caller, then the client's key
+ *
+ * @example
+ * idempotencyStoreKey(event, 'rec123:tts:v1', { route: '/v1/jobs', auth })
+ * // => 'POST /v1/jobs client:airtable-prod rec123:tts:v1'
+ */
+export function idempotencyStoreKey(event: HttpEvent, key: string, scope?: IdempotencyScope): string {
+  const route = scope?.route ?? getEventPath(event);
+  return `${getMethod(event)} ${route} ${callerId(event, scope?.auth)} ${key}`;
+}
+
+/**
+ * Release a key without masking the error or response that caused the release
+ */
+async function releaseQuietly(store: IdempotencyStore, key: string): Promise<void> {
+  try {
+    await store.release(key);
+  } catch (error) {
+    console.error('Failed to release idempotency key:', error);
+  }
+}
+
+/**
+ * Run a request at most once per idempotency key.
+ *
+ * Responses below 500 are stored and replayed with an `Idempotent-Replayed: true`
+ * header, except 408, 425 and 429, which the client is expected to retry.
+ * Server errors and thrown errors release the key so the client can retry.
+ *
+ * @param scope - Route path and caller the key belongs to (the router passes both)
+ * @throws ConflictError while another request with the same key is in progress,
+ *   or when the key was already used with a different request body
+ * @throws ServiceUnavailableError when the store cannot claim the key
+ */
+export async function executeIdempotently(
+  event: HttpEvent,
+  options: IdempotencyOptions,
+  run: () => Promise<HttpResponse>,
+  scope?: IdempotencyScope
+): Promise<HttpResponse> {
+  const { store, ttlSeconds = 86_400, inProgressTimeoutSeconds = 300, required = false } = options;
+
+  const clientKey = getIdempotencyKey(event);
+  if (!clientKey) {
+    if (required) {
+      throw new ValidationError(
+        `${IDEMPOTENCY_KEY_HEADER} header or ${IDEMPOTENCY_KEY_FIELD} field is required`
+      );
+    }
+    return run();
+  }
+
+  const key = idempotencyStoreKey(event, clientKey, scope);
+  const fingerprint = sha256(getRawBody(event));
+  const now = Date.now();
+  const expiresAt = new Date(now + ttlSeconds * 1000);
+  let existing: IdempotencyRecord | null;
+  try {
+    existing = await store.claim(key, {
+      expiresAt,
+      lockExpiresAt: new Date(now + inProgressTimeoutSeconds * 1000),
+      fingerprint,
+    });
+  } catch (error) {
+    throw new ServiceUnavailableError('Idempotency store unavailable', undefined, { cause: error });
+  }
+
+  if (existing?.fingerprint && existing.fingerprint !== fingerprint) {
+    throw new ConflictError('This idempotency key was already used with a different request body');
+  }
+  if (existing?.status === 'completed') {
+    return {
+      ...existing.response,
+      headers: { ...existing.response.headers, 'Idempotent-Replayed': 'true' },
+    };
+  }
+  if (existing?.status === 'in_progress') {
+    throw new ConflictError('A request with this idempotency key is already in progress');
+  }
+
+  let response: HttpResponse;
+  try {
+    response = await run();
+  } catch (error) {
+    await releaseQuietly(store, key);
+    throw error;
+  }
+
+  if (response.statusCode >= 500 || TRANSIENT_STATUS_CODES.has(response.statusCode)) {
+    await releaseQuietly(store, key);
+    return response;
+  }
+
+  try {
+    await store.complete(key, response, expiresAt, fingerprint);
+  } catch (error) {
+    // The handler already ran (e.g. the response exceeds DynamoDB's 400 KB item
+    // limit): answer anyway and free the key rather than leave it locked
+    console.error('Failed to store idempotent response:', error);
+    await releaseQuietly(store, key);
+  }
+  return response;
+}
+
+/**
+ * Wrap a handler so duplicate requests replay the first response.
+ *
+ * Keys are kept per method, request path and presented API key. Router routes
+ * with `idempotency` key on the normalized path and the authorized client instead.
+ *
+ * @example
+ * ```typescript
+ * const store = new DynamoDBIdempotencyStore(process.env.IDEMPOTENCY_TABLE!);
+ *
+ * export const handler = withErrorHandling(
+ *   withIdempotency(async (event, context) => ok(await createJob(event), { statusCode: 202, context }), { store })
+ * );
+ * ```
+ */
+export function withIdempotency(handler: HttpHandler, options: IdempotencyOptions): HttpHandler {
+  return (event, context) => executeIdempotently(event, options, () => handler(event, context));
+}
@@ -9,9 +9,221 @@
  * @packageDocumentation
  */
 
-export { authorizeRequest, getSecretValue, type AuthResult } from './authorize';
+export {
+  authorizeRequest,
+  authorizeApiKey,
+  type AuthorizeRequestOptions,
+  type AuthResult,
+} from './authorize';
+export {
+  createAuthorizerHandler,
+  authorizerHandler,
+  authorizerOptionsFromEnv,
+  stageWildcardArn,
+  type AuthorizerEvent,
+  type AuthorizerContext,
+  type AuthorizerHandlerOptions,
+  type AuthorizerResult,
+} from './authorizer';
+export { getSecretValue, getSecretField, getSecretText, secretCache } from './secrets';
+export {
+  SecretCache,
+  type SecretCacheOptions,
+  type SecretCacheStats,
+  type SecretFetcher,
+} from './secret-cache';
+export {
+  parseSharedKeySet,
+  matchSharedKey,
+  isKeyExpired,
+  entryMatchesKey,
+  type SharedKeyEntry,
+  type SharedKeySet,
+  type KeySlot,
+} from './shared-keys';
+export {
+  hashApiKey,
+  verifyKeyHash,
+  constantTimeEqual,
+  isKeyHash,
+  type KeyHash,
+  type KeyDigestAlgorithm,
+} from './key-hashing';
+export {
+  SecretsManagerClientRegistry,
+  DynamoDBClientRegistry,
+  parseClientKey,
+  toClientRecord,
+  clientRegistryFromEnv,
+  verifyClientKey,
+  type ClientRecord,
+  type ClientRegistry,
+} from './client-registry';
+export {
+  hasScope,
+  scopeSatisfies,
+  checkRouteScope,
+  type RouteScopeRule,
+} from './scopes';
+export {
+  signRequest,
+  verifySignedRequest,
+  checkSignature,
+  computeSignature,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  type SignatureHeaders,
+  type SignatureCheck,
+  type SignatureCheckOptions,
+} from './signature';
+export {
+  InMemoryNonceStore,
+  DynamoDBNonceStore,
+  type NonceStore,
+} from './nonce-store';
+export {
+  getEventSource,
+  getMethod,
+  getEventPath,
+  getNormalizedPath,
+  getQueryParameters,
+  getRawBody,
+  getCookies,
+  toHttpResult,
+  type HttpEvent,
+  type HttpResult,
+  type HttpResponse,
+  type HttpEventSource,
+} from './event-adapter';
+export {
+  getHeader,
+  getHeaderValues,
+  getHeaders,
+  getBearerToken,
+  hasMultiValueHeaders,
+} from './headers';
+export {
+  extractApiKey,
+  DEFAULT_API_KEY_SOURCES,
+  type ApiKeySource,
+  type ExtractedApiKey,
+} from './key-sources';
+export {
+  ApiError,
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  MethodNotAllowedError,
+  ConflictError,
+  VersionRemovedError,
+  RateLimitError,
+  InternalError,
+  ServiceUnavailableError,
+  isApiError,
+  type ErrorCode,
+  type ErrorBody,
+  type ApiErrorOptions,
+} from './errors';
+export {
+  ok,
+  fail,
+  withErrorHandling,
+  type ResponseMeta,
+  type ResponseOptions,
+  type HttpHandler,
+} from './responses';
+export {
+  Router,
+  type RouterOptions,
+  type RouterAuthOptions,
+  type RouteOptions,
+  type RouteAuth,
+  type RouteHandler,
+  type RouteRequest,
+} from './router';
+export {
+  validateRequest,
+  validateEvent,
+  validateSchema,
+  parseJsonBody,
+  type JsonSchema,
+  type SafeParseSchema,
+  type SafeParseResult,
+  type SchemaIssue,
+  type Schema,
+  type RequestSchemas,
+  type ValidatedRequest,
+  type FieldError,
+  type FieldLocation,
+  type ValidationErrorDetails,
+} from './validation';
+export {
+  InMemoryIdempotencyStore,
+  DynamoDBIdempotencyStore,
+  withIdempotency,
+  executeIdempotently,
+  getIdempotencyKey,
+  idempotencyStoreKey,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_KEY_FIELD,
+  type IdempotencyStore,
+  type IdempotencyRecord,
+  type IdempotencyOptions,
+  type IdempotencyScope,
+} from './idempotency';
+export {
+  buildWebhookEnvelope,
+  deliverWebhook,
+  blobChecksum,
+  createTraceparent,
+  WEBHOOK_ENVELOPE_VERSION,
+  type WebhookEnvelope,
+  type WebhookEventInput,
+  type WebhookError,
+  type BlobEncoding,
+  type BuildWebhookEnvelopeOptions,
+  type DeliverWebhookOptions,
+  type WebhookDeliveryRecord,
+} from './webhooks';
+export {
+  InMemoryWebhookHistory,
+  DynamoDBWebhookHistory,
+  type WebhookHistory,
+  type WebhookHistoryEntry,
+  type WebhookOutcome,
+} from './webhook-history';
+export {
+  verifyWebhook,
+  type VerifyWebhookOptions,
+  type WebhookVerification,
+  type WebhookRejectionReason,
+} from './webhook-receiver';
+export {
+  enqueueWebhook,
+  backoffDelaySeconds,
+  createWebhookWorker,
+  webhookWorkerOptionsFromEnv,
+  webhookWorkerHandler,
+  type WebhookDeliveryJob,
+  type WebhookWorkerOptions,
+} from './webhook-queue';
+export {
+  createWebhookReplayRouter,
+  webhookReplayHandler,
+  type WebhookReplayOptions,
+} from './webhook-replay';
+export {
+  VersionPolicy,
+  deprecationHeaders,
+  type VersionPolicyConfig,
+  type DeprecatedVersion,
+  type VersionStatus,
+  type VersionCheck,
+} from './versioning';
 export {
   normalizeApiPath,
   extractApiVersion,
   isValidApiVersion,
+  matchPathTemplate,
 } from './path-normalization';
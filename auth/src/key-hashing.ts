@@ -0,0 +1,98 @@
+/**
+ * API Key Hashing and Comparison
+ *
+ * Keys are compared in constant time, and secrets may store a salted digest of
+ * each key instead of the key itself so a leaked secret JSON does not hand out
+ * working credentials.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Supported digest algorithms for stored keys.
+ *
+ * - `sha256`: SHA-256 of `salt + key`
+ * - `hmac-sha256`: HMAC-SHA256 of the key, with the salt as the HMAC key
+ */
+export type KeyDigestAlgorithm = 'sha256' | 'hmac-sha256';
+
+/**
+ * Salted digest of an API key, as stored in Secrets Manager
+ */
+export interface KeyHash {
+  algorithm: KeyDigestAlgorithm;
+  /** Salt (any string; generated as 32 hex chars by `hashApiKey`) */
+  salt: string;
+  /** Hex-encoded digest */
+  digest: string;
+}
+
+const DIGEST_ALGORITHMS: readonly KeyDigestAlgorithm[] = ['sha256', 'hmac-sha256'];
+
+function computeDigest(key: string, algorithm: KeyDigestAlgorithm, salt: string): string {
+  if (algorithm === 'hmac-sha256') {
+    return createHmac('sha256', salt).update(key).digest('hex');
+  }
+  return createHash('sha256').update(salt + key).digest('hex');
+}
+
+/**
+ * Compare two strings in constant time.
+ *
+ * Both values are hashed first so the comparison takes the same time
+ * regardless of where (or whether) the lengths differ.
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Produce the stored form of an API key.
+ *
+ * @param key - Plaintext key
+ * @param options - Digest algorithm (default: sha256) and salt (default: random)
+ * @returns Digest to store in the secret in place of the plaintext key
+ *
+ * @example
+ * hashApiKey('my-new-key', { algorithm: 'hmac-sha256' })
+ * // => { algorithm: 'hmac-sha256', salt: '9f2c...', digest: '51ab...' }
+ */
+export function hashApiKey(
+  key: string,
+  options?: {
+    algorithm?: KeyDigestAlgorithm;
+    salt?: string;
+  }
+): KeyHash {
+  const { algorithm = 'sha256', salt = randomBytes(16).toString('hex') } = options || {};
+  return { algorithm, salt, digest: computeDigest(key, algorithm, salt) };
+}
+
+/**
+ * Check that a value is a well-formed stored key digest
+ */
+export function isKeyHash(value: unknown): value is KeyHash {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const { algorithm, salt, digest } = value as Record<string, unknown>;
+  return (
+    DIGEST_ALGORITHMS.includes(algorithm as KeyDigestAlgorithm) &&
+    typeof salt === 'string' &&
+    typeof digest === 'string' &&
+    /^[0-9a-f]{64}$/i.test(digest)
+  );
+}
+
+/**
+ * Verify a presented key against a stored digest in constant time
+ */
+export function verifyKeyHash(presentedKey: string, hash: KeyHash): boolean {
+  const expected = Buffer.from(hash.digest.toLowerCase(), 'hex');
+  const actual = Buffer.from(computeDigest(presentedKey, hash.algorithm, hash.salt), 'hex');
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,70 @@
+/**
+ * API Key Sources
+ *
+ * Where `authorizeRequest` looks for the presented API key. Sources are tried
+ * in order and the first non-empty value wins, even if it turns out to be
+ * invalid; later sources are never used as a fallback for a wrong key.
+ *
+ * Supported sources:
+ * - `'x-api-key'` - `X-API-Key` header (any casing)
+ * - `'bearer'` - `Authorization: Bearer <key>` (docs/api-standards.md)
+ * - `'query:<name>'` - query string parameter, for legacy webhook senders that
+ *   cannot set headers. Keys in URLs end up in access logs; avoid for new clients.
+ *
+ * @packageDocumentation
+ */
+
+import { HttpEvent, getQueryParameters } from './event-adapter';
+import { getBearerToken, getHeader } from './headers';
+
+export type ApiKeySource = 'x-api-key' | 'bearer' | `query:${string}`;
+
+/**
+ * Default sources: `X-API-Key` header, then `Authorization: Bearer`
+ */
+export const DEFAULT_API_KEY_SOURCES: readonly ApiKeySource[] = ['x-api-key', 'bearer'];
+
+/**
+ * A key found in the request and where it came from
+ */
+export interface ExtractedApiKey {
+  key: string;
+  source: ApiKeySource;
+}
+
+function readSource(event: HttpEvent, source: ApiKeySource): string | undefined {
+  if (source === 'x-api-key') {
+    return getHeader(event, 'X-API-Key');
+  }
+  if (source === 'bearer') {
+    return getBearerToken(event);
+  }
+  if (source.startsWith('query:')) {
+    return getQueryParameters(event)[source.slice('query:'.length)];
+  }
+  return undefined;
+}
+
+/**
+ * Extract the API key from the first source that has a non-empty value.
+ *
+ * @param event - API Gateway (v1 or v2) or ALB event
+ * @param sources - Sources in precedence order (default: X-API-Key, then Bearer)
+ * @returns The trimmed key and its source, or null when no source has one
+ *
+ * @example
+ * extractApiKey(event, ['x-api-key', 'query:api_key'])
+ * // => { key: 'abc123', source: 'query:api_key' }
+ */
+export function extractApiKey(
+  event: HttpEvent,
+  sources: readonly ApiKeySource[] = DEFAULT_API_KEY_SOURCES
+): ExtractedApiKey | null {
+  for (const source of sources) {
+    const key = readSource(event, source)?.trim();
+    if (key) {
+      return { key, source };
+    }
+  }
+  return null;
+}
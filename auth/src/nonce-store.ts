@@ -0,0 +1,138 @@
+/**
+ * Replay Protection Stores
+ *
+ * A nonce store remembers values (request signatures, webhook event ids) that
+ * have already been accepted, until they can no longer pass the clock-skew
+ * check anyway.
+ *
+ * - `InMemoryNonceStore`: per Lambda instance; fine for tests and low-risk routes
+ * - `DynamoDBNonceStore`: shared across instances via a conditional write
+ *
+ * @packageDocumentation
+ */
+
+import {
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDBClient,
+  PutItemCommand,
+} from '@aws-sdk/client-dynamodb';
+
+/**
+ * Storage for values that must only be accepted once
+ */
+export interface NonceStore {
+  /**
+   * Record a nonce.
+   *
+   * @param nonce - Value to claim
+   * @param expiresAt - When the nonce may be forgotten
+   * @returns true if the nonce was new, false if it was already claimed
+   */
+  claim(nonce: string, expiresAt: Date): Promise<boolean>;
+
+  /**
+   * Forget a claimed nonce so it can be claimed again (e.g. when the work it
+   * guarded failed and the sender will retry).
+   *
+   * @param nonce - Value to release
+   */
+  release(nonce: string): Promise<void>;
+}
+
+/**
+ * Nonce store held in process memory.
+ *
+ * Only protects against replays that reach the same Lambda instance.
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly nonces = new Map<string, number>();
+
+  constructor(private readonly maxEntries: number = 10_000) {}
+
+  async claim(nonce: string, expiresAt: Date): Promise<boolean> {
+    const now = Date.now();
+    const existing = this.nonces.get(nonce);
+    if (existing !== undefined && existing > now) {
+      return false;
+    }
+
+    this.nonces.set(nonce, expiresAt.getTime());
+    this.prune(now);
+    return true;
+  }
+
+  async release(nonce: string): Promise<void> {
+    this.nonces.delete(nonce);
+  }
+
+  private prune(now: number): void {
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+      }
+    }
+
+    // Map iterates in insertion order, so the oldest claims go first
+    while (this.nonces.size > this.maxEntries) {
+      const oldest = this.nonces.keys().next().value as string;
+      this.nonces.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Nonce store backed by a DynamoDB table.
+ *
+ * Table layout: partition key `nonce` (string) and a TTL attribute `expires_at`
+ * (epoch seconds). A nonce is claimed with a conditional put that only succeeds
+ * if the item is absent or already expired (TTL deletion can lag by hours).
+ */
+export class DynamoDBNonceStore implements NonceStore {
+  private readonly client: Pick<DynamoDBClient, 'send'>;
+
+  constructor(
+    private readonly tableName: string,
+    options?: { client?: Pick<DynamoDBClient, 'send'> }
+  ) {
+    this.client = options?.client ?? new DynamoDBClient({});
+  }
+
+  async claim(nonce: string, expiresAt: Date): Promise<boolean> {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    try {
+      await this.client.send(
+        new PutItemCommand({
+          TableName: this.tableName,
+          Item: {
+            nonce: { S: nonce },
+            expires_at: { N: String(Math.ceil(expiresAt.getTime() / 1000)) },
+          },
+          ConditionExpression: 'attribute_not_exists(nonce) OR expires_at < :now',
+          ExpressionAttributeValues: {
+            ':now': { N: String(nowSeconds) },
+          },
+        })
+      );
+      return true;
+    } catch (error) {
+      if (
+        error instanceof ConditionalCheckFailedException ||
+        (error as Error)?.name === 'ConditionalCheckFailedException'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async release(nonce: string): Promise<void> {
+    await this.client.send(
+      new DeleteItemCommand({
+        TableName: this.tableName,
+        Key: { nonce: { S: nonce } },
+      })
+    );
+  }
+}
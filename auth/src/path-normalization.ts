@@ -79,16 +79,17 @@ export function normalizeApiPath(rawPath: string, servicePrefix: string): string
 /**
  * Extract the API version from a normalized path.
  *
- * @param normalizedPath - Path starting with /v1/, /v2/, etc.
+ * @param normalizedPath - Path starting with /v1/, /v2/, etc. (or exactly /v1)
  * @returns Version string (e.g., 'v1', 'v2') or null if no version prefix
  *
  * @example
  * extractApiVersion('/v1/mix/jobs') // => 'v1'
  * extractApiVersion('/v2/tts/jobs') // => 'v2'
+ * extractApiVersion('/v1')          // => 'v1'
  * extractApiVersion('/health')      // => null
  */
 export function extractApiVersion(normalizedPath: string): string | null {
-  const versionMatch = normalizedPath.match(/^\/v(\d+)\//);
+  const versionMatch = normalizedPath.match(/^\/v(\d+)(?:\/|$)/);
   return versionMatch ? `v${versionMatch[1]}` : null;
 }
 
@@ -98,20 +99,74 @@ export function extractApiVersion(normalizedPath: string): string | null {
  * Returns true for non-versioned paths (like /health) to allow health checks
  * and other infrastructure endpoints.
  *
+ * For deprecation headers and removed versions, use `VersionPolicy`.
+ *
  * @param normalizedPath - Path to validate
- * @param expectedVersion - Expected version (default: 'v1')
+ * @param expectedVersion - Expected version, or list of accepted versions (default: 'v1')
  * @returns true if version matches or path is non-versioned
  *
  * @example
- * isValidApiVersion('/v1/mix/jobs', 'v1') // => true
- * isValidApiVersion('/v2/mix/jobs', 'v1') // => false
- * isValidApiVersion('/health', 'v1')      // => true (non-versioned allowed)
+ * isValidApiVersion('/v1/mix/jobs', 'v1')         // => true
+ * isValidApiVersion('/v2/mix/jobs', 'v1')         // => false
+ * isValidApiVersion('/v2/mix/jobs', ['v1', 'v2']) // => true
+ * isValidApiVersion('/health', 'v1')              // => true (non-versioned allowed)
  */
 export function isValidApiVersion(
   normalizedPath: string,
-  expectedVersion: string = 'v1'
+  expectedVersion: string | string[] = 'v1'
 ): boolean {
   const version = extractApiVersion(normalizedPath);
+  const accepted = Array.isArray(expectedVersion) ? expectedVersion : [expectedVersion];
   // Allow non-versioned paths (health checks, etc.) or matching version
-  return version === null || version === expectedVersion;
+  return version === null || accepted.includes(version);
+}
+
+/**
+ * Match a normalized path against a path template with `{param}` placeholders.
+ *
+ * Placeholders match exactly one non-empty path segment and are URI-decoded.
+ * Trailing slashes are ignored on both sides.
+ *
+ * @param template - Path template (e.g., '/v1/mix/jobs/{id}')
+ * @param normalizedPath - Path to match (e.g., '/v1/mix/jobs/job_123')
+ * @returns Extracted path parameters, or null if the path does not match
+ *
+ * @example
+ * matchPathTemplate('/v1/mix/jobs/{id}', '/v1/mix/jobs/job_123')
+ * // => { id: 'job_123' }
+ *
+ * @example
+ * matchPathTemplate('/v1/mix/jobs/{id}', '/v1/mix/jobs')
+ * // => null
+ */
+export function matchPathTemplate(
+  template: string,
+  normalizedPath: string
+): Record<string, string> | null {
+  const templateSegments = template.split('/').filter(Boolean);
+  const pathSegments = normalizedPath.split('/').filter(Boolean);
+
+  if (templateSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < templateSegments.length; i++) {
+    const templateSegment = templateSegments[i];
+    const placeholder = templateSegment.match(/^\{([^}]+)\}$/);
+
+    if (placeholder) {
+      try {
+        params[placeholder[1]] = decodeURIComponent(pathSegments[i]);
+      } catch {
+        // Malformed percent-encoding cannot match any route
+        return null;
+      }
+    } else if (templateSegment !== pathSegments[i]) {
+      return null;
+    }
+  }
+
+  return params;
 }
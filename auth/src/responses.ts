@@ -0,0 +1,121 @@
+/**
+ * Standard Response Envelope
+ *
+ * Builders for the `{ success, data, meta }` and `{ success, error, meta }`
+ * envelopes in docs/api-standards.md, plus `withErrorHandling`, which turns
+ * errors thrown by a handler into the matching status code and envelope.
+ *
+ * @packageDocumentation
+ */
+
+import { Context } from 'aws-lambda';
+import { ApiError, InternalError, isApiError } from './errors';
+import { HttpEvent, HttpResponse, HttpResult, toHttpResult } from './event-adapter';
+
+/**
+ * `meta` object of both envelopes
+ */
+export interface ResponseMeta {
+  /** ISO 8601 time the response was built */
+  timestamp: string;
+  /** Service version (SERVICE_VERSION) */
+  version?: string;
+  /** Lambda request id */
+  request_id?: string;
+}
+
+export interface ResponseOptions {
+  /** Lambda context; supplies `meta.request_id` */
+  context?: Pick<Context, 'awsRequestId'>;
+  /** Service version for `meta.version` (default: SERVICE_VERSION env var) */
+  version?: string;
+  /** Extra response headers */
+  headers?: Record<string, string>;
+}
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+function buildMeta(options?: ResponseOptions): ResponseMeta {
+  const version = options?.version ?? process.env.SERVICE_VERSION;
+  const requestId = options?.context?.awsRequestId;
+  return {
+    timestamp: new Date().toISOString(),
+    ...(version ? { version } : {}),
+    ...(requestId ? { request_id: requestId } : {}),
+  };
+}
+
+/**
+ * Build a success response.
+ *
+ * @example
+ * ```typescript
+ * return ok({ id: 'job_123', status: 'queued' }, { statusCode: 202, context });
+ * // body: { success: true, data: { id: 'job_123', status: 'queued' }, meta: { timestamp, version, request_id } }
+ * ```
+ */
+export function ok<T>(data: T, options?: ResponseOptions & { statusCode?: number }): HttpResponse {
+  return {
+    statusCode: options?.statusCode ?? 200,
+    headers: { ...JSON_HEADERS, ...options?.headers },
+    body: JSON.stringify({ success: true, data, meta: buildMeta(options) }),
+  };
+}
+
+/**
+ * Build an error response from an `ApiError`.
+ *
+ * Anything else becomes a 500 `INTERNAL_ERROR` without exposing its message.
+ *
+ * @example
+ * ```typescript
+ * return fail(new NotFoundError(`Job ${id} not found`), { context });
+ * ```
+ */
+export function fail(error: unknown, options?: ResponseOptions): HttpResponse {
+  const apiError: ApiError = isApiError(error) ? error : new InternalError();
+  return {
+    statusCode: apiError.statusCode,
+    headers: { ...JSON_HEADERS, ...apiError.headers, ...options?.headers },
+    body: JSON.stringify({
+      success: false,
+      error: apiError.toErrorBody(),
+      meta: buildMeta(options),
+    }),
+  };
+}
+
+export type HttpHandler = (event: HttpEvent, context: Context) => Promise<HttpResponse>;
+
+/**
+ * Wrap a handler so thrown errors become standard error envelopes.
+ *
+ * `ApiError`s map to their status code; anything else is logged and returned
+ * as a 500 `INTERNAL_ERROR`. The result shape matches the event source.
+ *
+ * @example
+ * ```typescript
+ * export const handler = withErrorHandling(async (event, context) => {
+ *   const auth = await authorizeRequest(event, '/aviary/shared/api-key');
+ *   if (!auth.authorized) {
+ *     throw new AuthenticationError();
+ *   }
+ *   return ok(await getJob(event), { context });
+ * });
+ * ```
+ */
+export function withErrorHandling(
+  handler: HttpHandler,
+  options?: Pick<ResponseOptions, 'version'>
+): (event: HttpEvent, context: Context) => Promise<HttpResult> {
+  return async (event, context) => {
+    try {
+      return toHttpResult(event, await handler(event, context));
+    } catch (error) {
+      if (!isApiError(error) || error.statusCode >= 500) {
+        console.error('Request failed:', error);
+      }
+      return toHttpResult(event, fail(error, { context, version: options?.version }));
+    }
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Route Table and Router
+ *
+ * Replaces the hand-written `normalizeApiPath` → `isValidApiVersion` →
+ * `if (path === ...)` ladder in each service. Routes are registered by method
+ * and path template; the router strips the service prefix, enforces the API
+ * version policy, extracts path params, runs per-route auth and validation, and
+ * answers unmatched requests with standard 404/405 error envelopes
+ * (docs/api-standards.md).
+ * Route handlers may throw `ApiError`s (see ./errors) to return other errors.
+ *
+ * @packageDocumentation
+ */
+
+import { Context } from 'aws-lambda';
+import { AuthResult, authorizeRequest } from './authorize';
+import { ClientRegistry } from './client-registry';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  MethodNotAllowedError,
+  NotFoundError,
+  VersionRemovedError,
+  isApiError,
+} from './errors';
+import {
+  HttpEvent,
+  HttpResponse,
+  HttpResult,
+  getMethod,
+  getNormalizedPath,
+  getQueryParameters,
+  getRawBody,
+  toHttpResult,
+} from './event-adapter';
+import { IdempotencyOptions, executeIdempotently } from './idempotency';
+import { ApiKeySource } from './key-sources';
+import { matchPathTemplate } from './path-normalization';
+import { hasScope } from './scopes';
+import { fail } from './responses';
+import { SecretCache } from './secret-cache';
+import { RequestSchemas, ValidatedRequest, validateRequest } from './validation';
+import { VersionPolicy } from './versioning';
+
+/**
+ * Request passed to route handlers
+ */
+export interface RouteRequest {
+  /** Original Lambda event */
+  event: HttpEvent;
+  /** Lambda context, when the router was invoked with one */
+  context?: Context;
+  /** Upper-case HTTP method */
+  method: string;
+  /** Path with the service prefix stripped */
+  path: string;
+  /** Path template of the matched route */
+  route: string;
+  /** Path parameters from `{param}` placeholders */
+  params: Record<string, string>;
+  /** Decoded query string parameters */
+  query: Record<string, string>;
+  /** Authorization result (routes with auth only) */
+  auth?: AuthResult;
+  /** Validated and coerced body, query and params (routes with `validate` only) */
+  validated?: ValidatedRequest;
+}
+
+export type RouteHandler = (request: RouteRequest) => Promise<HttpResponse> | HttpResponse;
+
+/**
+ * Per-route auth requirement: `false` for public routes, `true` for any valid
+ * key, or a scope the key must hold
+ */
+export type RouteAuth = boolean | { scope: string };
+
+export interface RouteOptions {
+  /** Auth requirement (default: router's `requireAuth`) */
+  auth?: RouteAuth;
+  /** Schemas for the body, query string and path params; failures return 400 `VALIDATION_ERROR` */
+  validate?: RequestSchemas;
+  /** Replay the stored response for repeated idempotency keys (see ./idempotency) */
+  idempotency?: IdempotencyOptions;
+}
+
+/**
+ * Settings passed to `authorizeRequest` for routes that require auth
+ */
+export interface RouterAuthOptions {
+  secretPath: string;
+  sharedKeyName?: string;
+  clientRegistry?: ClientRegistry;
+  keySources?: readonly ApiKeySource[];
+  cache?: SecretCache;
+}
+
+export interface RouterOptions {
+  /** Service prefix stripped by `normalizeApiPath` (e.g., 'condor') */
+  servicePrefix: string;
+  /**
+   * API version versioned paths must use (default: 'v1'), or a `VersionPolicy`
+   * for side-by-side, deprecated and removed versions. Non-versioned paths are allowed.
+   */
+  version?: string | VersionPolicy;
+  /** Auth settings; required if any route needs auth */
+  auth?: RouterAuthOptions;
+  /** Whether routes require auth unless they opt out (default: true when `auth` is set) */
+  requireAuth?: boolean;
+}
+
+interface RouteDefinition {
+  method: string;
+  template: string;
+  handler: RouteHandler;
+  auth: RouteAuth;
+  validate?: RequestSchemas;
+  idempotency?: IdempotencyOptions;
+  /** Number of `{param}` segments; fewer means more specific */
+  paramCount: number;
+}
+
+/**
+ * Method and path router for Lambda HTTP handlers.
+ *
+ * When several templates match a path, the one with the fewest `{param}`
+ * segments wins (`/v1/jobs/stats` before `/v1/jobs/{id}`), then registration order.
+ *
+ * @example
+ * ```typescript
+ * const router = new Router({
+ *   servicePrefix: 'nightingale',
+ *   auth: { secretPath: '/aviary/shared/api-key' },
+ * })
+ *   .get('/health', healthCheck, { auth: false })
+ *   .post('/v1/mix/jobs', ({ validated }) => createJob(validated?.body), {
+ *     auth: { scope: 'mix:write' },
+ *     validate: { body: createJobSchema },
+ *   })
+ *   .get('/v1/mix/jobs/{id}', ({ params }) => getJob(params.id));
+ *
+ * export const handler = router.handler();
+ * ```
+ */
+export class Router {
+  private readonly routes: RouteDefinition[] = [];
+  private readonly servicePrefix: string;
+  private readonly versionPolicy: VersionPolicy;
+  private readonly authOptions?: RouterAuthOptions;
+  private readonly requireAuth: boolean;
+
+  constructor(options: RouterOptions) {
+    const { servicePrefix, version = 'v1', auth, requireAuth = !!auth } = options;
+    this.servicePrefix = servicePrefix;
+    this.versionPolicy =
+      typeof version === 'string' ? new VersionPolicy({ supported: [version] }) : version;
+    this.authOptions = auth;
+    this.requireAuth = requireAuth;
+  }
+
+  /**
+   * Register a handler for a method and path template
+   */
+  on(method: string, template: string, handler: RouteHandler, options?: RouteOptions): this {
+    const auth = options?.auth ?? this.requireAuth;
+    if (auth && !this.authOptions) {
+      throw new Error(`Route ${method} ${template} requires auth but the router has no auth settings`);
+    }
+
+    this.routes.push({
+      method: method.toUpperCase(),
+      template,
+      handler,
+      auth,
+      validate: options?.validate,
+      idempotency: options?.idempotency,
+      paramCount: (template.match(/\{[^}]+\}/g) || []).length,
+    });
+    return this;
+  }
+
+  get(template: string, handler: RouteHandler, options?: RouteOptions): this {
+    return this.on('GET', template, handler, options);
+  }
+
+  post(template: string, handler: RouteHandler, options?: RouteOptions): this {
+    return this.on('POST', template, handler, options);
+  }
+
+  put(template: string, handler: RouteHandler, options?: RouteOptions): this {
+    return this.on('PUT', template, handler, options);
+  }
+
+  patch(template: string, handler: RouteHandler, options?: RouteOptions): this {
+    return this.on('PATCH', template, handler, options);
+  }
+
+  delete(template: string, handler: RouteHandler, options?: RouteOptions): this {
+    return this.on('DELETE', template, handler, options);
+  }
+
+  /**
+   * Route an event and return the result shape for its source
+   */
+  async handle(event: HttpEvent, context?: Context): Promise<HttpResult> {
+    const path = getNormalizedPath(event, this.servicePrefix);
+    const versionCheck = this.versionPolicy.check(path);
+
+    let response: HttpResponse;
+    if (versionCheck.status === 'removed') {
+      response = fail(
+        new VersionRemovedError(`API version ${versionCheck.version} has been removed`),
+        { context }
+      );
+    } else if (versionCheck.status === 'unknown') {
+      response = fail(new NotFoundError(`API version ${versionCheck.version} is not supported`), {
+        context,
+      });
+    } else {
+      response = await this.dispatch(event, path, context);
+    }
+
+    // Deprecated versions announce their sunset on every response, errors included
+    return toHttpResult(event, {
+      ...response,
+      headers: { ...response.headers, ...versionCheck.headers },
+    });
+  }
+
+  /**
+   * Lambda handler bound to this router
+   */
+  handler(): (event: HttpEvent, context?: Context) => Promise<HttpResult> {
+    return (event, context) => this.handle(event, context);
+  }
+
+  private async dispatch(event: HttpEvent, path: string, context?: Context): Promise<HttpResponse> {
+    const method = getMethod(event);
+
+    const matches = this.routes
+      .map((route) => ({ route, params: matchPathTemplate(route.template, path) }))
+      .filter((match): match is { route: RouteDefinition; params: Record<string, string> } =>
+        match.params !== null
+      )
+      .sort((a, b) => a.route.paramCount - b.route.paramCount);
+
+    if (matches.length === 0) {
+      return fail(new NotFoundError(`No route for ${method} ${path}`), { context });
+    }
+
+    const match = matches.find(({ route }) => route.method === method);
+    if (!match) {
+      const allowed = [...new Set(matches.map(({ route }) => route.method))];
+      return fail(new MethodNotAllowedError(allowed, `Method ${method} is not allowed for ${path}`), {
+        context,
+      });
+    }
+
+    const { route, params } = match;
+    let auth: AuthResult | undefined;
+
+    if (route.auth && this.authOptions) {
+      const { secretPath, ...authOptions } = this.authOptions;
+      auth = await authorizeRequest(event, secretPath, {
+        ...authOptions,
+        serviceName: this.servicePrefix,
+      });
+
+      if (!auth.authorized) {
+        return fail(new AuthenticationError(), { context });
+      }
+      if (typeof route.auth === 'object' && !hasScope(auth, route.auth.scope)) {
+        return fail(new AuthorizationError(`Missing required scope ${route.auth.scope}`), {
+          context,
+        });
+      }
+    }
+
+    try {
+      const query = getQueryParameters(event);
+      // Validated after auth so unauthenticated callers learn nothing about the schema
+      const validated = route.validate
+        ? validateRequest({ body: getRawBody(event), query, params }, route.validate)
+        : undefined;
+
+      const run = async () =>
+        route.handler({
+          event,
+          context,
+          method,
+          path,
+          route: route.template,
+          params,
+          query,
+          auth,
+          validated,
+        });
+
+      return await (route.idempotency
+        ? executeIdempotently(event, route.idempotency, run, { route: path, auth })
+        : run());
+    } catch (error) {
+      if (!isApiError(error) || error.statusCode >= 500) {
+        console.error(`Unhandled error in ${method} ${route.template}:`, error);
+      }
+      return fail(error, { context });
+    }
+  }
+}
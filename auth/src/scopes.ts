@@ -0,0 +1,95 @@
+/**
+ * Scope Checks
+ *
+ * Scopes are `<resource>:<action>` strings such as `tts:write` or `mix:read`.
+ * A granted `mix:*` covers every `mix:` action and `*` covers everything.
+ * The shared platform key is not scoped and passes every check.
+ *
+ * @packageDocumentation
+ */
+
+import type { AuthResult } from './authorize';
+import { matchPathTemplate } from './path-normalization';
+
+/**
+ * Scope required for requests matching a method and path template
+ */
+export interface RouteScopeRule {
+  /** HTTP method, or '*' for any method */
+  method: string;
+  /** Normalized path template (e.g., '/v1/mix/jobs/{id}') */
+  path: string;
+  /** Scope the caller must hold */
+  scope: string;
+}
+
+/**
+ * Whether a list of granted scopes covers a required scope
+ */
+export function scopeSatisfies(grantedScopes: string[], requiredScope: string): boolean {
+  const [resource] = requiredScope.split(':');
+  return grantedScopes.some(
+    (granted) =>
+      granted === '*' || granted === requiredScope || granted === `${resource}:*`
+  );
+}
+
+/**
+ * Whether an authorized request holds a scope.
+ *
+ * @example
+ * hasScope(authResult, 'tts:write')
+ */
+export function hasScope(result: AuthResult, requiredScope: string): boolean {
+  if (!result.authorized) {
+    return false;
+  }
+  if (result.method === 'shared-key') {
+    return true;
+  }
+  return scopeSatisfies(result.scopes ?? [], requiredScope);
+}
+
+/**
+ * Check the scope required for a normalized route.
+ *
+ * The first rule matching the method and path decides the required scope.
+ * Routes without a rule require no scope.
+ *
+ * @param result - Result from `authorizeRequest`
+ * @param method - HTTP method of the request
+ * @param normalizedPath - Path after `normalizeApiPath`
+ * @param rules - Route scope rules
+ * @returns Whether the request is allowed, and the scope that was required
+ *
+ * @example
+ * ```typescript
+ * const rules = [
+ *   { method: 'POST', path: '/v1/tts/jobs', scope: 'tts:write' },
+ *   { method: 'GET', path: '/v1/tts/jobs/{id}', scope: 'tts:read' },
+ * ];
+ * const { allowed, requiredScope } = checkRouteScope(auth, 'POST', '/v1/tts/jobs', rules);
+ * if (!allowed) {
+ *   return fail(new AuthorizationError(`Missing scope ${requiredScope}`), { context });
+ * }
+ * ```
+ */
+export function checkRouteScope(
+  result: AuthResult,
+  method: string,
+  normalizedPath: string,
+  rules: RouteScopeRule[]
+): { allowed: boolean; requiredScope: string | null } {
+  const upperMethod = method.toUpperCase();
+  const rule = rules.find(
+    (r) =>
+      (r.method === '*' || r.method.toUpperCase() === upperMethod) &&
+      matchPathTemplate(r.path, normalizedPath) !== null
+  );
+
+  if (!rule) {
+    return { allowed: result.authorized, requiredScope: null };
+  }
+
+  return { allowed: hasScope(result, rule.scope), requiredScope: rule.scope };
+}
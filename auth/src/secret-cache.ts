@@ -0,0 +1,170 @@
+/**
+ * In-process Secret Cache
+ *
+ * Keeps Secrets Manager values in Lambda memory between invocations so that
+ * authorizing a request does not cost a Secrets Manager round trip every time.
+ * Concurrent lookups for the same secret share a single fetch, and callers can
+ * force a refresh (e.g. when a presented key does not match a possibly-rotated
+ * secret).
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Fetches the raw SecretString for a secret path (null when the secret has no string value)
+ */
+export type SecretFetcher = (secretPath: string) => Promise<string | null>;
+
+/**
+ * Secret cache configuration
+ */
+export interface SecretCacheOptions {
+  /** How long a fetched secret is served from memory (default: 5 minutes) */
+  ttlMs?: number;
+  /**
+   * Minimum time between forced refreshes of the same secret (default: 1 second).
+   * Stops a stream of invalid keys from turning into a stream of Secrets Manager calls.
+   */
+  minRefreshIntervalMs?: number;
+  /** How long a null value (no such secret or item) is served from memory (default: `ttlMs`) */
+  missTtlMs?: number;
+  /**
+   * Most entries kept; beyond it the least recently used entry is evicted
+   * (default: unbounded). Set it when keys come from callers, not config.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Cache counters, readable by tests and metrics
+ */
+export interface SecretCacheStats {
+  /** Lookups served from memory */
+  hits: number;
+  /** Lookups that required a Secrets Manager fetch */
+  misses: number;
+  /** Misses caused by a forced refresh of a cached entry */
+  refreshes: number;
+}
+
+interface CacheEntry {
+  value: string | null;
+  fetchedAt: number;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MIN_REFRESH_INTERVAL_MS = 1000;
+
+/**
+ * TTL cache for secret values with single-flight fetches.
+ *
+ * @example
+ * ```typescript
+ * const cache = new SecretCache(fetchSecretString, { ttlMs: 60_000 });
+ * const raw = await cache.get('/aviary/shared/api-key');
+ * const fresh = await cache.get('/aviary/shared/api-key', { forceRefresh: true });
+ * ```
+ */
+export class SecretCache {
+  private readonly ttlMs: number;
+  private readonly minRefreshIntervalMs: number;
+  private readonly missTtlMs: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inflight = new Map<string, Promise<string | null>>();
+  private stats: SecretCacheStats = { hits: 0, misses: 0, refreshes: 0 };
+
+  constructor(
+    private readonly fetcher: SecretFetcher,
+    options: SecretCacheOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.minRefreshIntervalMs =
+      options.minRefreshIntervalMs ?? DEFAULT_MIN_REFRESH_INTERVAL_MS;
+    this.missTtlMs = options.missTtlMs ?? this.ttlMs;
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  /**
+   * Get the raw SecretString for a secret path.
+   *
+   * Serves from memory while the entry is within its TTL (`missTtlMs` for null
+   * values). With `forceRefresh`,
+   * re-fetches unless the entry was fetched within `minRefreshIntervalMs`.
+   * Fetch failures are not cached and reject every caller waiting on that fetch.
+   */
+  async get(
+    secretPath: string,
+    options?: { forceRefresh?: boolean }
+  ): Promise<string | null> {
+    const entry = this.entries.get(secretPath);
+    const now = Date.now();
+
+    if (entry) {
+      const age = now - entry.fetchedAt;
+      const expired = age >= (entry.value === null ? this.missTtlMs : this.ttlMs);
+      const refreshAllowed = age >= this.minRefreshIntervalMs;
+
+      if (!expired && !(options?.forceRefresh && refreshAllowed)) {
+        this.stats.hits++;
+        // Re-insert so Map order tracks recency for eviction
+        this.entries.delete(secretPath);
+        this.entries.set(secretPath, entry);
+        return entry.value;
+      }
+
+      if (!expired) {
+        this.stats.refreshes++;
+      }
+    }
+
+    const pending = this.inflight.get(secretPath);
+    if (pending) {
+      // Another caller is already fetching this secret - share its result
+      this.stats.hits++;
+      return pending;
+    }
+
+    this.stats.misses++;
+    const fetch = this.fetcher(secretPath)
+      .then((value) => {
+        this.entries.delete(secretPath);
+        this.entries.set(secretPath, { value, fetchedAt: Date.now() });
+        if (this.entries.size > this.maxEntries) {
+          this.entries.delete(this.entries.keys().next().value!);
+        }
+        return value;
+      })
+      .finally(() => {
+        this.inflight.delete(secretPath);
+      });
+
+    this.inflight.set(secretPath, fetch);
+    return fetch;
+  }
+
+  /**
+   * Drop a single cached secret, or every cached secret when no path is given
+   */
+  invalidate(secretPath?: string): void {
+    if (secretPath === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(secretPath);
+    }
+  }
+
+  /**
+   * Snapshot of the hit/miss counters
+   */
+  getStats(): SecretCacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Reset the hit/miss counters (cached entries are kept)
+   */
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0, refreshes: 0 };
+  }
+}
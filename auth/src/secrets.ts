@@ -0,0 +1,114 @@
+/**
+ * Secrets Manager Access
+ *
+ * Reads JSON secrets through the process-wide secret cache.
+ *
+ * @packageDocumentation
+ */
+
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { SecretCache } from './secret-cache';
+
+const secretsClient = new SecretsManagerClient({});
+
+/**
+ * Fetch the raw SecretString from AWS Secrets Manager (uncached)
+ */
+async function fetchSecretString(secretPath: string): Promise<string | null> {
+  const response = await secretsClient.send(
+    new GetSecretValueCommand({ SecretId: secretPath })
+  );
+  return response.SecretString ?? null;
+}
+
+/**
+ * Process-wide secret cache used by default.
+ *
+ * TTL can be tuned per deployment with `AVIARY_SECRET_CACHE_TTL_MS`.
+ */
+export const secretCache = new SecretCache(fetchSecretString, {
+  ttlMs: Number(process.env.AVIARY_SECRET_CACHE_TTL_MS) || undefined,
+});
+
+/**
+ * Retrieve a single field of a JSON secret (served from the secret cache).
+ *
+ * Returns the field as stored, which may be a nested object or array.
+ */
+export async function getSecretField(
+  secretPath: string,
+  key: string,
+  options?: {
+    cache?: SecretCache;
+    forceRefresh?: boolean;
+  }
+): Promise<unknown> {
+  const { cache = secretCache, forceRefresh = false } = options || {};
+
+  try {
+    const secretString = await cache.get(secretPath, { forceRefresh });
+
+    if (!secretString) return null;
+
+    const secrets = JSON.parse(secretString);
+    return secrets[key] ?? null;
+  } catch (error) {
+    console.error(`Failed to retrieve secret ${secretPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Retrieve secret value from AWS Secrets Manager (served from the secret cache)
+ */
+export async function getSecretValue(
+  secretPath: string,
+  key: string,
+  options?: {
+    cache?: SecretCache;
+    forceRefresh?: boolean;
+  }
+): Promise<string | null> {
+  const value = await getSecretField(secretPath, key, options);
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * Retrieve a secret stored either as plain text or as a string field of a JSON secret.
+ *
+ * Signing secrets are often created as a bare SecretString (e.g. by
+ * `scripts/setup-localstack.sh`); JSON secrets are read from `key`.
+ */
+export async function getSecretText(
+  secretPath: string,
+  key: string,
+  options?: {
+    cache?: SecretCache;
+    forceRefresh?: boolean;
+  }
+): Promise<string | null> {
+  const { cache = secretCache, forceRefresh = false } = options || {};
+
+  let secretString: string | null;
+  try {
+    secretString = await cache.get(secretPath, { forceRefresh });
+  } catch (error) {
+    console.error(`Failed to retrieve secret ${secretPath}:`, error);
+    return null;
+  }
+
+  if (!secretString) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(secretString);
+  } catch {
+    return secretString;
+  }
+
+  if (parsed && typeof parsed === 'object') {
+    const value = (parsed as Record<string, unknown>)[key];
+    return typeof value === 'string' && value ? value : null;
+  }
+  return secretString;
+}
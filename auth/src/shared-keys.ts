@@ -0,0 +1,170 @@
+/**
+ * Shared API Key Sets
+ *
+ * During a rotation the shared key secret holds the new key plus one or more
+ * previous keys, each with an optional expiry. Callers keep working on the old
+ * key until it expires, and `AuthResult.keySlot` shows which key they used.
+ *
+ * Accepted secret formats for the shared key entry:
+ *
+ * ```json
+ * { "AVIARY_SHARED_API_KEY": "current-key" }
+ *
+ * { "AVIARY_SHARED_API_KEY": {
+ *     "current": "new-key",
+ *     "previous": [{ "key": "old-key", "expiresAt": "2026-01-31T00:00:00Z" }]
+ * } }
+ * ```
+ *
+ * The key set may also be stored as a JSON-encoded string, which is what the
+ * Secrets Manager console key/value editor produces. Any entry may carry a
+ * salted digest (`{ "hash": { "algorithm", "salt", "digest" } }`, see
+ * `hashApiKey`) instead of the plaintext key.
+ *
+ * @packageDocumentation
+ */
+
+import { KeyHash, constantTimeEqual, isKeyHash, verifyKeyHash } from './key-hashing';
+
+/**
+ * A single accepted key
+ */
+export interface SharedKeyEntry {
+  /** Plaintext key value */
+  key?: string;
+  /** Salted digest of the key, stored in place of `key` */
+  hash?: KeyHash;
+  /** ISO 8601 timestamp after which the key is no longer accepted */
+  expiresAt?: string;
+}
+
+/**
+ * Which key in the set matched: the current key or a previous key by index
+ */
+export type KeySlot = 'current' | `previous-${number}`;
+
+/**
+ * Current key plus keys still valid from earlier rotations
+ */
+export interface SharedKeySet {
+  current: SharedKeyEntry | null;
+  previous: SharedKeyEntry[];
+}
+
+function toEntry(value: unknown): SharedKeyEntry | null {
+  if (typeof value === 'string') {
+    return value ? { key: value } : null;
+  }
+  if (value && typeof value === 'object') {
+    const { key, hash, expiresAt } = value as Record<string, unknown>;
+    let entry: SharedKeyEntry | null = null;
+
+    if (isKeyHash(hash)) {
+      entry = { hash };
+    } else if (typeof key === 'string' && key) {
+      entry = { key };
+    }
+
+    if (entry && typeof expiresAt === 'string') {
+      entry.expiresAt = expiresAt;
+    }
+    return entry;
+  }
+  return null;
+}
+
+/**
+ * Parse the shared key entry of a secret into a key set.
+ *
+ * @param raw - Value stored under the shared key name (string or key set object)
+ * @returns Key set, or null if the value holds no usable key
+ *
+ * @example
+ * parseSharedKeySet('abc')
+ * // => { current: { key: 'abc' }, previous: [] }
+ */
+export function parseSharedKeySet(raw: unknown): SharedKeySet | null {
+  let value = raw;
+
+  if (typeof value === 'string' && value.trim().startsWith('{')) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // Not a JSON key set - treat as a plain key
+    }
+  }
+
+  if (typeof value === 'string') {
+    const current = toEntry(value);
+    return current ? { current, previous: [] } : null;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { current, previous } = value as Record<string, unknown>;
+  const keySet: SharedKeySet = {
+    current: toEntry(current),
+    previous: (Array.isArray(previous) ? previous : [])
+      .map(toEntry)
+      .filter((entry): entry is SharedKeyEntry => entry !== null),
+  };
+
+  return keySet.current || keySet.previous.length > 0 ? keySet : null;
+}
+
+/**
+ * Whether a key entry is past its expiry.
+ *
+ * Unparseable expiry timestamps count as expired so a typo never extends a key's life.
+ */
+export function isKeyExpired(entry: SharedKeyEntry, now: Date = new Date()): boolean {
+  if (!entry.expiresAt) {
+    return false;
+  }
+  const expiresAt = Date.parse(entry.expiresAt);
+  return Number.isNaN(expiresAt) || expiresAt <= now.getTime();
+}
+
+/**
+ * Check a presented key against one entry in constant time
+ */
+export function entryMatchesKey(entry: SharedKeyEntry, presentedKey: string): boolean {
+  if (entry.hash) {
+    return verifyKeyHash(presentedKey, entry.hash);
+  }
+  return entry.key !== undefined && constantTimeEqual(presentedKey, entry.key);
+}
+
+/**
+ * Find which unexpired key in the set matches the presented key.
+ *
+ * Every entry is compared, so the time taken does not depend on which slot matched.
+ *
+ * @param presentedKey - Key from the request (already trimmed)
+ * @param keySet - Parsed key set
+ * @param now - Reference time for expiry checks
+ * @returns Matching slot, or null if no unexpired key matches
+ */
+export function matchSharedKey(
+  presentedKey: string,
+  keySet: SharedKeySet,
+  now: Date = new Date()
+): KeySlot | null {
+  const slots: Array<[KeySlot, SharedKeyEntry | null]> = [
+    ['current', keySet.current],
+    ...keySet.previous.map(
+      (entry, i): [KeySlot, SharedKeyEntry] => [`previous-${i}`, entry]
+    ),
+  ];
+
+  let matched: KeySlot | null = null;
+  for (const [slot, entry] of slots) {
+    if (entry && entryMatchesKey(entry, presentedKey) && !isKeyExpired(entry, now)) {
+      matched = matched ?? slot;
+    }
+  }
+
+  return matched;
+}
@@ -0,0 +1,193 @@
+/**
+ * HMAC Request Signing
+ *
+ * Implements the `X-Signature` / `X-Timestamp` scheme from
+ * docs/api-standards.md: the signature is the hex HMAC-SHA256 of
+ * `<timestamp>.<raw body>`, keyed by a secret from Secrets Manager, with the
+ * timestamp in Unix seconds. Receivers enforce a clock-skew window and reject
+ * replays through a nonce store.
+ *
+ * @packageDocumentation
+ */
+
+import { createHmac } from 'crypto';
+import type { AuthResult } from './authorize';
+import { SecretCache } from './secret-cache';
+import { getSecretText, secretCache } from './secrets';
+import { constantTimeEqual } from './key-hashing';
+import { InMemoryNonceStore, NonceStore } from './nonce-store';
+import { HttpEvent, getRawBody } from './event-adapter';
+import { getHeader } from './headers';
+
+export const SIGNATURE_HEADER = 'X-Signature';
+export const TIMESTAMP_HEADER = 'X-Timestamp';
+
+/**
+ * Headers to attach to a signed outbound request
+ */
+export interface SignatureHeaders {
+  'X-Signature': string;
+  'X-Timestamp': string;
+}
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+// Used when the caller does not pass a nonce store; covers replays to the same instance
+const defaultNonceStore = new InMemoryNonceStore();
+
+/**
+ * Compute the hex HMAC-SHA256 signature for a timestamp and raw body
+ */
+export function computeSignature(
+  secret: string,
+  timestamp: string,
+  body: string | Buffer
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest('hex');
+}
+
+/**
+ * Sign an outbound request body.
+ *
+ * @param body - Raw request body exactly as it will be sent
+ * @param secret - Shared signing secret
+ * @param options - Timestamp override (defaults to now)
+ * @returns `X-Signature` and `X-Timestamp` headers
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify(payload);
+ * await fetch(url, {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json', ...signRequest(body, secret) },
+ *   body,
+ * });
+ * ```
+ */
+export function signRequest(
+  body: string | Buffer,
+  secret: string,
+  options?: { timestamp?: Date }
+): SignatureHeaders {
+  const timestamp = String(Math.floor((options?.timestamp ?? new Date()).getTime() / 1000));
+  return {
+    'X-Signature': computeSignature(secret, timestamp, body),
+    'X-Timestamp': timestamp,
+  };
+}
+
+/**
+ * Outcome of checking a request's signature headers
+ */
+export type SignatureCheck = 'valid' | 'missing' | 'stale' | 'invalid' | 'secret_unavailable';
+
+export interface SignatureCheckOptions {
+  /** Field holding the secret when the secret is JSON (default: AVIARY_SIGNING_SECRET) */
+  signingKeyName?: string;
+  /** Allowed clock skew in seconds (default: 300) */
+  toleranceSeconds?: number;
+  cache?: SecretCache;
+}
+
+/**
+ * Check `X-Timestamp` against the clock-skew window and `X-Signature` against
+ * the raw body (in constant time). Does not record the signature, so replays
+ * are not detected.
+ *
+ * @param event - API Gateway (v1 or v2) or ALB event
+ * @param secretPath - AWS Secrets Manager path for the signing secret
+ */
+export async function checkSignature(
+  event: HttpEvent,
+  secretPath: string,
+  options?: SignatureCheckOptions
+): Promise<SignatureCheck> {
+  const {
+    signingKeyName = 'AVIARY_SIGNING_SECRET',
+    toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+    cache = secretCache,
+  } = options || {};
+
+  const signature = getHeader(event, SIGNATURE_HEADER)?.trim().toLowerCase();
+  const timestamp = getHeader(event, TIMESTAMP_HEADER)?.trim();
+
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+    return 'missing';
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (Math.abs(nowSeconds - Number(timestamp)) > toleranceSeconds) {
+    return 'stale';
+  }
+
+  const body = getRawBody(event);
+
+  let secret = await getSecretText(secretPath, signingKeyName, { cache });
+  if (!secret) {
+    return 'secret_unavailable';
+  }
+
+  if (constantTimeEqual(signature, computeSignature(secret, timestamp, body))) {
+    return 'valid';
+  }
+
+  // Cached secret may be stale after a rotation - re-read it once
+  secret = await getSecretText(secretPath, signingKeyName, { cache, forceRefresh: true });
+  return !!secret && constantTimeEqual(signature, computeSignature(secret, timestamp, body))
+    ? 'valid'
+    : 'invalid';
+}
+
+/**
+ * Verifies an HMAC-signed request (API Gateway REST or HTTP API, or ALB).
+ *
+ * Checks that `X-Timestamp` is within the clock-skew window, that
+ * `X-Signature` matches the raw body (compared in constant time), and that the
+ * signature has not been seen before.
+ *
+ * @param event - API Gateway (v1 or v2) or ALB event
+ * @param secretPath - AWS Secrets Manager path for the signing secret
+ * @param options - Secret key name, skew window, nonce store and secret cache
+ * @returns Authorization result with `method: 'hmac'` on success
+ *
+ * @example
+ * ```typescript
+ * const result = await verifySignedRequest(event, '/aviary/condor/webhook-secret', {
+ *   nonceStore: new DynamoDBNonceStore('condor-nonces-prod'),
+ * });
+ * if (!result.authorized) {
+ *   return fail(new AuthenticationError('Invalid signature'), { context });
+ * }
+ * ```
+ */
+export async function verifySignedRequest(
+  event: HttpEvent,
+  secretPath: string,
+  options?: SignatureCheckOptions & { nonceStore?: NonceStore }
+): Promise<AuthResult> {
+  const { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, nonceStore = defaultNonceStore } =
+    options || {};
+  const denied: AuthResult = { authorized: false, method: 'none' };
+
+  try {
+    if ((await checkSignature(event, secretPath, options)) !== 'valid') {
+      return denied;
+    }
+
+    const signature = getHeader(event, SIGNATURE_HEADER)!.trim().toLowerCase();
+    const timestamp = getHeader(event, TIMESTAMP_HEADER)!.trim();
+    const expiresAt = new Date((Number(timestamp) + toleranceSeconds) * 1000);
+    if (!(await nonceStore.claim(signature, expiresAt))) {
+      console.warn(`Rejected replayed signed request (timestamp ${timestamp})`);
+      return denied;
+    }
+  } catch (error) {
+    console.error('Signature verification failed:', error);
+    return denied;
+  }
+
+  return { authorized: true, method: 'hmac' };
+}
@@ -0,0 +1,404 @@
+/**
+ * Request Validation
+ *
+ * Validates request bodies, query strings and path params against a schema
+ * per route and reports failures as `VALIDATION_ERROR` with per-field details
+ * (docs/api-standards.md). Two schema styles are accepted:
+ * - JSON Schema (the common subset: type, properties, required,
+ *   additionalProperties, items, enum, const, string/number/array bounds,
+ *   pattern, format)
+ * - TypeScript-first schemas exposing `safeParse()` (zod, valibot adapters, ...)
+ *
+ * Query and path values arrive as strings and are coerced to the schema's
+ * number, integer, boolean or array type before validation.
+ *
+ * @packageDocumentation
+ */
+
+import { ValidationError } from './errors';
+import { HttpEvent, getQueryParameters, getRawBody } from './event-adapter';
+
+type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Supported JSON Schema subset
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'email' | 'uri' | 'date-time' | 'uuid';
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+/**
+ * Issue reported by a `safeParse` schema (zod-compatible)
+ */
+export interface SchemaIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: { issues: SchemaIssue[] } };
+
+/**
+ * TypeScript-first schema (e.g. a zod schema)
+ */
+export interface SafeParseSchema<T = unknown> {
+  safeParse(input: unknown): SafeParseResult<T>;
+}
+
+export type Schema<T = unknown> = JsonSchema | SafeParseSchema<T>;
+
+export type FieldLocation = 'body' | 'query' | 'path';
+
+/**
+ * One invalid field
+ */
+export interface FieldError {
+  location: FieldLocation;
+  /** Dotted field path (e.g. 'items[0].name'); '' for the whole body */
+  field: string;
+  reason: string;
+}
+
+/**
+ * `error.details` of a `VALIDATION_ERROR`: the first invalid field in the
+ * documented `{ field, reason }` shape, and every invalid field in `fields`
+ */
+export interface ValidationErrorDetails extends FieldError {
+  fields: FieldError[];
+}
+
+function validationError(message: string, fields: FieldError[]): ValidationError {
+  const details: ValidationErrorDetails = { ...fields[0], fields };
+  return new ValidationError(message, { details });
+}
+
+/**
+ * Schemas for each part of a request
+ */
+export interface RequestSchemas {
+  body?: Schema;
+  query?: Schema;
+  params?: Schema;
+}
+
+/**
+ * Validated (and coerced) request parts; only parts with a schema are set
+ */
+export interface ValidatedRequest {
+  body?: unknown;
+  query?: Record<string, unknown>;
+  params?: Record<string, unknown>;
+}
+
+const FORMATS: Record<NonNullable<JsonSchema['format']>, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\/\/\S+$/i,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+function isSafeParseSchema(schema: Schema): schema is SafeParseSchema {
+  return typeof (schema as SafeParseSchema).safeParse === 'function';
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+  return parent ? `${parent}.${key}` : key;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Convert a string from a query or path param to the schema's scalar type
+ */
+function coerce(value: unknown, schema: JsonSchema): unknown {
+  if (typeof value !== 'string' || !schema.type) {
+    return value;
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes('string')) {
+    return value;
+  }
+  if ((types.includes('number') || types.includes('integer')) && value.trim() !== '') {
+    const number = Number(value);
+    if (!Number.isNaN(number)) {
+      return number;
+    }
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (types.includes('array')) {
+    return value === '' ? [] : value.split(',').map((item) => (schema.items ? coerce(item, schema.items) : item));
+  }
+  return value;
+}
+
+function validateJson(
+  schema: JsonSchema,
+  input: unknown,
+  path: string,
+  coerceStrings: boolean,
+  errors: { field: string; reason: string }[]
+): unknown {
+  const value = coerceStrings ? coerce(input, schema) : input;
+
+  // Properties are only visited when present, so this is a missing body
+  if (value === undefined) {
+    errors.push({ field: path, reason: 'Required' });
+    return value;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ field: path, reason: `Expected ${types.join(' or ')}` });
+      return value;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ field: path, reason: `Must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      field: path,
+      reason: `Must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field: path, reason: `Must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field: path, reason: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ field: path, reason: `Must match pattern ${schema.pattern}` });
+    }
+    if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      errors.push({ field: path, reason: `Invalid ${schema.format} format` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field: path, reason: `Must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field: path, reason: `Must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field: path, reason: `Must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field: path, reason: `Must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      return value.map((item, index) =>
+        validateJson(itemSchema, item, joinPath(path, index), coerceStrings, errors)
+      );
+    }
+    return value;
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.required || schema.additionalProperties === false)) {
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...record };
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push({ field: joinPath(path, key), reason: 'Required' });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        result[key] = validateJson(propertySchema, record[key], joinPath(path, key), coerceStrings, errors);
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(record)) {
+        if (!schema.properties || !(key in schema.properties)) {
+          errors.push({ field: joinPath(path, key), reason: 'Unknown field' });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Validate a value against a schema.
+ *
+ * @param schema - JSON Schema or `safeParse` schema
+ * @param value - Value to validate
+ * @param options - `coerce` converts strings to the schema's scalar types (JSON Schema only)
+ * @returns The parsed value (coerced or transformed) and any field errors
+ *
+ * @example
+ * validateSchema({ type: 'object', required: ['email'] }, {})
+ * // => { value: {}, errors: [{ field: 'email', reason: 'Required' }] }
+ */
+export function validateSchema<T = unknown>(
+  schema: Schema<T>,
+  value: unknown,
+  options?: { coerce?: boolean }
+): { value: T; errors: { field: string; reason: string }[] } {
+  if (isSafeParseSchema(schema)) {
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return { value: result.data, errors: [] };
+    }
+    return {
+      value: value as T,
+      errors: result.error.issues.map((issue) => ({
+        field: issue.path.reduce<string>((path, key) => joinPath(path, key), ''),
+        reason: issue.message,
+      })),
+    };
+  }
+
+  const errors: { field: string; reason: string }[] = [];
+  const parsed = validateJson(schema, value, '', options?.coerce ?? false, errors);
+  return { value: parsed as T, errors };
+}
+
+/**
+ * Parse a raw JSON request body.
+ *
+ * An empty body parses as undefined so `required` checks report it.
+ *
+ * @throws ValidationError when the body is not valid JSON
+ */
+export function parseJsonBody(rawBody: string | Buffer | null | undefined): unknown {
+  const text = typeof rawBody === 'string' ? rawBody : rawBody?.toString('utf-8') || '';
+  if (!text.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw validationError('Request body must be valid JSON', [
+      { location: 'body', field: '', reason: 'Malformed JSON' },
+    ]);
+  }
+}
+
+/**
+ * Validate request parts against their schemas.
+ *
+ * @param input - Raw body, query parameters and path params
+ * @param schemas - Schema per part; parts without a schema are not validated
+ * @returns Validated values for parts that have a schema
+ * @throws ValidationError whose `details` (`ValidationErrorDetails`) list every invalid field
+ *
+ * @example
+ * ```typescript
+ * const { body, query } = validateRequest(
+ *   { body: event.body, query: { limit: '10' } },
+ *   { body: createJobSchema, query: { type: 'object', properties: { limit: { type: 'integer', maximum: 100 } } } }
+ * );
+ * // query.limit === 10
+ * ```
+ */
+export function validateRequest(
+  input: { body?: string | Buffer | null; query?: Record<string, string>; params?: Record<string, string> },
+  schemas: RequestSchemas
+): ValidatedRequest {
+  const result: ValidatedRequest = {};
+  const fields: FieldError[] = [];
+
+  const check = (location: FieldLocation, schema: Schema, value: unknown, coerceStrings: boolean) => {
+    const { value: parsed, errors } = validateSchema(schema, value, { coerce: coerceStrings });
+    fields.push(...errors.map((error) => ({ location, ...error })));
+    return parsed;
+  };
+
+  if (schemas.body) {
+    result.body = check('body', schemas.body, parseJsonBody(input.body), false);
+  }
+  if (schemas.query) {
+    result.query = check('query', schemas.query, input.query || {}, true) as Record<string, unknown>;
+  }
+  if (schemas.params) {
+    result.params = check('path', schemas.params, input.params || {}, true) as Record<string, unknown>;
+  }
+
+  if (fields.length > 0) {
+    throw validationError('Invalid input provided', fields);
+  }
+
+  return result;
+}
+
+/**
+ * Validate an HTTP event's body, query string and path params.
+ *
+ * @param event - API Gateway (v1 or v2) or ALB event
+ * @param schemas - Schema per part
+ * @param params - Path params (default: `event.pathParameters`)
+ * @throws ValidationError when any part is invalid
+ */
+export function validateEvent(
+  event: HttpEvent,
+  schemas: RequestSchemas,
+  params?: Record<string, string>
+): ValidatedRequest {
+  const pathParameters =
+    params ??
+    ('pathParameters' in event && event.pathParameters
+      ? (Object.fromEntries(
+          Object.entries(event.pathParameters).filter(([, value]) => value !== undefined)
+        ) as Record<string, string>)
+      : {});
+
+  return validateRequest(
+    { body: getRawBody(event), query: getQueryParameters(event), params: pathParameters },
+    schemas
+  );
+}
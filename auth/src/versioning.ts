@@ -0,0 +1,153 @@
+/**
+ * API Version Policy
+ *
+ * Lists which API versions a service serves while versions run side by side:
+ * - supported: served normally
+ * - deprecated: still served, with `Deprecation` / `Sunset` / `Link` headers (RFC 8594, RFC 9745)
+ * - removed: answered with 410 Gone
+ *
+ * Any other version is unknown and treated as not found.
+ *
+ * @packageDocumentation
+ */
+
+import { extractApiVersion } from './path-normalization';
+
+/**
+ * Deprecation details for a version that is still served
+ */
+export interface DeprecatedVersion {
+  /** ISO 8601 date after which the version will be removed */
+  sunset: string;
+  /** ISO 8601 date the version was deprecated (default: reported as `true`) */
+  deprecatedAt?: string;
+  /** Migration guide URL, sent as `Link: <url>; rel="deprecation"` */
+  link?: string;
+}
+
+export interface VersionPolicyConfig {
+  /** Versions served without deprecation headers (e.g., ['v2']) */
+  supported: string[];
+  /** Versions still served with deprecation headers, keyed by version */
+  deprecated?: Record<string, DeprecatedVersion>;
+  /** Versions that now return 410 Gone */
+  removed?: string[];
+}
+
+export type VersionStatus = 'unversioned' | 'supported' | 'deprecated' | 'removed' | 'unknown';
+
+/**
+ * Outcome of checking a path against a version policy
+ */
+export interface VersionCheck {
+  /** Version from the path, or null for non-versioned paths (e.g., /health) */
+  version: string | null;
+  status: VersionStatus;
+  /** Headers to add to the response (deprecated versions only) */
+  headers: Record<string, string>;
+}
+
+/**
+ * Headers announcing a deprecated API version.
+ *
+ * @example
+ * deprecationHeaders({ sunset: '2026-06-30T00:00:00Z', link: 'https://docs.example.com/v2-migration' })
+ * // => {
+ * //   Deprecation: 'true',
+ * //   Sunset: 'Tue, 30 Jun 2026 00:00:00 GMT',
+ * //   Link: '<https://docs.example.com/v2-migration>; rel="deprecation"',
+ * // }
+ */
+export function deprecationHeaders(deprecation: DeprecatedVersion): Record<string, string> {
+  const headers: Record<string, string> = {
+    Deprecation: deprecation.deprecatedAt
+      ? `@${Math.floor(new Date(deprecation.deprecatedAt).getTime() / 1000)}`
+      : 'true',
+    Sunset: new Date(deprecation.sunset).toUTCString(),
+  };
+
+  if (deprecation.link) {
+    headers.Link = `<${deprecation.link}>; rel="deprecation"`;
+  }
+
+  return headers;
+}
+
+/**
+ * Supported, deprecated and removed API versions for a service.
+ *
+ * @example
+ * ```typescript
+ * const policy = new VersionPolicy({
+ *   supported: ['v2'],
+ *   deprecated: { v1: { sunset: '2026-06-30T00:00:00Z', link: 'https://docs.example.com/v2-migration' } },
+ *   removed: ['v0'],
+ * });
+ *
+ * policy.check('/v1/mix/jobs');
+ * // => { version: 'v1', status: 'deprecated', headers: { Deprecation: 'true', Sunset: '...', Link: '...' } }
+ * ```
+ */
+export class VersionPolicy {
+  private readonly supported: Set<string>;
+  private readonly deprecated: Record<string, DeprecatedVersion>;
+  private readonly removed: Set<string>;
+
+  constructor(config: VersionPolicyConfig) {
+    this.supported = new Set(config.supported);
+    this.deprecated = config.deprecated || {};
+    this.removed = new Set(config.removed || []);
+
+    for (const version of Object.keys(this.deprecated)) {
+      if (this.supported.has(version) || this.removed.has(version)) {
+        throw new Error(`API version ${version} is listed as deprecated and as supported or removed`);
+      }
+    }
+    for (const version of this.removed) {
+      if (this.supported.has(version)) {
+        throw new Error(`API version ${version} is listed as both supported and removed`);
+      }
+    }
+  }
+
+  /**
+   * Status of a version string ('v1', 'v2', ...)
+   */
+  getStatus(version: string): Exclude<VersionStatus, 'unversioned'> {
+    if (this.supported.has(version)) {
+      return 'supported';
+    }
+    if (version in this.deprecated) {
+      return 'deprecated';
+    }
+    if (this.removed.has(version)) {
+      return 'removed';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Whether requests for this version are still served (supported or deprecated)
+   */
+  isServed(version: string): boolean {
+    const status = this.getStatus(version);
+    return status === 'supported' || status === 'deprecated';
+  }
+
+  /**
+   * Check a normalized path against the policy
+   */
+  check(normalizedPath: string): VersionCheck {
+    const version = extractApiVersion(normalizedPath);
+    if (version === null) {
+      return { version, status: 'unversioned', headers: {} };
+    }
+
+    const status = this.getStatus(version);
+    return {
+      version,
+      status,
+      headers: status === 'deprecated' ? deprecationHeaders(this.deprecated[version]) : {},
+    };
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Webhook Delivery History
+ *
+ * Every delivery attempt made by the webhook worker is recorded with the
+ * envelope and receiver URL, so deliveries can be audited and replayed
+ * (docs/api-standards.md: "provide a replay mechanism").
+ *
+ * - `InMemoryWebhookHistory`: per Lambda instance; fine for tests
+ * - `DynamoDBWebhookHistory`: table created by the `WebhookDelivery` construct
+ *
+ * @packageDocumentation
+ */
+
+import { DynamoDBClient, PutItemCommand, QueryCommand } from '@aws-sdk/client-dynamodb';
+import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
+import { WebhookDeliveryRecord, WebhookEnvelope } from './webhooks';
+
+/**
+ * State of an event after an attempt:
+ * - delivered: receiver answered 2xx
+ * - retrying: failed, another attempt is scheduled
+ * - failed: failed and out of attempts (parked in the DLQ)
+ */
+export type WebhookOutcome = 'delivered' | 'retrying' | 'failed';
+
+/**
+ * One recorded delivery attempt
+ */
+export interface WebhookHistoryEntry extends WebhookDeliveryRecord {
+  outcome: WebhookOutcome;
+  envelope: WebhookEnvelope;
+}
+
+/**
+ * Storage for delivery history
+ */
+export interface WebhookHistory {
+  record(entry: WebhookHistoryEntry): Promise<void>;
+
+  /**
+   * Most recent attempt for an event, or null if it was never attempted
+   */
+  latest(eventId: string): Promise<WebhookHistoryEntry | null>;
+
+  /**
+   * Latest attempt of each event that ran out of attempts within [from, to]
+   * and has not been attempted since (e.g. delivered by a replay)
+   */
+  failedBetween(from: Date, to: Date): Promise<WebhookHistoryEntry[]>;
+}
+
+/**
+ * Keep the most recent attempt per event
+ */
+function latestPerEvent(entries: WebhookHistoryEntry[]): WebhookHistoryEntry[] {
+  const byEvent = new Map<string, WebhookHistoryEntry>();
+  for (const entry of entries) {
+    const current = byEvent.get(entry.event_id);
+    if (!current || current.delivered_at < entry.delivered_at) {
+      byEvent.set(entry.event_id, entry);
+    }
+  }
+  return [...byEvent.values()];
+}
+
+/**
+ * Delivery history held in process memory
+ */
+export class InMemoryWebhookHistory implements WebhookHistory {
+  readonly entries: WebhookHistoryEntry[] = [];
+
+  async record(entry: WebhookHistoryEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async latest(eventId: string): Promise<WebhookHistoryEntry | null> {
+    return latestPerEvent(this.entries.filter((entry) => entry.event_id === eventId))[0] ?? null;
+  }
+
+  async failedBetween(from: Date, to: Date): Promise<WebhookHistoryEntry[]> {
+    const fromIso = from.toISOString();
+    const toIso = to.toISOString();
+    return latestPerEvent(this.entries).filter(
+      (entry) =>
+        entry.outcome === 'failed' && entry.delivered_at >= fromIso && entry.delivered_at <= toIso
+    );
+  }
+}
+
+/**
+ * Delivery history backed by a DynamoDB table.
+ *
+ * Table layout: partition key `event_id`, sort key `delivered_at` (both
+ * strings), TTL attribute `expires_at`, and a GSI `outcome-delivered_at`
+ * (partition key `outcome`, sort key `delivered_at`) for replaying failures.
+ * Envelopes are stored as JSON in `envelope`; DynamoDB's 400 KB item limit
+ * caps the inline blob size of queued webhooks.
+ */
+export class DynamoDBWebhookHistory implements WebhookHistory {
+  static readonly OUTCOME_INDEX = 'outcome-delivered_at';
+
+  private readonly client: Pick<DynamoDBClient, 'send'>;
+  private readonly retentionDays: number;
+
+  constructor(
+    private readonly tableName: string,
+    options?: {
+      client?: Pick<DynamoDBClient, 'send'>;
+      /** How long attempts are kept (default: 30 days) */
+      retentionDays?: number;
+    }
+  ) {
+    this.client = options?.client ?? new DynamoDBClient({});
+    this.retentionDays = options?.retentionDays ?? 30;
+  }
+
+  async record(entry: WebhookHistoryEntry): Promise<void> {
+    const expiresAt = Math.floor(Date.now() / 1000) + this.retentionDays * 86_400;
+
+    await this.client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: marshall(
+          { ...entry, envelope: JSON.stringify(entry.envelope), expires_at: expiresAt },
+          { removeUndefinedValues: true }
+        ),
+      })
+    );
+  }
+
+  async latest(eventId: string): Promise<WebhookHistoryEntry | null> {
+    const response = await this.client.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'event_id = :eventId',
+        ExpressionAttributeValues: { ':eventId': { S: eventId } },
+        ScanIndexForward: false,
+        Limit: 1,
+      })
+    );
+
+    const item = response.Items?.[0];
+    return item ? toEntry(item) : null;
+  }
+
+  async failedBetween(from: Date, to: Date): Promise<WebhookHistoryEntry[]> {
+    const entries: WebhookHistoryEntry[] = [];
+    let exclusiveStartKey: QueryCommand['input']['ExclusiveStartKey'];
+
+    do {
+      const response = await this.client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: DynamoDBWebhookHistory.OUTCOME_INDEX,
+          KeyConditionExpression: 'outcome = :failed AND delivered_at BETWEEN :from AND :to',
+          ExpressionAttributeValues: {
+            ':failed': { S: 'failed' },
+            ':from': { S: from.toISOString() },
+            ':to': { S: to.toISOString() },
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        })
+      );
+
+      entries.push(...(response.Items || []).map(toEntry));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    // Drop events attempted again since their last failure in the window
+    const failed: WebhookHistoryEntry[] = [];
+    for (const entry of latestPerEvent(entries)) {
+      const latest = await this.latest(entry.event_id);
+      if (!latest || latest.delivered_at === entry.delivered_at) {
+        failed.push(entry);
+      }
+    }
+    return failed;
+  }
+}
+
+function toEntry(item: Parameters<typeof unmarshall>[0]): WebhookHistoryEntry {
+  const { expires_at: _expiresAt, envelope, ...rest } = unmarshall(item);
+  return { ...rest, envelope: JSON.parse(envelope) } as WebhookHistoryEntry;
+}
@@ -0,0 +1,271 @@
+/**
+ * Webhook Retry Queue
+ *
+ * Delivers webhooks from an SQS queue and retries non-2xx responses with
+ * exponential backoff (docs/api-standards.md "Reliability and retries"):
+ * - `enqueueWebhook` queues an envelope for delivery
+ * - the worker delivers each message; on failure it hides the message for the
+ *   backoff delay (ChangeMessageVisibility) and reports it as a batch item
+ *   failure so SQS hands it back later
+ * - SQS's receive count is the attempt number; once it passes the queue's
+ *   `maxReceiveCount`, SQS parks the message in the dead-letter queue
+ *
+ * Every attempt is written to the delivery history (see ./webhook-history).
+ * The `WebhookDelivery` construct in cdk-patterns wires the queue, DLQ,
+ * history table and worker together.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  ChangeMessageVisibilityCommand,
+  SendMessageCommand,
+  SQSClient,
+} from '@aws-sdk/client-sqs';
+import { SQSBatchResponse, SQSEvent, SQSRecord } from 'aws-lambda';
+import { DynamoDBWebhookHistory, WebhookHistory, WebhookOutcome } from './webhook-history';
+import { WebhookDeliveryRecord, WebhookEnvelope, deliverWebhook } from './webhooks';
+
+/**
+ * SQS message body for one webhook delivery
+ */
+export interface WebhookDeliveryJob {
+  envelope: WebhookEnvelope;
+  url: string;
+  /** Attempts made before this message was queued (set by replays; default: 0) */
+  previous_attempts?: number;
+}
+
+/** SQS's message size limit in bytes */
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+/**
+ * Serialize a job for SQS. An inline blob that pushes the message past the
+ * size limit is dropped with `blob_truncated: true`, as `buildWebhookEnvelope`
+ * does past `maxBlobBytes`, so receivers fetch `artifacts.resource_url` instead.
+ *
+ * @throws Error when the job is too large and the blob cannot be dropped
+ */
+function serializeJob(job: WebhookDeliveryJob): string {
+  const body = JSON.stringify(job);
+  const size = Buffer.byteLength(body);
+  if (size <= MAX_MESSAGE_BYTES) {
+    return body;
+  }
+
+  const { envelope } = job;
+  if (envelope.blob && envelope.artifacts.resource_url) {
+    const trimmed = JSON.stringify({
+      ...job,
+      envelope: { ...envelope, blob: null, blob_encoding: 'utf-8', blob_truncated: true },
+    });
+    if (Buffer.byteLength(trimmed) <= MAX_MESSAGE_BYTES) {
+      console.warn(
+        `Dropped the inline blob of webhook ${envelope.event_id}: the message (${size} bytes) exceeds the SQS limit`
+      );
+      return trimmed;
+    }
+  }
+
+  throw new Error(
+    `Webhook ${envelope.event_id} (${size} bytes) exceeds the ${MAX_MESSAGE_BYTES} byte SQS message limit; ` +
+      'lower maxBlobBytes or set artifacts.resource_url'
+  );
+}
+
+/**
+ * Exponential backoff with jitter.
+ *
+ * The delay doubles per attempt from `baseDelaySeconds` up to
+ * `maxDelaySeconds`; the result is drawn from the upper half of that window so
+ * retries spread out without collapsing to zero.
+ *
+ * @param attempt - Attempt that just failed (1-based)
+ */
+export function backoffDelaySeconds(
+  attempt: number,
+  options?: { baseDelaySeconds?: number; maxDelaySeconds?: number; random?: () => number }
+): number {
+  const { baseDelaySeconds = 30, maxDelaySeconds = 3600, random = Math.random } = options || {};
+  const ceiling = Math.min(maxDelaySeconds, baseDelaySeconds * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Queue a webhook for delivery.
+ *
+ * @throws Error when the envelope does not fit in an SQS message (see `serializeJob`)
+ *
+ * @example
+ * ```typescript
+ * await enqueueWebhook(process.env.WEBHOOK_QUEUE_URL!, envelope, job.callback_url);
+ * ```
+ */
+export async function enqueueWebhook(
+  queueUrl: string,
+  envelope: WebhookEnvelope,
+  url: string,
+  options?: { previousAttempts?: number; client?: Pick<SQSClient, 'send'> }
+): Promise<void> {
+  const client = options?.client ?? new SQSClient({});
+  const job: WebhookDeliveryJob = {
+    envelope,
+    url,
+    ...(options?.previousAttempts ? { previous_attempts: options.previousAttempts } : {}),
+  };
+
+  await client.send(
+    new SendMessageCommand({
+      QueueUrl: queueUrl,
+      MessageBody: serializeJob(job),
+    })
+  );
+}
+
+export interface WebhookWorkerOptions {
+  /** URL of the queue the worker consumes (for ChangeMessageVisibility) */
+  queueUrl: string;
+  /** Secrets Manager path of the signing secret */
+  secretPath: string;
+  history: WebhookHistory;
+  /** Must match the queue's redrive `maxReceiveCount` (default: 8) */
+  maxAttempts?: number;
+  baseDelaySeconds?: number;
+  maxDelaySeconds?: number;
+  /** Per-delivery timeout in ms (default: 10000) */
+  timeoutMs?: number;
+  client?: Pick<SQSClient, 'send'>;
+}
+
+/**
+ * Create the SQS handler that delivers queued webhooks.
+ *
+ * The event source mapping must enable `reportBatchItemFailures`.
+ */
+export function createWebhookWorker(options: WebhookWorkerOptions) {
+  const {
+    queueUrl,
+    secretPath,
+    history,
+    maxAttempts = 8,
+    baseDelaySeconds,
+    maxDelaySeconds,
+    timeoutMs,
+  } = options;
+  const client = options.client ?? new SQSClient({});
+
+  const processRecord = async (record: SQSRecord): Promise<boolean> => {
+    let job: WebhookDeliveryJob;
+    try {
+      job = JSON.parse(record.body);
+    } catch {
+      // Retrying cannot fix a malformed message; let it go to the DLQ
+      console.error(`Malformed webhook job in message ${record.messageId}`);
+      return false;
+    }
+
+    const receiveCount = Number(record.attributes.ApproximateReceiveCount) || 1;
+    const attempt = (job.previous_attempts ?? 0) + receiveCount;
+    let delivery: WebhookDeliveryRecord;
+    try {
+      delivery = await deliverWebhook(job.envelope, {
+        url: job.url,
+        secretPath,
+        attempt,
+        timeoutMs,
+      });
+    } catch (error) {
+      // Nothing was sent (e.g. missing signing secret, non-https URL); still
+      // record the attempt so an exhausted event is in the history for replay
+      delivery = {
+        event_id: job.envelope.event_id,
+        event_type: job.envelope.event_type,
+        url: job.url,
+        attempt,
+        delivered_at: new Date().toISOString(),
+        status_code: null,
+        success: false,
+        duration_ms: 0,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const exhausted = receiveCount >= maxAttempts;
+    const outcome: WebhookOutcome = delivery.success ? 'delivered' : exhausted ? 'failed' : 'retrying';
+    await history.record({ ...delivery, outcome, envelope: job.envelope });
+
+    if (delivery.success) {
+      return true;
+    }
+
+    if (exhausted) {
+      console.error(`Webhook ${job.envelope.event_id} failed after ${attempt} attempts; moving to DLQ`);
+    }
+
+    // Last attempt: visible again immediately so SQS moves it to the DLQ
+    const delay = exhausted
+      ? 0
+      : backoffDelaySeconds(receiveCount, { baseDelaySeconds, maxDelaySeconds });
+    await client.send(
+      new ChangeMessageVisibilityCommand({
+        QueueUrl: queueUrl,
+        ReceiptHandle: record.receiptHandle,
+        VisibilityTimeout: delay,
+      })
+    );
+    return false;
+  };
+
+  return async (event: SQSEvent): Promise<SQSBatchResponse> => {
+    const batchItemFailures: SQSBatchResponse['batchItemFailures'] = [];
+
+    for (const record of event.Records) {
+      let delivered = false;
+      try {
+        delivered = await processRecord(record);
+      } catch (error) {
+        console.error(`Webhook job ${record.messageId} failed:`, error);
+      }
+      if (!delivered) {
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    }
+
+    return { batchItemFailures };
+  };
+}
+
+/**
+ * Build worker options from the Lambda environment.
+ *
+ * - `WEBHOOK_QUEUE_URL`, `WEBHOOK_HISTORY_TABLE`, `WEBHOOK_SECRET_PATH` (required)
+ * - `WEBHOOK_MAX_ATTEMPTS`, `WEBHOOK_BASE_DELAY_SECONDS`, `WEBHOOK_MAX_DELAY_SECONDS` (optional)
+ */
+export function webhookWorkerOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): WebhookWorkerOptions {
+  const { WEBHOOK_QUEUE_URL, WEBHOOK_HISTORY_TABLE, WEBHOOK_SECRET_PATH } = env;
+  if (!WEBHOOK_QUEUE_URL || !WEBHOOK_HISTORY_TABLE || !WEBHOOK_SECRET_PATH) {
+    throw new Error('WEBHOOK_QUEUE_URL, WEBHOOK_HISTORY_TABLE and WEBHOOK_SECRET_PATH must be set');
+  }
+
+  return {
+    queueUrl: WEBHOOK_QUEUE_URL,
+    secretPath: WEBHOOK_SECRET_PATH,
+    history: new DynamoDBWebhookHistory(WEBHOOK_HISTORY_TABLE),
+    maxAttempts: Number(env.WEBHOOK_MAX_ATTEMPTS) || undefined,
+    baseDelaySeconds: Number(env.WEBHOOK_BASE_DELAY_SECONDS) || undefined,
+    maxDelaySeconds: Number(env.WEBHOOK_MAX_DELAY_SECONDS) || undefined,
+  };
+}
+
+let envWorker: ReturnType<typeof createWebhookWorker> | undefined;
+
+/**
+ * Ready-made worker configured from environment variables (see
+ * `webhookWorkerOptionsFromEnv`). Deployed by the `WebhookDelivery` construct.
+ */
+export async function webhookWorkerHandler(event: SQSEvent): Promise<SQSBatchResponse> {
+  envWorker ??= createWebhookWorker(webhookWorkerOptionsFromEnv());
+  return envWorker(event);
+}
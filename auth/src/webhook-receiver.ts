@@ -0,0 +1,204 @@
+/**
+ * Webhook Verification
+ *
+ * Receiver side of ./webhooks: checks the `X-Signature` / `X-Timestamp`
+ * headers, parses the envelope, verifies and decodes the blob, and rejects
+ * replays by `event_id` (docs/api-standards.md: "Receivers must be idempotent
+ * using `event_id`").
+ *
+ * @packageDocumentation
+ */
+
+import { gunzipSync } from 'zlib';
+import { HttpEvent, getRawBody } from './event-adapter';
+import { InMemoryNonceStore, NonceStore } from './nonce-store';
+import { SecretCache } from './secret-cache';
+import { checkSignature } from './signature';
+import { WebhookEnvelope, blobChecksum } from './webhooks';
+
+/**
+ * Why a webhook was rejected
+ */
+export type WebhookRejectionReason =
+  | 'missing_signature'
+  | 'stale_timestamp'
+  | 'invalid_signature'
+  | 'secret_unavailable'
+  | 'malformed_payload'
+  | 'blob_size_mismatch'
+  | 'blob_checksum_mismatch'
+  | 'replayed_event';
+
+export type WebhookVerification =
+  | {
+      valid: true;
+      envelope: WebhookEnvelope;
+      /** Decoded blob text, or null if absent or truncated (fetch `artifacts.resource_url`) */
+      blob: string | null;
+      /**
+       * Forget the event id so a retry of this event is accepted again. Call it
+       * when processing fails, before answering with an error status.
+       */
+      release: () => Promise<void>;
+    }
+  | {
+      valid: false;
+      reason: WebhookRejectionReason;
+      message: string;
+      /** Set when the envelope parsed (e.g. for logging replays) */
+      eventId?: string;
+    };
+
+export interface VerifyWebhookOptions {
+  /** Secrets Manager path of the sender's signing secret */
+  secretPath: string;
+  /** Field holding the secret when the secret is JSON (default: AVIARY_SIGNING_SECRET) */
+  signingKeyName?: string;
+  /** Allowed clock skew in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Store of accepted event ids (default: per-instance memory) */
+  replayStore?: NonceStore;
+  /** How long accepted event ids are remembered (default: 7 days) */
+  replayWindowSeconds?: number;
+  cache?: SecretCache;
+}
+
+// Used when the caller does not pass a replay store; covers replays to the same instance
+const defaultReplayStore = new InMemoryNonceStore();
+
+const SIGNATURE_REJECTIONS = {
+  missing: ['missing_signature', 'Missing or malformed X-Signature / X-Timestamp headers'],
+  stale: ['stale_timestamp', 'X-Timestamp is outside the allowed clock skew'],
+  invalid: ['invalid_signature', 'X-Signature does not match the body'],
+  secret_unavailable: ['secret_unavailable', 'Signing secret is unavailable'],
+} as const;
+
+const REQUIRED_STRING_FIELDS = [
+  'event_type',
+  'version',
+  'event_id',
+  'subject_id',
+  'status',
+  'source',
+  'occurred_at',
+] as const;
+
+function reject(
+  reason: WebhookRejectionReason,
+  message: string,
+  eventId?: string
+): WebhookVerification {
+  return { valid: false, reason, message, ...(eventId ? { eventId } : {}) };
+}
+
+function parseEnvelope(body: string): WebhookEnvelope | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return 'Body is not valid JSON';
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return 'Body is not a webhook envelope';
+  }
+
+  const envelope = parsed as Record<string, unknown>;
+  for (const field of REQUIRED_STRING_FIELDS) {
+    if (typeof envelope[field] !== 'string' || !envelope[field]) {
+      return `Envelope field ${field} is missing`;
+    }
+  }
+  if (typeof envelope.attempt !== 'number') {
+    return 'Envelope field attempt is missing';
+  }
+
+  return parsed as WebhookEnvelope;
+}
+
+/**
+ * Verify an incoming webhook.
+ *
+ * The event id is only recorded once every other check passes, so a webhook
+ * rejected for a bad blob can still be redelivered. Recording it here also
+ * stops a concurrent duplicate from being processed twice, so if processing
+ * then fails, call `release()` before answering with an error status;
+ * otherwise the sender's retry is rejected as `replayed_event` and the event
+ * is lost. Answer `replayed_event` with a 2xx so the sender stops retrying an
+ * event already processed.
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyWebhook(event, {
+ *   secretPath: '/aviary/condor/webhook-secret',
+ *   replayStore: new DynamoDBNonceStore('your-service-nonces-prod'),
+ * });
+ * if (!result.valid) {
+ *   if (result.reason === 'replayed_event') {
+ *     return ok({ duplicate: true });
+ *   }
+ *   throw new AuthenticationError(result.message);
+ * }
+ * try {
+ *   await handleJobCompleted(result.envelope, result.blob && JSON.parse(result.blob));
+ * } catch (error) {
+ *   await result.release(); // let the sender's retry through
+ *   throw error;
+ * }
+ * ```
+ */
+export async function verifyWebhook(
+  event: HttpEvent,
+  options: VerifyWebhookOptions
+): Promise<WebhookVerification> {
+  const {
+    secretPath,
+    replayStore = defaultReplayStore,
+    replayWindowSeconds = 7 * 86_400,
+  } = options;
+
+  const signatureCheck = await checkSignature(event, secretPath, options);
+  if (signatureCheck !== 'valid') {
+    const [reason, message] = SIGNATURE_REJECTIONS[signatureCheck];
+    return reject(reason, message);
+  }
+
+  const envelope = parseEnvelope(getRawBody(event).toString());
+  if (typeof envelope === 'string') {
+    return reject('malformed_payload', envelope);
+  }
+  const eventId = envelope.event_id;
+
+  let blob: string | null = null;
+  if (typeof envelope.blob === 'string' && !envelope.blob_truncated) {
+    let raw: Buffer;
+    try {
+      raw =
+        envelope.blob_encoding === 'gzip+base64'
+          ? gunzipSync(Buffer.from(envelope.blob, 'base64'))
+          : Buffer.from(envelope.blob, 'utf-8');
+    } catch {
+      return reject('malformed_payload', 'Blob is not valid gzip+base64', eventId);
+    }
+
+    if (envelope.blob_size !== undefined && raw.length !== envelope.blob_size) {
+      return reject(
+        'blob_size_mismatch',
+        `Blob is ${raw.length} bytes, envelope says ${envelope.blob_size}`,
+        eventId
+      );
+    }
+    if (envelope.blob_checksum !== undefined && blobChecksum(raw) !== envelope.blob_checksum) {
+      return reject('blob_checksum_mismatch', 'Blob does not match blob_checksum', eventId);
+    }
+    blob = raw.toString('utf-8');
+  }
+
+  const nonce = `webhook:${eventId}`;
+  const expiresAt = new Date(Date.now() + replayWindowSeconds * 1000);
+  if (!(await replayStore.claim(nonce, expiresAt))) {
+    return reject('replayed_event', `Event ${eventId} was already accepted`, eventId);
+  }
+
+  return { valid: true, envelope, blob, release: () => replayStore.release(nonce) };
+}
@@ -0,0 +1,166 @@
+/**
+ * Webhook Replay
+ *
+ * Admin route that re-queues webhooks from the delivery history: a single
+ * `event_id`, or every event that ran out of attempts in a time window (e.g.
+ * after a receiver outage). Replayed deliveries continue the event's attempt
+ * count.
+ *
+ * Replays are an admin action: the route only accepts per-client keys that
+ * carry the scope. The shared key, which passes every scope check, is rejected.
+ *
+ * @packageDocumentation
+ */
+
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { Context } from 'aws-lambda';
+import { clientRegistryFromEnv } from './client-registry';
+import { AuthorizationError, NotFoundError, ValidationError } from './errors';
+import { HttpEvent, HttpResult } from './event-adapter';
+import { ok } from './responses';
+import { Router, RouterAuthOptions } from './router';
+import { DynamoDBWebhookHistory, WebhookHistory, WebhookHistoryEntry } from './webhook-history';
+import { enqueueWebhook } from './webhook-queue';
+
+export interface WebhookReplayOptions {
+  /** Service prefix of the admin API (e.g., 'condor') */
+  servicePrefix: string;
+  /** Auth settings; needs a `clientRegistry`, since shared-key callers are rejected */
+  auth: RouterAuthOptions;
+  history: WebhookHistory;
+  /** Delivery queue to re-queue into */
+  queueUrl: string;
+  /** Scope required to replay (default: 'webhooks:admin') */
+  scope?: string;
+  /** Route path (default: '/admin/webhooks/replay') */
+  path?: string;
+  /** Longest time window accepted, in hours (default: 168) */
+  maxWindowHours?: number;
+  client?: Pick<SQSClient, 'send'>;
+}
+
+const replaySchema = {
+  type: 'object',
+  properties: {
+    event_id: { type: 'string', minLength: 1 },
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+  },
+  additionalProperties: false,
+} as const;
+
+interface ReplayRequest {
+  event_id?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Create the replay router.
+ *
+ * `POST {path}` with `{ "event_id": "..." }` or `{ "from": "<ISO 8601>", "to": "<ISO 8601>" }`
+ * answers 202 with `{ replayed: [event ids], count }`.
+ *
+ * @example
+ * ```typescript
+ * export const handler = createWebhookReplayRouter({
+ *   servicePrefix: 'condor',
+ *   auth: { secretPath: '/aviary/shared/api-key', clientRegistry },
+ *   history: new DynamoDBWebhookHistory(process.env.WEBHOOK_HISTORY_TABLE!),
+ *   queueUrl: process.env.WEBHOOK_QUEUE_URL!,
+ * }).handler();
+ * ```
+ */
+export function createWebhookReplayRouter(options: WebhookReplayOptions): Router {
+  const {
+    servicePrefix,
+    auth,
+    history,
+    queueUrl,
+    scope = 'webhooks:admin',
+    path = '/admin/webhooks/replay',
+    maxWindowHours = 168,
+  } = options;
+  const client = options.client ?? new SQSClient({});
+
+  const replay = async (entries: WebhookHistoryEntry[]) => {
+    for (const entry of entries) {
+      await enqueueWebhook(queueUrl, entry.envelope, entry.url, {
+        previousAttempts: entry.attempt,
+        client,
+      });
+    }
+    return entries.map((entry) => entry.event_id);
+  };
+
+  return new Router({ servicePrefix, auth }).post(
+    path,
+    async ({ auth: caller, validated, context }) => {
+      if (caller?.method !== 'client-key') {
+        throw new AuthorizationError(`Replaying webhooks requires a client key with the ${scope} scope`);
+      }
+
+      const { event_id: eventId, from, to } = validated?.body as ReplayRequest;
+
+      if (eventId) {
+        if (from || to) {
+          throw new ValidationError('Pass either event_id or from/to, not both');
+        }
+        const latest = await history.latest(eventId);
+        if (!latest) {
+          throw new NotFoundError(`No deliveries recorded for event ${eventId}`);
+        }
+        const replayed = await replay([latest]);
+        return ok({ replayed, count: replayed.length }, { statusCode: 202, context });
+      }
+
+      if (!from || !to) {
+        throw new ValidationError('Pass event_id, or both from and to');
+      }
+      const fromDate = new Date(from);
+      const toDate = new Date(to);
+      if (fromDate > toDate) {
+        throw new ValidationError('from must not be after to');
+      }
+      if (toDate.getTime() - fromDate.getTime() > maxWindowHours * 3_600_000) {
+        throw new ValidationError(`Time window must not exceed ${maxWindowHours} hours`);
+      }
+
+      const replayed = await replay(await history.failedBetween(fromDate, toDate));
+      return ok({ replayed, count: replayed.length }, { statusCode: 202, context });
+    },
+    { auth: { scope }, validate: { body: replaySchema } }
+  );
+}
+
+let envHandler: ((event: HttpEvent, context?: Context) => Promise<HttpResult>) | undefined;
+
+/**
+ * Ready-made replay handler configured from environment variables:
+ * `SERVICE_NAME`, `AVIARY_SHARED_KEY_SECRET_PATH`, `WEBHOOK_HISTORY_TABLE`,
+ * `WEBHOOK_QUEUE_URL`, and `AVIARY_CLIENT_REGISTRY_SECRET_PATH` or
+ * `AVIARY_CLIENT_REGISTRY_TABLE` for the admin client keys. Deployed by the
+ * `WebhookDelivery` construct.
+ */
+export async function webhookReplayHandler(event: HttpEvent, context?: Context): Promise<HttpResult> {
+  if (!envHandler) {
+    const { SERVICE_NAME, AVIARY_SHARED_KEY_SECRET_PATH, WEBHOOK_HISTORY_TABLE, WEBHOOK_QUEUE_URL } =
+      process.env;
+    if (!SERVICE_NAME || !AVIARY_SHARED_KEY_SECRET_PATH || !WEBHOOK_HISTORY_TABLE || !WEBHOOK_QUEUE_URL) {
+      throw new Error(
+        'SERVICE_NAME, AVIARY_SHARED_KEY_SECRET_PATH, WEBHOOK_HISTORY_TABLE and WEBHOOK_QUEUE_URL must be set'
+      );
+    }
+    const clientRegistry = clientRegistryFromEnv();
+    if (!clientRegistry) {
+      throw new Error('AVIARY_CLIENT_REGISTRY_SECRET_PATH or AVIARY_CLIENT_REGISTRY_TABLE must be set');
+    }
+    envHandler = createWebhookReplayRouter({
+      servicePrefix: SERVICE_NAME,
+      auth: { secretPath: AVIARY_SHARED_KEY_SECRET_PATH, clientRegistry },
+      history: new DynamoDBWebhookHistory(WEBHOOK_HISTORY_TABLE),
+      queueUrl: WEBHOOK_QUEUE_URL,
+    }).handler();
+  }
+  return envHandler(event, context);
+}
@@ -0,0 +1,345 @@
+/**
+ * Webhook Delivery
+ *
+ * Builds the webhook envelope from docs/api-standards.md and delivers it
+ * signed (`X-Signature` / `X-Timestamp`, see ./signature) with `traceparent`
+ * and `X-Request-Id` headers.
+ *
+ * Blobs are stored inline as UTF-8 when small, as `gzip+base64` when larger,
+ * and dropped with `blob_truncated: true` when even the compressed form is over
+ * the limit, in which case receivers fetch `artifacts.resource_url` instead.
+ * `blob_checksum` and `blob_size` always describe the uncompressed blob.
+ *
+ * @packageDocumentation
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { gzipSync } from 'zlib';
+import { SecretCache } from './secret-cache';
+import { getSecretText } from './secrets';
+import { signRequest } from './signature';
+
+export const WEBHOOK_ENVELOPE_VERSION = '1.0';
+
+/**
+ * Blob encodings from docs/api-standards.md
+ */
+export type BlobEncoding = 'utf-8' | 'gzip+base64';
+
+/**
+ * `error` object of a failed event
+ */
+export interface WebhookError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * Webhook envelope (docs/api-standards.md "Webhook Payload Standards")
+ */
+export interface WebhookEnvelope {
+  event_type: string;
+  version: string;
+  event_id: string;
+  subject_id: string;
+  /** Semantic job id, repeated at top level for Airtable (docs/airtable-automations.md) */
+  job_id?: string;
+  status: string;
+  source: string;
+  occurred_at: string;
+  delivered_at: string;
+  attempt: number;
+  correlation_id: string | null;
+  artifacts: Record<string, unknown> & { resource_url?: string };
+  blob_schema_version?: string;
+  blob_checksum?: string;
+  blob_size?: number;
+  blob_encoding?: BlobEncoding;
+  blob_truncated?: boolean;
+  blob?: string | null;
+  /** Present only on failures */
+  error?: WebhookError;
+}
+
+/**
+ * Event details supplied by the sending service
+ */
+export interface WebhookEventInput {
+  event_type: string;
+  subject_id: string;
+  status: string;
+  source: string;
+  job_id?: string;
+  /** Default: a random UUID */
+  event_id?: string;
+  /** Default: now */
+  occurred_at?: string | Date;
+  correlation_id?: string | null;
+  artifacts?: Record<string, unknown> & { resource_url?: string };
+  error?: WebhookError | null;
+  /** Heavy payload; objects are serialized with JSON.stringify */
+  blob?: unknown;
+  blob_schema_version?: string;
+}
+
+export interface BuildWebhookEnvelopeOptions {
+  /** Blobs up to this many bytes are sent as plain UTF-8 (default: 64 KB) */
+  compressAboveBytes?: number;
+  /** Largest inline blob in bytes, after encoding (default: 1 MB) */
+  maxBlobBytes?: number;
+  /** Delivery attempt (default: 1) */
+  attempt?: number;
+  /** Delivery time (default: now) */
+  deliveredAt?: Date;
+}
+
+const DEFAULT_COMPRESS_ABOVE_BYTES = 64 * 1024;
+const DEFAULT_MAX_BLOB_BYTES = 1024 * 1024;
+
+function toIsoString(value: string | Date | undefined): string {
+  if (value === undefined) {
+    return new Date().toISOString();
+  }
+  return typeof value === 'string' ? value : value.toISOString();
+}
+
+/**
+ * `sha256:<hex>` checksum in the envelope format
+ */
+export function blobChecksum(blob: string | Buffer): string {
+  return `sha256:${createHash('sha256').update(blob).digest('hex')}`;
+}
+
+/**
+ * Build a webhook envelope.
+ *
+ * @throws Error when the blob is too large to inline and there is no
+ *   `artifacts.resource_url` for receivers to fall back to
+ *
+ * @example
+ * ```typescript
+ * const envelope = buildWebhookEnvelope({
+ *   event_type: 'job.completed',
+ *   subject_id: jobId,
+ *   job_id: jobId,
+ *   status: 'completed',
+ *   source: 'condor',
+ *   correlation_id: recordId,
+ *   artifacts: { resource_url: `https://cdn.example.com/jobs/${jobId}/result.json` },
+ *   blob: result,
+ * });
+ * ```
+ */
+export function buildWebhookEnvelope(
+  input: WebhookEventInput,
+  options?: BuildWebhookEnvelopeOptions
+): WebhookEnvelope {
+  const {
+    compressAboveBytes = DEFAULT_COMPRESS_ABOVE_BYTES,
+    maxBlobBytes = DEFAULT_MAX_BLOB_BYTES,
+    attempt = 1,
+    deliveredAt = new Date(),
+  } = options || {};
+
+  const envelope: WebhookEnvelope = {
+    event_type: input.event_type,
+    version: WEBHOOK_ENVELOPE_VERSION,
+    event_id: input.event_id ?? randomUUID(),
+    subject_id: input.subject_id,
+    ...(input.job_id !== undefined ? { job_id: input.job_id } : {}),
+    status: input.status,
+    source: input.source,
+    occurred_at: toIsoString(input.occurred_at),
+    delivered_at: deliveredAt.toISOString(),
+    attempt,
+    correlation_id: input.correlation_id ?? null,
+    artifacts: input.artifacts ?? {},
+    ...(input.error ? { error: input.error } : {}),
+  };
+
+  if (input.blob === undefined) {
+    return envelope;
+  }
+
+  const blobText = typeof input.blob === 'string' ? input.blob : JSON.stringify(input.blob);
+  const raw = Buffer.from(blobText, 'utf-8');
+
+  envelope.blob_schema_version = input.blob_schema_version ?? WEBHOOK_ENVELOPE_VERSION;
+  envelope.blob_checksum = blobChecksum(raw);
+  envelope.blob_size = raw.length;
+
+  if (raw.length <= compressAboveBytes && raw.length <= maxBlobBytes) {
+    envelope.blob_encoding = 'utf-8';
+    envelope.blob_truncated = false;
+    envelope.blob = blobText;
+    return envelope;
+  }
+
+  const compressed = gzipSync(raw).toString('base64');
+  if (compressed.length <= maxBlobBytes) {
+    envelope.blob_encoding = 'gzip+base64';
+    envelope.blob_truncated = false;
+    envelope.blob = compressed;
+    return envelope;
+  }
+
+  if (!envelope.artifacts.resource_url) {
+    throw new Error(
+      `Webhook blob (${raw.length} bytes) exceeds ${maxBlobBytes} bytes and artifacts.resource_url is not set`
+    );
+  }
+
+  // Truncated UTF-8 or gzip is unusable, so the blob is dropped entirely
+  envelope.blob_encoding = 'utf-8';
+  envelope.blob_truncated = true;
+  envelope.blob = null;
+  return envelope;
+}
+
+/**
+ * Outcome of one delivery attempt
+ */
+export interface WebhookDeliveryRecord {
+  event_id: string;
+  event_type: string;
+  url: string;
+  attempt: number;
+  delivered_at: string;
+  /** HTTP status, or null when no response was received */
+  status_code: number | null;
+  /** Any 2xx response */
+  success: boolean;
+  duration_ms: number;
+  /** Network error or timeout */
+  error?: string;
+  /** First 500 characters of the response body */
+  response_body?: string;
+}
+
+export interface DeliverWebhookOptions {
+  /** Receiver URL; must be https except for localhost */
+  url: string;
+  /** Signing secret; takes precedence over `secretPath` */
+  secret?: string;
+  /** Secrets Manager path of the signing secret (config.secrets.webhookHmacSecret) */
+  secretPath?: string;
+  /** Field holding the secret when the secret is JSON (default: AVIARY_SIGNING_SECRET) */
+  signingKeyName?: string;
+  /** Attempt number to stamp on the envelope (default: the envelope's) */
+  attempt?: number;
+  /** W3C traceparent to propagate (default: a new trace) */
+  traceparent?: string;
+  /** X-Request-Id (default: correlation_id, else event_id) */
+  requestId?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Request timeout in ms (default: 10000) */
+  timeoutMs?: number;
+  cache?: SecretCache;
+}
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * New W3C traceparent (version 00, sampled)
+ */
+export function createTraceparent(): string {
+  return `00-${randomBytes(16).toString('hex')}-${randomBytes(8).toString('hex')}-01`;
+}
+
+/**
+ * Sign and POST a webhook envelope.
+ *
+ * `delivered_at` is set to the send time. HTTP and network failures are
+ * reported in the returned record rather than thrown, so callers can persist
+ * it and schedule a retry.
+ *
+ * @throws Error when the URL is not https or no signing secret is available
+ *
+ * @example
+ * ```typescript
+ * const record = await deliverWebhook(envelope, {
+ *   url: job.callback_url,
+ *   secretPath: process.env.WEBHOOK_SECRET_PATH,
+ * });
+ * if (!record.success) {
+ *   await scheduleRetry(envelope, record.attempt + 1);
+ * }
+ * ```
+ */
+export async function deliverWebhook(
+  envelope: WebhookEnvelope,
+  options: DeliverWebhookOptions
+): Promise<WebhookDeliveryRecord> {
+  const {
+    url,
+    secretPath,
+    signingKeyName = 'AVIARY_SIGNING_SECRET',
+    attempt = envelope.attempt,
+    traceparent = createTraceparent(),
+    requestId = envelope.correlation_id ?? envelope.event_id,
+    headers,
+    timeoutMs = 10_000,
+    cache,
+  } = options;
+
+  const target = new URL(url);
+  if (target.protocol !== 'https:' && !LOCAL_HOSTS.has(target.hostname)) {
+    throw new Error(`Webhook URL must use https: ${target.origin}`);
+  }
+
+  const secret =
+    options.secret ?? (secretPath ? await getSecretText(secretPath, signingKeyName, { cache }) : null);
+  if (!secret) {
+    throw new Error(`No webhook signing secret${secretPath ? ` at ${secretPath}` : ''}`);
+  }
+
+  const deliveredAt = new Date();
+  const body = JSON.stringify({ ...envelope, attempt, delivered_at: deliveredAt.toISOString() });
+  const record: WebhookDeliveryRecord = {
+    event_id: envelope.event_id,
+    event_type: envelope.event_type,
+    url,
+    attempt,
+    delivered_at: deliveredAt.toISOString(),
+    status_code: null,
+    success: false,
+    duration_ms: 0,
+  };
+
+  const started = Date.now();
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': `aviary-webhooks/${envelope.source}`,
+        traceparent,
+        'X-Request-Id': requestId,
+        ...headers,
+        ...signRequest(body, secret, { timestamp: deliveredAt }),
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    record.status_code = response.status;
+    record.success = response.ok;
+    record.response_body = (await response.text()).slice(0, 500);
+  } catch (error) {
+    record.error =
+      (error as Error)?.name === 'TimeoutError'
+        ? `Timed out after ${timeoutMs}ms`
+        : (error as Error)?.message ?? String(error);
+  }
+  record.duration_ms = Date.now() - started;
+
+  if (!record.success) {
+    console.warn(
+      `Webhook ${envelope.event_id} attempt ${attempt} to ${target.origin} failed: ${record.status_code ?? record.error}`
+    );
+  }
+
+  return record;
+}
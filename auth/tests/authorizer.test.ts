@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  APIGatewayAuthorizerResult,
+  APIGatewayRequestAuthorizerEvent,
+  APIGatewayRequestAuthorizerEventV2,
+  APIGatewayTokenAuthorizerEvent,
+} from 'aws-lambda';
+import { authorizeApiKey, authorizeRequest } from '../src/authorize';
+import {
+  authorizerOptionsFromEnv,
+  createAuthorizerHandler,
+  stageWildcardArn,
+} from '../src/authorizer';
+import { DynamoDBClientRegistry, SecretsManagerClientRegistry } from '../src/client-registry';
+
+vi.mock('../src/authorize', () => ({
+  authorizeRequest: vi.fn(),
+  authorizeApiKey: vi.fn(),
+}));
+
+const mockAuthorize = vi.mocked(authorizeRequest);
+const mockAuthorizeApiKey = vi.mocked(authorizeApiKey);
+
+const METHOD_ARN = 'arn:aws:execute-api:us-east-1:123456789012:abc123/dev/POST/v1/jobs';
+const ROUTE_ARN = 'arn:aws:execute-api:us-east-1:123456789012:abc123/$default/POST/v1/jobs';
+
+function tokenEvent(token: string): APIGatewayTokenAuthorizerEvent {
+  return { type: 'TOKEN', methodArn: METHOD_ARN, authorizationToken: token };
+}
+
+function restRequestEvent(headers: Record<string, string>): APIGatewayRequestAuthorizerEvent {
+  return { type: 'REQUEST', methodArn: METHOD_ARN, headers } as unknown as APIGatewayRequestAuthorizerEvent;
+}
+
+function httpApiEvent(headers: Record<string, string>): APIGatewayRequestAuthorizerEventV2 {
+  return {
+    version: '2.0',
+    type: 'REQUEST',
+    routeArn: ROUTE_ARN,
+    headers,
+  } as unknown as APIGatewayRequestAuthorizerEventV2;
+}
+
+describe('stageWildcardArn', () => {
+  it('widens a method ARN to the whole stage', () => {
+    expect(stageWildcardArn(METHOD_ARN)).toBe(
+      'arn:aws:execute-api:us-east-1:123456789012:abc123/dev/*'
+    );
+  });
+
+  it('leaves ARNs without a stage unchanged', () => {
+    expect(stageWildcardArn('arn:aws:execute-api:us-east-1:1:abc')).toBe(
+      'arn:aws:execute-api:us-east-1:1:abc'
+    );
+  });
+});
+
+describe('createAuthorizerHandler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('REST API', () => {
+    it('passes the TOKEN identity to authorizeApiKey', async () => {
+      mockAuthorizeApiKey.mockResolvedValue({ authorized: true, method: 'shared-key', keySlot: 'current' });
+      const handler = createAuthorizerHandler({ secretPath: '/aviary/shared/api-key', serviceName: 'condor' });
+
+      await handler(tokenEvent('valid-key'));
+
+      expect(mockAuthorizeApiKey).toHaveBeenCalledWith('valid-key', '/aviary/shared/api-key', {
+        sharedKeyName: undefined,
+        clientRegistry: undefined,
+        serviceName: 'condor',
+        keySources: undefined,
+      });
+      expect(mockAuthorize).not.toHaveBeenCalled();
+    });
+
+    it('strips a Bearer prefix from TOKEN identities', async () => {
+      mockAuthorizeApiKey.mockResolvedValue({ authorized: true, method: 'shared-key', keySlot: 'current' });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      await handler(tokenEvent('Bearer valid-key'));
+
+      expect(mockAuthorizeApiKey.mock.calls[0][0]).toBe('valid-key');
+    });
+
+    it('denies an empty TOKEN identity without a lookup', async () => {
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      await expect(handler(tokenEvent('Bearer '))).rejects.toThrow('Unauthorized');
+      expect(mockAuthorizeApiKey).not.toHaveBeenCalled();
+    });
+
+    it('returns a stage-wide Allow policy with context for the shared key', async () => {
+      mockAuthorize.mockResolvedValue({ authorized: true, method: 'shared-key', keySlot: 'current' });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      const result = await handler(restRequestEvent({ 'x-api-key': 'valid-key' }));
+
+      expect(result).toEqual({
+        principalId: 'aviary-shared-key',
+        policyDocument: {
+          Version: '2012-10-17',
+          Statement: [
+            {
+              Action: 'execute-api:Invoke',
+              Effect: 'Allow',
+              Resource: 'arn:aws:execute-api:us-east-1:123456789012:abc123/dev/*',
+            },
+          ],
+        },
+        context: { authMethod: 'shared-key', clientId: '', scopes: '', keySlot: 'current' },
+      });
+    });
+
+    it('uses the client id as principal for client keys', async () => {
+      mockAuthorize.mockResolvedValue({
+        authorized: true,
+        method: 'client-key',
+        clientId: 'airtable-briefly',
+        clientName: 'Briefly',
+        scopes: ['tts:write', 'mix:*'],
+      });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      const result = (await handler(
+        restRequestEvent({ 'X-API-Key': 'ak_1.secret' })
+      )) as APIGatewayAuthorizerResult;
+
+      expect(result.principalId).toBe('airtable-briefly');
+      expect(result.context).toEqual({
+        authMethod: 'client-key',
+        clientId: 'airtable-briefly',
+        scopes: 'tts:write,mix:*',
+        keySlot: '',
+      });
+    });
+
+    it('passes REQUEST event headers through to authorizeRequest', async () => {
+      mockAuthorize.mockResolvedValue({ authorized: true, method: 'shared-key', keySlot: 'current' });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      await handler(restRequestEvent({ 'X-Api-Key': 'valid-key', Host: 'api.example.com' }));
+
+      expect(mockAuthorize.mock.calls[0][0].headers).toEqual({
+        'X-Api-Key': 'valid-key',
+        Host: 'api.example.com',
+      });
+    });
+
+    it('throws Unauthorized so API Gateway returns 401', async () => {
+      mockAuthorize.mockResolvedValue({ authorized: false, method: 'none' });
+      mockAuthorizeApiKey.mockResolvedValue({ authorized: false, method: 'none' });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      await expect(handler(tokenEvent('bad-key'))).rejects.toThrow('Unauthorized');
+      await expect(handler(restRequestEvent({}))).rejects.toThrow('Unauthorized');
+    });
+  });
+
+  describe('HTTP API', () => {
+    it('returns a simple response with context by default', async () => {
+      mockAuthorize.mockResolvedValue({ authorized: true, method: 'shared-key', keySlot: 'previous-0' });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      const result = await handler(httpApiEvent({ 'x-api-key': 'old-key' }));
+
+      expect(result).toEqual({
+        isAuthorized: true,
+        context: { authMethod: 'shared-key', clientId: '', scopes: '', keySlot: 'previous-0' },
+      });
+    });
+
+    it('passes the request to authorizeRequest as a payload v2 event', async () => {
+      mockAuthorize.mockResolvedValue({ authorized: true, method: 'shared-key', keySlot: 'current' });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      await handler(httpApiEvent({ 'x-api-key': 'valid-key' }));
+
+      expect(mockAuthorize.mock.calls[0][0]).toMatchObject({
+        version: '2.0',
+        headers: { 'x-api-key': 'valid-key' },
+        isBase64Encoded: false,
+      });
+    });
+
+    it('returns isAuthorized false when denied', async () => {
+      mockAuthorize.mockResolvedValue({ authorized: false, method: 'none' });
+      const handler = createAuthorizerHandler({ secretPath: '/p' });
+
+      const result = await handler(httpApiEvent({}));
+
+      expect(result).toEqual({ isAuthorized: false, context: {} });
+    });
+
+    it('returns IAM policies when configured', async () => {
+      mockAuthorize.mockResolvedValueOnce({ authorized: true, method: 'shared-key', keySlot: 'current' });
+      mockAuthorize.mockResolvedValueOnce({ authorized: false, method: 'none' });
+      const handler = createAuthorizerHandler({ secretPath: '/p', httpApiResponse: 'iam' });
+
+      const allowed = (await handler(httpApiEvent({ 'x-api-key': 'k' }))) as APIGatewayAuthorizerResult;
+      const denied = (await handler(httpApiEvent({}))) as APIGatewayAuthorizerResult;
+
+      const wildcard = 'arn:aws:execute-api:us-east-1:123456789012:abc123/$default/*';
+      expect(allowed.policyDocument.Statement[0]).toMatchObject({ Effect: 'Allow', Resource: wildcard });
+      expect(denied.policyDocument.Statement[0]).toMatchObject({ Effect: 'Deny', Resource: wildcard });
+      expect(denied.context).toBeUndefined();
+    });
+  });
+});
+
+describe('authorizerOptionsFromEnv', () => {
+  it('requires the shared key secret path', () => {
+    expect(() => authorizerOptionsFromEnv({})).toThrow('AVIARY_SHARED_KEY_SECRET_PATH');
+  });
+
+  it('reads the secret path, service name and response format', () => {
+    const options = authorizerOptionsFromEnv({
+      AVIARY_SHARED_KEY_SECRET_PATH: '/aviary/shared/api-key',
+      SERVICE_NAME: 'condor',
+      AUTHORIZER_HTTP_API_RESPONSE: 'iam',
+    });
+
+    expect(options).toEqual({
+      secretPath: '/aviary/shared/api-key',
+      clientRegistry: undefined,
+      serviceName: 'condor',
+      httpApiResponse: 'iam',
+    });
+  });
+
+  it('builds a client registry from a secret path or table name', () => {
+    const fromSecret = authorizerOptionsFromEnv({
+      AVIARY_SHARED_KEY_SECRET_PATH: '/p',
+      AVIARY_CLIENT_REGISTRY_SECRET_PATH: '/aviary/shared/clients',
+    });
+    const fromTable = authorizerOptionsFromEnv({
+      AVIARY_SHARED_KEY_SECRET_PATH: '/p',
+      AVIARY_CLIENT_REGISTRY_TABLE: 'aviary-clients-dev',
+    });
+
+    expect(fromSecret.clientRegistry).toBeInstanceOf(SecretsManagerClientRegistry);
+    expect(fromTable.clientRegistry).toBeInstanceOf(DynamoDBClientRegistry);
+  });
+});
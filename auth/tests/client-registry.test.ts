@@ -0,0 +1,252 @@
+import { describe, it, expect, vi } from 'vitest';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  DynamoDBClientRegistry,
+  SecretsManagerClientRegistry,
+  parseClientKey,
+  toClientRecord,
+  verifyClientKey,
+} from '../src/client-registry';
+import { SecretCache } from '../src/secret-cache';
+import { hashApiKey } from '../src/key-hashing';
+
+describe('parseClientKey', () => {
+  it('splits key id and secret at the first dot', () => {
+    expect(parseClientKey('ak_condor_airtable.s3cr3t')).toEqual({
+      keyId: 'ak_condor_airtable',
+      secret: 's3cr3t',
+    });
+    expect(parseClientKey('ak_1.part.with.dots')).toEqual({
+      keyId: 'ak_1',
+      secret: 'part.with.dots',
+    });
+  });
+
+  it('returns null for keys without a key id or secret', () => {
+    expect(parseClientKey('plain-shared-key')).toBeNull();
+    expect(parseClientKey('.secret')).toBeNull();
+    expect(parseClientKey('ak_1.')).toBeNull();
+  });
+});
+
+describe('toClientRecord', () => {
+  it('reads camelCase entries', () => {
+    expect(
+      toClientRecord('ak_1', {
+        clientId: 'airtable-briefly',
+        clientName: 'Briefly Remembered base',
+        services: ['condor'],
+        scopes: ['tts:write'],
+        key: 's3cr3t',
+      })
+    ).toEqual({
+      keyId: 'ak_1',
+      clientId: 'airtable-briefly',
+      clientName: 'Briefly Remembered base',
+      services: ['condor'],
+      scopes: ['tts:write'],
+      key: 's3cr3t',
+      disabled: false,
+    });
+  });
+
+  it('reads snake_case entries with a hashed key', () => {
+    const hash = hashApiKey('s3cr3t');
+
+    expect(
+      toClientRecord('ak_1', {
+        client_id: 'nightingale',
+        services: ['*'],
+        scopes: ['mix:*'],
+        key_hash: hash,
+        expires_at: '2099-01-01T00:00:00Z',
+        disabled: true,
+      })
+    ).toEqual({
+      keyId: 'ak_1',
+      clientId: 'nightingale',
+      clientName: 'nightingale',
+      services: ['*'],
+      scopes: ['mix:*'],
+      hash,
+      expiresAt: '2099-01-01T00:00:00Z',
+      disabled: true,
+    });
+  });
+
+  it('reads JSON-encoded entries', () => {
+    const record = toClientRecord('ak_1', JSON.stringify({ clientId: 'c', key: 'k' }));
+    expect(record?.clientId).toBe('c');
+    expect(record?.services).toEqual([]);
+    expect(record?.scopes).toEqual([]);
+  });
+
+  it('returns null for entries without a client id or key material', () => {
+    expect(toClientRecord('ak_1', { key: 'k' })).toBeNull();
+    expect(toClientRecord('ak_1', { clientId: 'c' })).toBeNull();
+    expect(toClientRecord('ak_1', '{not json')).toBeNull();
+    expect(toClientRecord('ak_1', 42)).toBeNull();
+  });
+});
+
+describe('verifyClientKey', () => {
+  const record = toClientRecord('ak_1', {
+    clientId: 'airtable-briefly',
+    services: ['condor', 'nightingale'],
+    scopes: ['tts:write'],
+    key: 's3cr3t',
+  })!;
+
+  it('accepts the right secret for an allowed service', () => {
+    expect(verifyClientKey(record, 's3cr3t', 'condor')).toBe(true);
+    expect(verifyClientKey(record, 's3cr3t')).toBe(true);
+  });
+
+  it('rejects the wrong secret', () => {
+    expect(verifyClientKey(record, 'wrong', 'condor')).toBe(false);
+  });
+
+  it('rejects services the client may not call', () => {
+    expect(verifyClientKey(record, 's3cr3t', 'magpie')).toBe(false);
+  });
+
+  it('allows every service with a wildcard', () => {
+    expect(verifyClientKey({ ...record, services: ['*'] }, 's3cr3t', 'magpie')).toBe(true);
+  });
+
+  it('rejects disabled and expired keys', () => {
+    expect(verifyClientKey({ ...record, disabled: true }, 's3cr3t')).toBe(false);
+    expect(verifyClientKey({ ...record, expiresAt: '2020-01-01T00:00:00Z' }, 's3cr3t')).toBe(false);
+  });
+});
+
+describe('SecretsManagerClientRegistry', () => {
+  const secret = JSON.stringify({
+    ak_airtable: {
+      clientId: 'airtable-briefly',
+      services: ['condor'],
+      scopes: ['tts:write'],
+      key: 's3cr3t',
+    },
+  });
+
+  it('looks up clients by key id', async () => {
+    const cache = new SecretCache(async () => secret);
+    const registry = new SecretsManagerClientRegistry('/aviary/clients', { cache });
+
+    const record = await registry.getClient('ak_airtable');
+
+    expect(record?.clientId).toBe('airtable-briefly');
+    expect(record?.scopes).toEqual(['tts:write']);
+  });
+
+  it('returns null for unknown key ids', async () => {
+    const cache = new SecretCache(async () => secret);
+    const registry = new SecretsManagerClientRegistry('/aviary/clients', { cache });
+
+    expect(await registry.getClient('ak_unknown')).toBeNull();
+  });
+
+  it('returns null when the secret cannot be read', async () => {
+    const cache = new SecretCache(async () => {
+      throw new Error('ResourceNotFoundException');
+    });
+    const registry = new SecretsManagerClientRegistry('/aviary/clients', { cache });
+
+    expect(await registry.getClient('ak_airtable')).toBeNull();
+  });
+});
+
+describe('DynamoDBClientRegistry', () => {
+  const item = marshall({
+    key_id: 'ak_nightingale',
+    client_id: 'nightingale',
+    client_name: 'Nightingale mixer',
+    services: new Set(['condor', 'magpie']),
+    scopes: ['tts:read', 'sfx:*'],
+    key: 's3cr3t',
+  });
+
+  it('reads clients from the table by key_id', async () => {
+    const send = vi.fn(async () => ({ Item: item }));
+    const registry = new DynamoDBClientRegistry('aviary-clients', { client: { send } as any });
+
+    const record = await registry.getClient('ak_nightingale');
+
+    expect(record).toMatchObject({
+      keyId: 'ak_nightingale',
+      clientId: 'nightingale',
+      clientName: 'Nightingale mixer',
+      services: ['condor', 'magpie'],
+      scopes: ['tts:read', 'sfx:*'],
+    });
+    expect(send).toHaveBeenCalledTimes(1);
+    const command = (send.mock.calls[0] as any[])[0];
+    expect(command.input).toMatchObject({
+      TableName: 'aviary-clients',
+      Key: { key_id: { S: 'ak_nightingale' } },
+    });
+  });
+
+  it('caches lookups between calls', async () => {
+    const send = vi.fn(async () => ({ Item: item }));
+    const registry = new DynamoDBClientRegistry('aviary-clients', { client: { send } as any });
+
+    await registry.getClient('ak_nightingale');
+    await registry.getClient('ak_nightingale');
+    await registry.getClient('ak_nightingale', { forceRefresh: true });
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null for missing items', async () => {
+    const send = vi.fn(async () => ({}));
+    const registry = new DynamoDBClientRegistry('aviary-clients', { client: { send } as any });
+
+    expect(await registry.getClient('ak_unknown')).toBeNull();
+  });
+
+  it('remembers unknown key ids only briefly', async () => {
+    vi.useFakeTimers();
+    try {
+      const send = vi.fn(async () => ({}));
+      const registry = new DynamoDBClientRegistry('aviary-clients', {
+        client: { send } as any,
+        missTtlMs: 1000,
+      });
+
+      await registry.getClient('ak_unknown');
+      await registry.getClient('ak_unknown');
+      expect(send).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await registry.getClient('ak_unknown');
+      expect(send).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('bounds the number of cached key ids', async () => {
+    const send = vi.fn(async () => ({ Item: item }));
+    const registry = new DynamoDBClientRegistry('aviary-clients', {
+      client: { send } as any,
+      maxCachedClients: 2,
+    });
+
+    for (const keyId of ['ak_1', 'ak_2', 'ak_3', 'ak_1']) {
+      await registry.getClient(keyId);
+    }
+
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+
+  it('returns null when DynamoDB fails', async () => {
+    const send = vi.fn(async () => {
+      throw new Error('ProvisionedThroughputExceededException');
+    });
+    const registry = new DynamoDBClientRegistry('aviary-clients', { client: { send } as any });
+
+    expect(await registry.getClient('ak_nightingale')).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApiError,
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  InternalError,
+  MethodNotAllowedError,
+  NotFoundError,
+  RateLimitError,
+  ServiceUnavailableError,
+  ValidationError,
+  VersionRemovedError,
+  isApiError,
+} from '../src/errors';
+
+describe('ApiError subclasses', () => {
+  it.each([
+    [new ValidationError(), 400, 'VALIDATION_ERROR'],
+    [new AuthenticationError(), 401, 'AUTHENTICATION_ERROR'],
+    [new AuthorizationError(), 403, 'AUTHORIZATION_ERROR'],
+    [new NotFoundError(), 404, 'RESOURCE_NOT_FOUND'],
+    [new MethodNotAllowedError(['GET']), 405, 'METHOD_NOT_ALLOWED'],
+    [new ConflictError(), 409, 'CONFLICT'],
+    [new VersionRemovedError(), 410, 'API_VERSION_REMOVED'],
+    [new RateLimitError(), 429, 'RATE_LIMIT_EXCEEDED'],
+    [new InternalError(), 500, 'INTERNAL_ERROR'],
+    [new ServiceUnavailableError(), 503, 'SERVICE_UNAVAILABLE'],
+  ])('%s maps to %i %s', (error, statusCode, code) => {
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.statusCode).toBe(statusCode);
+    expect(error.code).toBe(code);
+    expect(error.name).toBe(error.constructor.name);
+  });
+
+  it('includes details in the error body', () => {
+    const error = new ValidationError('Invalid input provided', {
+      details: { field: 'email', reason: 'Invalid email format' },
+    });
+
+    expect(error.toErrorBody()).toEqual({
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input provided',
+      details: { field: 'email', reason: 'Invalid email format' },
+    });
+  });
+
+  it('keeps the cause without exposing it', () => {
+    const cause = new Error('DynamoDB timeout');
+    const error = new ServiceUnavailableError('Jobs table unavailable', undefined, { cause });
+
+    expect(error.cause).toBe(cause);
+    expect(JSON.stringify(error.toErrorBody())).not.toContain('DynamoDB');
+  });
+
+  it('sets the Allow header for 405s', () => {
+    expect(new MethodNotAllowedError(['GET', 'POST']).headers).toEqual({ Allow: 'GET, POST' });
+  });
+
+  it('sets Retry-After and retry_after for rate limits', () => {
+    const error = new RateLimitError(60);
+
+    expect(error.headers).toEqual({ 'Retry-After': '60' });
+    expect(error.toErrorBody()).toEqual({
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Rate limit exceeded. Try again in 60 seconds.',
+      retry_after: 60,
+    });
+  });
+
+  it('sets Retry-After for 503s when known', () => {
+    expect(new ServiceUnavailableError('Down', 30).headers).toEqual({ 'Retry-After': '30' });
+    expect(new ServiceUnavailableError().headers).toEqual({});
+  });
+});
+
+describe('isApiError', () => {
+  it('distinguishes ApiErrors from other errors', () => {
+    expect(isApiError(new NotFoundError())).toBe(true);
+    expect(isApiError(new Error('boom'))).toBe(false);
+    expect(isApiError('boom')).toBe(false);
+  });
+});
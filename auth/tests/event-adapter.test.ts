@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { ALBEvent, APIGatewayProxyEvent, APIGatewayProxyEventV2 } from 'aws-lambda';
+import {
+  getCookies,
+  getEventPath,
+  getEventSource,
+  getMethod,
+  getNormalizedPath,
+  getQueryParameters,
+  getRawBody,
+  toHttpResult,
+} from '../src/event-adapter';
+
+function restEvent(overrides: Partial<APIGatewayProxyEvent> = {}): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'POST',
+    path: '/condor/v1/tts/jobs',
+    headers: {},
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    body: null,
+    isBase64Encoded: false,
+    requestContext: {} as any,
+    ...overrides,
+  } as APIGatewayProxyEvent;
+}
+
+function httpApiEvent(overrides: Partial<APIGatewayProxyEventV2> = {}): APIGatewayProxyEventV2 {
+  return {
+    version: '2.0',
+    routeKey: '$default',
+    rawPath: '/condor/v1/tts/jobs',
+    rawQueryString: '',
+    headers: {},
+    isBase64Encoded: false,
+    requestContext: { http: { method: 'post', path: '/condor/v1/tts/jobs' } } as any,
+    ...overrides,
+  } as APIGatewayProxyEventV2;
+}
+
+function albEvent(overrides: Partial<ALBEvent> = {}): ALBEvent {
+  return {
+    httpMethod: 'GET',
+    path: '/v1/tts/jobs',
+    headers: {},
+    body: null,
+    isBase64Encoded: false,
+    requestContext: { elb: { targetGroupArn: 'arn:aws:elasticloadbalancing:...' } },
+    ...overrides,
+  } as ALBEvent;
+}
+
+describe('getEventSource', () => {
+  it('detects REST API, HTTP API and ALB events', () => {
+    expect(getEventSource(restEvent())).toBe('rest-api');
+    expect(getEventSource(httpApiEvent())).toBe('http-api');
+    expect(getEventSource(albEvent())).toBe('alb');
+  });
+});
+
+describe('getMethod / getEventPath', () => {
+  it('reads method and path from each event shape', () => {
+    expect(getMethod(restEvent())).toBe('POST');
+    expect(getMethod(httpApiEvent())).toBe('POST');
+    expect(getMethod(albEvent())).toBe('GET');
+
+    expect(getEventPath(restEvent())).toBe('/condor/v1/tts/jobs');
+    expect(getEventPath(httpApiEvent({ rawPath: '/condor/v1/a%2Fb' }))).toBe('/condor/v1/a%2Fb');
+    expect(getEventPath(albEvent())).toBe('/v1/tts/jobs');
+  });
+
+  it('normalizes the service prefix from rawPath', () => {
+    expect(getNormalizedPath(httpApiEvent(), 'condor')).toBe('/v1/tts/jobs');
+  });
+});
+
+describe('getQueryParameters', () => {
+  it('returns REST API parameters as-is', () => {
+    const event = restEvent({ queryStringParameters: { q: 'hello world' } });
+
+    expect(getQueryParameters(event)).toEqual({ q: 'hello world' });
+  });
+
+  it('takes the first of comma-joined HTTP API values', () => {
+    const event = httpApiEvent({ queryStringParameters: { tag: 'a,b', limit: '10' } });
+
+    expect(getQueryParameters(event)).toEqual({ tag: 'a', limit: '10' });
+  });
+
+  it('decodes ALB parameters', () => {
+    const event = albEvent({ queryStringParameters: { q: 'hello%20world', name: 'a+b' } });
+
+    expect(getQueryParameters(event)).toEqual({ q: 'hello world', name: 'a b' });
+  });
+});
+
+describe('getRawBody', () => {
+  it('decodes base64 bodies', () => {
+    const event = httpApiEvent({ body: Buffer.from('{"a":1}').toString('base64'), isBase64Encoded: true });
+
+    expect(getRawBody(event).toString()).toBe('{"a":1}');
+  });
+
+  it('returns an empty string for no body', () => {
+    expect(getRawBody(restEvent())).toBe('');
+  });
+});
+
+describe('getCookies', () => {
+  it('reads HTTP API cookies and the Cookie header', () => {
+    expect(getCookies(httpApiEvent({ cookies: ['session=abc', 'theme=dark'] }))).toEqual({
+      session: 'abc',
+      theme: 'dark',
+    });
+    expect(getCookies(restEvent({ headers: { Cookie: 'session=abc; theme=dark' } }))).toEqual({
+      session: 'abc',
+      theme: 'dark',
+    });
+  });
+});
+
+describe('toHttpResult', () => {
+  const response = {
+    statusCode: 503,
+    headers: { 'Content-Type': 'application/json' },
+    body: '{}',
+    cookies: ['a=1', 'b=2'],
+  };
+
+  it('returns a REST API result with Set-Cookie in multiValueHeaders', () => {
+    expect(toHttpResult(restEvent(), response)).toEqual({
+      statusCode: 503,
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+      isBase64Encoded: false,
+      multiValueHeaders: { 'Set-Cookie': ['a=1', 'b=2'] },
+    });
+  });
+
+  it('returns an HTTP API result with cookies', () => {
+    expect(toHttpResult(httpApiEvent(), response)).toEqual({
+      statusCode: 503,
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+      isBase64Encoded: false,
+      cookies: ['a=1', 'b=2'],
+    });
+  });
+
+  it('returns an ALB result with a status description', () => {
+    expect(toHttpResult(albEvent(), { statusCode: 200, body: 'ok' })).toEqual({
+      statusCode: 200,
+      statusDescription: '200 OK',
+      headers: {},
+      body: 'ok',
+      isBase64Encoded: false,
+    });
+  });
+
+  it('uses multi-value headers for ALB targets that send them', () => {
+    const event = albEvent({ headers: undefined, multiValueHeaders: { host: ['example.com'] } });
+
+    expect(toHttpResult(event, response)).toEqual({
+      statusCode: 503,
+      statusDescription: '503 Service Unavailable',
+      multiValueHeaders: { 'Content-Type': ['application/json'], 'Set-Cookie': ['a=1', 'b=2'] },
+      body: '{}',
+      isBase64Encoded: false,
+    });
+  });
+});
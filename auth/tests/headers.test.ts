@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { ALBEvent, APIGatewayProxyEvent, APIGatewayProxyEventV2 } from 'aws-lambda';
+import {
+  getBearerToken,
+  getHeader,
+  getHeaders,
+  getHeaderValues,
+  hasMultiValueHeaders,
+} from '../src/headers';
+
+function restEvent(
+  headers: Record<string, string> | null,
+  multiValueHeaders: Record<string, string[]> | null = null
+): APIGatewayProxyEvent {
+  return { headers, multiValueHeaders, requestContext: {} } as unknown as APIGatewayProxyEvent;
+}
+
+describe('getHeader', () => {
+  it.each(['X-API-Key', 'x-api-key', 'X-Api-Key', 'X-API-KEY'])(
+    'matches %s regardless of casing',
+    (name) => {
+      const event = restEvent({ [name]: 'abc' });
+
+      expect(getHeader(event, 'X-API-Key')).toBe('abc');
+      expect(getHeader(event, 'x-api-key')).toBe('abc');
+    }
+  );
+
+  it('reads lowercased HTTP API headers', () => {
+    const event = {
+      version: '2.0',
+      headers: { 'x-api-key': 'abc' },
+      requestContext: {},
+    } as unknown as APIGatewayProxyEventV2;
+
+    expect(getHeader(event, 'X-API-Key')).toBe('abc');
+  });
+
+  it('reads ALB multi-value headers', () => {
+    const event = {
+      multiValueHeaders: { 'X-API-KEY': ['abc', 'def'] },
+      requestContext: { elb: {} },
+    } as unknown as ALBEvent;
+
+    expect(getHeader(event, 'x-api-key')).toBe('abc');
+  });
+
+  it('returns undefined for missing headers', () => {
+    expect(getHeader(restEvent(null), 'X-API-Key')).toBeUndefined();
+    expect(getHeader(restEvent({ Host: 'a' }), 'X-API-Key')).toBeUndefined();
+  });
+});
+
+describe('getHeaderValues', () => {
+  it('returns every value from multi-value headers', () => {
+    const event = restEvent({ Accept: 'application/json' }, { accept: ['text/html', 'application/json'] });
+
+    expect(getHeaderValues(event, 'Accept')).toEqual(['text/html', 'application/json']);
+  });
+
+  it('falls back to single-value headers', () => {
+    expect(getHeaderValues(restEvent({ Accept: 'text/html' }), 'accept')).toEqual(['text/html']);
+  });
+
+  it('returns an empty list for missing headers', () => {
+    expect(getHeaderValues(restEvent({}), 'accept')).toEqual([]);
+  });
+});
+
+describe('getHeaders', () => {
+  it('lowercases names and merges multi-value headers', () => {
+    const event = restEvent(
+      { 'Content-Type': 'application/json' },
+      { Accept: ['text/html', 'application/json'] }
+    );
+
+    expect(getHeaders(event)).toEqual({
+      'content-type': 'application/json',
+      accept: 'text/html',
+    });
+  });
+});
+
+describe('getBearerToken', () => {
+  it('extracts the token from any casing of the scheme and header', () => {
+    expect(getBearerToken(restEvent({ Authorization: 'Bearer abc123' }))).toBe('abc123');
+    expect(getBearerToken(restEvent({ authorization: 'bearer  abc123 ' }))).toBe('abc123');
+  });
+
+  it('ignores other schemes and empty tokens', () => {
+    expect(getBearerToken(restEvent({ Authorization: 'Basic dXNlcjpwYXNz' }))).toBeUndefined();
+    expect(getBearerToken(restEvent({ Authorization: 'Bearer ' }))).toBeUndefined();
+    expect(getBearerToken(restEvent({}))).toBeUndefined();
+  });
+});
+
+describe('hasMultiValueHeaders', () => {
+  it('detects multi-value headers', () => {
+    expect(hasMultiValueHeaders(restEvent({}, {}))).toBe(true);
+    expect(hasMultiValueHeaders(restEvent({}, null))).toBe(false);
+  });
+});
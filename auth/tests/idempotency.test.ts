@@ -0,0 +1,438 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBIdempotencyStore,
+  InMemoryIdempotencyStore,
+  executeIdempotently,
+  getIdempotencyKey,
+  idempotencyStoreKey,
+  withIdempotency,
+} from '../src/idempotency';
+import { ConflictError, ServiceUnavailableError, ValidationError } from '../src/errors';
+import { Router } from '../src/router';
+
+const NOW = new Date('2025-12-01T12:00:00Z');
+
+function postEvent(body: unknown, headers: Record<string, string> = {}): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'POST',
+    path: '/v1/jobs',
+    headers,
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    body: body === undefined ? null : JSON.stringify(body),
+    isBase64Encoded: false,
+    requestContext: {},
+  } as unknown as APIGatewayProxyEvent;
+}
+
+describe('getIdempotencyKey', () => {
+  it('prefers the Idempotency-Key header', () => {
+    const event = postEvent({ idempotency_key: 'from-body' }, { 'idempotency-key': 'from-header' });
+
+    expect(getIdempotencyKey(event)).toBe('from-header');
+  });
+
+  it('falls back to the idempotency_key body field', () => {
+    expect(getIdempotencyKey(postEvent({ idempotency_key: 'rec123:tts:v1' }))).toBe('rec123:tts:v1');
+  });
+
+  it('returns null without a key or with a non-JSON body', () => {
+    expect(getIdempotencyKey(postEvent({ text: 'hi' }))).toBeNull();
+    expect(getIdempotencyKey({ ...postEvent(undefined), body: 'not json' })).toBeNull();
+  });
+
+  it('rejects overly long keys', () => {
+    expect(() => getIdempotencyKey(postEvent({}, { 'Idempotency-Key': 'k'.repeat(256) }))).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('executeIdempotently', () => {
+  let store: InMemoryIdempotencyStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    store = new InMemoryIdempotencyStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the stored response for a repeated key', async () => {
+    const run = vi.fn(async () => ({ statusCode: 202, body: '{"job_id":"job_1"}' }));
+    const event = postEvent({ idempotency_key: 'abc' });
+
+    const first = await executeIdempotently(event, { store }, run);
+    const second = await executeIdempotently(event, { store }, run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(first.headers).toBeUndefined();
+    expect(second).toEqual({
+      statusCode: 202,
+      body: '{"job_id":"job_1"}',
+      headers: { 'Idempotent-Replayed': 'true' },
+    });
+  });
+
+  it('returns 409 for a duplicate while the first request is in progress', async () => {
+    const event = postEvent({ idempotency_key: 'abc' });
+    let finish!: () => void;
+    const first = executeIdempotently(event, { store }, async () => {
+      await new Promise<void>((resolve) => (finish = resolve));
+      return { statusCode: 202 };
+    });
+
+    await expect(executeIdempotently(event, { store }, async () => ({ statusCode: 202 }))).rejects.toThrow(
+      ConflictError
+    );
+
+    finish();
+    await first;
+  });
+
+  it('lets a retry take over an abandoned claim', async () => {
+    const event = postEvent({ idempotency_key: 'abc' });
+    await store.claim(idempotencyStoreKey(event, 'abc'), {
+      expiresAt: new Date(Date.now() + 86_400_000),
+      lockExpiresAt: new Date(Date.now() + 300_000),
+    });
+
+    vi.advanceTimersByTime(300_001);
+    const response = await executeIdempotently(event, { store }, async () => ({ statusCode: 202 }));
+
+    expect(response.statusCode).toBe(202);
+  });
+
+  it('releases the key after server errors and thrown errors', async () => {
+    const event = postEvent({ idempotency_key: 'abc' });
+
+    await executeIdempotently(event, { store }, async () => ({ statusCode: 503 }));
+    await expect(
+      executeIdempotently(event, { store }, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    const response = await executeIdempotently(event, { store }, async () => ({ statusCode: 202 }));
+
+    expect(response.headers).toBeUndefined();
+  });
+
+  it('expires stored responses after the TTL', async () => {
+    const event = postEvent({ idempotency_key: 'abc' });
+    const run = vi.fn(async () => ({ statusCode: 202 }));
+
+    await executeIdempotently(event, { store, ttlSeconds: 60 }, run);
+    vi.advanceTimersByTime(61_000);
+    await executeIdempotently(event, { store, ttlSeconds: 60 }, run);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps keys apart per caller and route', async () => {
+    const run = vi.fn(async () => ({ statusCode: 202, body: '{"job_id":"job_1"}' }));
+    const event = postEvent({ idempotency_key: 'abc' });
+
+    await executeIdempotently(event, { store }, run, {
+      route: '/v1/jobs',
+      auth: { authorized: true, method: 'client-key', clientId: 'airtable-prod' },
+    });
+    const otherClient = await executeIdempotently(event, { store }, run, {
+      route: '/v1/jobs',
+      auth: { authorized: true, method: 'client-key', clientId: 'zapier-prod' },
+    });
+    const otherRoute = await executeIdempotently(event, { store }, run, {
+      route: '/v1/exports',
+      auth: { authorized: true, method: 'client-key', clientId: 'airtable-prod' },
+    });
+    const otherKey = await executeIdempotently(
+      postEvent({ idempotency_key: 'abc' }, { 'X-API-Key': 'other-key' }),
+      { store },
+      run
+    );
+
+    expect(run).toHaveBeenCalledTimes(4);
+    expect([otherClient, otherRoute, otherKey].map((r) => r.headers)).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('namespaces store keys by method, route and caller', () => {
+    const event = postEvent({}, { 'X-API-Key': 'secret' });
+
+    expect(
+      idempotencyStoreKey(event, 'rec123:tts:v1', {
+        route: '/v1/jobs',
+        auth: { authorized: true, method: 'client-key', clientId: 'airtable-prod' },
+      })
+    ).toBe('POST /v1/jobs client:airtable-prod rec123:tts:v1');
+    expect(
+      idempotencyStoreKey(event, 'k', {
+        route: '/v1/jobs',
+        auth: { authorized: true, method: 'shared-key', keySlot: 'current' },
+      })
+    ).toBe('POST /v1/jobs shared-key k');
+    expect(idempotencyStoreKey(event, 'k')).toMatch(/^POST \/v1\/jobs key:[0-9a-f]{32} k$/);
+    expect(idempotencyStoreKey(event, 'k')).not.toContain('secret');
+    expect(idempotencyStoreKey(postEvent({}), 'k')).toBe('POST /v1/jobs anonymous k');
+  });
+
+  it('replays across a shared key rotation', async () => {
+    const run = vi.fn(async () => ({ statusCode: 202 }));
+    const event = postEvent({ idempotency_key: 'abc' });
+
+    await executeIdempotently(event, { store }, run, {
+      route: '/v1/jobs',
+      auth: { authorized: true, method: 'shared-key', keySlot: 'current' },
+    });
+    const retry = await executeIdempotently(event, { store }, run, {
+      route: '/v1/jobs',
+      auth: { authorized: true, method: 'shared-key', keySlot: 'previous-0' },
+    });
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(retry.headers).toEqual({ 'Idempotent-Replayed': 'true' });
+  });
+
+  it('rejects a reused key with a different body', async () => {
+    const run = vi.fn(async () => ({ statusCode: 202 }));
+
+    await executeIdempotently(postEvent({ idempotency_key: 'abc', text: 'hello' }), { store }, run);
+
+    await expect(
+      executeIdempotently(postEvent({ idempotency_key: 'abc', text: 'goodbye' }), { store }, run)
+    ).rejects.toThrow('This idempotency key was already used with a different request body');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([408, 425, 429])('does not store %i responses', async (statusCode) => {
+    const event = postEvent({ idempotency_key: 'abc' });
+
+    await executeIdempotently(event, { store }, async () => ({ statusCode }));
+    const retry = await executeIdempotently(event, { store }, async () => ({ statusCode: 202 }));
+
+    expect(retry).toEqual({ statusCode: 202 });
+  });
+
+  it('answers and frees the key when the response cannot be stored', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(store, 'complete').mockRejectedValueOnce(new Error('Item size has exceeded the maximum allowed size'));
+    const event = postEvent({ idempotency_key: 'abc' });
+
+    const first = await executeIdempotently(event, { store }, async () => ({ statusCode: 202, body: 'big' }));
+    const retry = await executeIdempotently(event, { store }, async () => ({ statusCode: 202 }));
+
+    expect(first).toEqual({ statusCode: 202, body: 'big' });
+    expect(retry.headers).toBeUndefined();
+    expect(error).toHaveBeenCalledWith('Failed to store idempotent response:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('answers 503 when the key cannot be claimed', async () => {
+    const cause = new Error('ProvisionedThroughputExceededException');
+    vi.spyOn(store, 'claim').mockRejectedValueOnce(cause);
+    const run = vi.fn(async () => ({ statusCode: 202 }));
+
+    const error = await executeIdempotently(postEvent({ idempotency_key: 'abc' }), { store }, run).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(ServiceUnavailableError);
+    expect((error as ServiceUnavailableError).cause).toBe(cause);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('rethrows the handler error when the key cannot be released', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(store, 'release').mockRejectedValueOnce(new Error('release failed'));
+
+    await expect(
+      executeIdempotently(postEvent({ idempotency_key: 'abc' }), { store }, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(error).toHaveBeenCalledWith('Failed to release idempotency key:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('runs without a key unless one is required', async () => {
+    const run = vi.fn(async () => ({ statusCode: 202 }));
+
+    await executeIdempotently(postEvent({}), { store }, run);
+    await executeIdempotently(postEvent({}), { store }, run);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    await expect(executeIdempotently(postEvent({}), { store, required: true }, run)).rejects.toThrow(
+      'Idempotency-Key header or idempotency_key field is required'
+    );
+  });
+});
+
+describe('withIdempotency', () => {
+  it('wraps an HttpHandler', async () => {
+    const handler = vi.fn(async () => ({ statusCode: 202 }));
+    const wrapped = withIdempotency(handler, { store: new InMemoryIdempotencyStore() });
+    const event = postEvent({}, { 'Idempotency-Key': 'abc' });
+
+    await wrapped(event, {} as Context);
+    const replay = await wrapped(event, {} as Context);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replay.headers).toEqual({ 'Idempotent-Replayed': 'true' });
+  });
+
+  it('plugs into router routes', async () => {
+    const handler = vi.fn(async () => ({ statusCode: 202, body: '{}' }));
+    const router = new Router({ servicePrefix: 'condor' }).post('/v1/jobs', handler, {
+      idempotency: { store: new InMemoryIdempotencyStore() },
+    });
+    const event = postEvent({ idempotency_key: 'abc' });
+
+    await router.handle(event);
+    const replay = await router.handle(event);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replay.statusCode).toBe(202);
+  });
+
+  it('keeps keys apart per path parameter on router routes', async () => {
+    const handler = vi.fn(async () => ({ statusCode: 202, body: '{}' }));
+    const router = new Router({ servicePrefix: 'condor' }).post('/v1/jobs/{id}', handler, {
+      idempotency: { store: new InMemoryIdempotencyStore() },
+    });
+    const jobEvent = (id: string) => ({ ...postEvent({ idempotency_key: 'abc' }), path: `/v1/jobs/${id}` });
+
+    await router.handle(jobEvent('abc'));
+    const other = await router.handle(jobEvent('xyz'));
+    const replay = await router.handle(jobEvent('abc'));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(other.headers).not.toHaveProperty('Idempotent-Replayed');
+    expect(replay.headers).toHaveProperty('Idempotent-Replayed', 'true');
+  });
+});
+
+describe('DynamoDBIdempotencyStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const claimOptions = () => ({
+    expiresAt: new Date('2025-12-02T12:00:00Z'),
+    lockExpiresAt: new Date('2025-12-01T12:05:00Z'),
+  });
+
+  it('claims with a conditional put and TTL attribute', async () => {
+    const send = vi.fn(async () => ({}));
+    const store = new DynamoDBIdempotencyStore('your-service-idempotency-dev', { client: { send } as any });
+
+    expect(await store.claim('abc', claimOptions())).toBeNull();
+
+    const command = (send.mock.calls[0] as any[])[0];
+    expect(command.input).toEqual({
+      TableName: 'your-service-idempotency-dev',
+      Item: {
+        idempotency_key: { S: 'abc' },
+        status: { S: 'IN_PROGRESS' },
+        expires_at: { N: '1764676800' },
+        locked_until: { N: '1764590700' },
+      },
+      ConditionExpression:
+        'attribute_not_exists(idempotency_key) OR expires_at < :now OR (#status = :inProgress AND locked_until < :now)',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':now': { N: '1764590400' }, ':inProgress': { S: 'IN_PROGRESS' } },
+      ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+    });
+  });
+
+  it('returns the completed response when the condition fails', async () => {
+    const send = vi.fn(async () => {
+      throw new ConditionalCheckFailedException({
+        message: 'exists',
+        $metadata: {},
+        Item: {
+          idempotency_key: { S: 'abc' },
+          status: { S: 'COMPLETED' },
+          response: { S: '{"statusCode":202,"body":"{}"}' },
+        },
+      });
+    });
+    const store = new DynamoDBIdempotencyStore('t', { client: { send } as any });
+
+    expect(await store.claim('abc', claimOptions())).toEqual({
+      status: 'completed',
+      response: { statusCode: 202, body: '{}' },
+    });
+  });
+
+  it('stores and returns the request fingerprint', async () => {
+    const send = vi.fn(async (_command: any) => {
+      if (send.mock.calls.length <= 2) {
+        return {};
+      }
+      throw new ConditionalCheckFailedException({
+        message: 'exists',
+        $metadata: {},
+        Item: { idempotency_key: { S: 'abc' }, status: { S: 'IN_PROGRESS' }, request_hash: { S: 'f1' } },
+      });
+    });
+    const store = new DynamoDBIdempotencyStore('t', { client: { send } as any });
+
+    await store.claim('abc', { ...claimOptions(), fingerprint: 'f1' });
+    await store.complete('abc', { statusCode: 202 }, new Date('2025-12-02T12:00:00Z'), 'f1');
+
+    expect(send.mock.calls[0][0].input.Item.request_hash).toEqual({ S: 'f1' });
+    expect(send.mock.calls[1][0].input.Item.request_hash).toEqual({ S: 'f1' });
+    expect(await store.claim('abc', claimOptions())).toEqual({ status: 'in_progress', fingerprint: 'f1' });
+  });
+
+  it('reports an in-progress claim', async () => {
+    const send = vi.fn(async () => {
+      throw new ConditionalCheckFailedException({
+        message: 'exists',
+        $metadata: {},
+        Item: { idempotency_key: { S: 'abc' }, status: { S: 'IN_PROGRESS' } },
+      });
+    });
+    const store = new DynamoDBIdempotencyStore('t', { client: { send } as any });
+
+    expect(await store.claim('abc', claimOptions())).toEqual({ status: 'in_progress' });
+  });
+
+  it('stores completed responses and releases only in-progress claims', async () => {
+    const send = vi.fn(async () => ({}));
+    const store = new DynamoDBIdempotencyStore('t', { client: { send } as any });
+
+    await store.complete('abc', { statusCode: 202 }, new Date('2025-12-02T12:00:00Z'));
+    await store.release('def');
+
+    const [complete, release] = send.mock.calls.map((call) => (call as any[])[0].input);
+    expect(complete.Item).toEqual({
+      idempotency_key: { S: 'abc' },
+      status: { S: 'COMPLETED' },
+      expires_at: { N: '1764676800' },
+      response: { S: '{"statusCode":202}' },
+    });
+    expect(release).toMatchObject({
+      Key: { idempotency_key: { S: 'def' } },
+      ConditionExpression: '#status = :inProgress',
+    });
+  });
+
+  it('ignores releases of completed keys', async () => {
+    const send = vi.fn(async () => {
+      throw new ConditionalCheckFailedException({ message: 'completed', $metadata: {} });
+    });
+    const store = new DynamoDBIdempotencyStore('t', { client: { send } as any });
+
+    await expect(store.release('abc')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createHash, createHmac } from 'crypto';
+import {
+  constantTimeEqual,
+  hashApiKey,
+  isKeyHash,
+  verifyKeyHash,
+} from '../src/key-hashing';
+
+describe('constantTimeEqual', () => {
+  it('returns true for identical strings', () => {
+    expect(constantTimeEqual('valid-shared-key-12345', 'valid-shared-key-12345')).toBe(true);
+  });
+
+  it('returns false for different strings of the same length', () => {
+    expect(constantTimeEqual('valid-shared-key-12345', 'valid-shared-key-12346')).toBe(false);
+  });
+
+  it('returns false for strings of different lengths without throwing', () => {
+    expect(constantTimeEqual('short', 'a-much-longer-key')).toBe(false);
+    expect(constantTimeEqual('', 'key')).toBe(false);
+  });
+});
+
+describe('hashApiKey', () => {
+  it('computes a salted SHA-256 digest by default', () => {
+    const hash = hashApiKey('my-key', { salt: 'pepper' });
+
+    expect(hash).toEqual({
+      algorithm: 'sha256',
+      salt: 'pepper',
+      digest: createHash('sha256').update('peppermy-key').digest('hex'),
+    });
+  });
+
+  it('computes an HMAC-SHA256 digest keyed by the salt', () => {
+    const hash = hashApiKey('my-key', { algorithm: 'hmac-sha256', salt: 'pepper' });
+
+    expect(hash.digest).toBe(createHmac('sha256', 'pepper').update('my-key').digest('hex'));
+  });
+
+  it('generates a random salt when none is given', () => {
+    const first = hashApiKey('my-key');
+    const second = hashApiKey('my-key');
+
+    expect(first.salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.digest).not.toBe(second.digest);
+  });
+});
+
+describe('verifyKeyHash', () => {
+  it.each(['sha256', 'hmac-sha256'] as const)('accepts the original key (%s)', (algorithm) => {
+    const hash = hashApiKey('my-key', { algorithm });
+    expect(verifyKeyHash('my-key', hash)).toBe(true);
+  });
+
+  it.each(['sha256', 'hmac-sha256'] as const)('rejects other keys (%s)', (algorithm) => {
+    const hash = hashApiKey('my-key', { algorithm });
+    expect(verifyKeyHash('my-key ', hash)).toBe(false);
+    expect(verifyKeyHash('other-key', hash)).toBe(false);
+  });
+
+  it('accepts upper-case hex digests', () => {
+    const hash = hashApiKey('my-key', { salt: 'pepper' });
+    expect(verifyKeyHash('my-key', { ...hash, digest: hash.digest.toUpperCase() })).toBe(true);
+  });
+});
+
+describe('isKeyHash', () => {
+  it('accepts well-formed digests', () => {
+    expect(isKeyHash(hashApiKey('my-key'))).toBe(true);
+  });
+
+  it('rejects unknown algorithms and malformed digests', () => {
+    const hash = hashApiKey('my-key');
+    expect(isKeyHash({ ...hash, algorithm: 'md5' })).toBe(false);
+    expect(isKeyHash({ ...hash, digest: 'abc123' })).toBe(false);
+    expect(isKeyHash({ ...hash, salt: 42 })).toBe(false);
+    expect(isKeyHash('sha256:abc')).toBe(false);
+    expect(isKeyHash(null)).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ALBEvent, APIGatewayProxyEvent } from 'aws-lambda';
+import { extractApiKey } from '../src/key-sources';
+
+function restEvent(
+  headers: Record<string, string>,
+  queryStringParameters: Record<string, string> | null = null
+): APIGatewayProxyEvent {
+  return { headers, queryStringParameters, requestContext: {} } as unknown as APIGatewayProxyEvent;
+}
+
+describe('extractApiKey', () => {
+  it('reads X-API-Key by default', () => {
+    expect(extractApiKey(restEvent({ 'X-API-KEY': ' abc ' }))).toEqual({
+      key: 'abc',
+      source: 'x-api-key',
+    });
+  });
+
+  it('falls back to a Bearer token by default', () => {
+    expect(extractApiKey(restEvent({ Authorization: 'Bearer abc' }))).toEqual({
+      key: 'abc',
+      source: 'bearer',
+    });
+  });
+
+  it('prefers X-API-Key over Bearer', () => {
+    const event = restEvent({ 'x-api-key': 'from-header', Authorization: 'Bearer from-bearer' });
+
+    expect(extractApiKey(event)?.source).toBe('x-api-key');
+  });
+
+  it('skips empty sources', () => {
+    const event = restEvent({ 'X-API-Key': '   ', Authorization: 'Bearer abc' });
+
+    expect(extractApiKey(event)).toEqual({ key: 'abc', source: 'bearer' });
+  });
+
+  it('ignores query parameters unless configured', () => {
+    expect(extractApiKey(restEvent({}, { api_key: 'abc' }))).toBeNull();
+  });
+
+  it('reads a configured query parameter', () => {
+    const event = restEvent({}, { api_key: 'abc' });
+
+    expect(extractApiKey(event, ['x-api-key', 'query:api_key'])).toEqual({
+      key: 'abc',
+      source: 'query:api_key',
+    });
+  });
+
+  it('decodes ALB query parameters', () => {
+    const event = {
+      headers: {},
+      queryStringParameters: { api_key: 'a%2Bb' },
+      requestContext: { elb: {} },
+    } as unknown as ALBEvent;
+
+    expect(extractApiKey(event, ['query:api_key'])?.key).toBe('a+b');
+  });
+
+  it('follows the configured order', () => {
+    const event = restEvent({ 'X-API-Key': 'from-header' }, { token: 'from-query' });
+
+    expect(extractApiKey(event, ['query:token', 'x-api-key'])?.key).toBe('from-query');
+  });
+
+  it('returns null when no source has a key', () => {
+    expect(extractApiKey(restEvent({}))).toBeNull();
+    expect(extractApiKey(restEvent({ 'X-API-Key': 'abc' }), ['bearer'])).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBNonceStore, InMemoryNonceStore } from '../src/nonce-store';
+
+const NOW = new Date('2025-12-01T12:00:00Z');
+const inFiveMinutes = () => new Date(Date.now() + 300_000);
+
+describe('InMemoryNonceStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('claims a nonce once', async () => {
+    const store = new InMemoryNonceStore();
+
+    expect(await store.claim('abc', inFiveMinutes())).toBe(true);
+    expect(await store.claim('abc', inFiveMinutes())).toBe(false);
+    expect(await store.claim('def', inFiveMinutes())).toBe(true);
+  });
+
+  it('allows a nonce again after it expires', async () => {
+    const store = new InMemoryNonceStore();
+
+    await store.claim('abc', inFiveMinutes());
+    vi.advanceTimersByTime(300_000);
+
+    expect(await store.claim('abc', inFiveMinutes())).toBe(true);
+  });
+
+  it('evicts the oldest nonces beyond the size limit', async () => {
+    const store = new InMemoryNonceStore(2);
+
+    await store.claim('first', inFiveMinutes());
+    await store.claim('second', inFiveMinutes());
+    await store.claim('third', inFiveMinutes());
+
+    expect(await store.claim('first', inFiveMinutes())).toBe(true);
+    expect(await store.claim('third', inFiveMinutes())).toBe(false);
+  });
+
+  it('allows a released nonce to be claimed again', async () => {
+    const store = new InMemoryNonceStore();
+
+    await store.claim('abc', inFiveMinutes());
+    await store.release('abc');
+
+    expect(await store.claim('abc', inFiveMinutes())).toBe(true);
+  });
+});
+
+describe('DynamoDBNonceStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('claims with a conditional put and TTL attribute', async () => {
+    const send = vi.fn(async () => ({}));
+    const store = new DynamoDBNonceStore('aviary-nonces-dev', { client: { send } as any });
+
+    expect(await store.claim('abc', new Date('2025-12-01T12:05:00Z'))).toBe(true);
+
+    const command = (send.mock.calls[0] as any[])[0];
+    expect(command.input).toEqual({
+      TableName: 'aviary-nonces-dev',
+      Item: {
+        nonce: { S: 'abc' },
+        expires_at: { N: '1764590700' },
+      },
+      ConditionExpression: 'attribute_not_exists(nonce) OR expires_at < :now',
+      ExpressionAttributeValues: { ':now': { N: '1764590400' } },
+    });
+  });
+
+  it('reports an already-claimed nonce when the condition fails', async () => {
+    const send = vi.fn(async () => {
+      throw new ConditionalCheckFailedException({ message: 'exists', $metadata: {} });
+    });
+    const store = new DynamoDBNonceStore('aviary-nonces-dev', { client: { send } as any });
+
+    expect(await store.claim('abc', inFiveMinutes())).toBe(false);
+  });
+
+  it('releases a nonce by deleting its item', async () => {
+    const send = vi.fn(async () => ({}));
+    const store = new DynamoDBNonceStore('aviary-nonces-dev', { client: { send } as any });
+
+    await store.release('abc');
+
+    expect((send.mock.calls[0] as any[])[0].input).toEqual({
+      TableName: 'aviary-nonces-dev',
+      Key: { nonce: { S: 'abc' } },
+    });
+  });
+
+  it('propagates other DynamoDB errors', async () => {
+    const send = vi.fn(async () => {
+      throw new Error('ProvisionedThroughputExceededException');
+    });
+    const store = new DynamoDBNonceStore('aviary-nonces-dev', { client: { send } as any });
+
+    await expect(store.claim('abc', inFiveMinutes())).rejects.toThrow(
+      'ProvisionedThroughputExceededException'
+    );
+  });
+});
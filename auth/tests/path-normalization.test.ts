@@ -3,6 +3,7 @@ import {
   normalizeApiPath,
   extractApiVersion,
   isValidApiVersion,
+  matchPathTemplate,
 } from '../src/path-normalization';
 
 describe('normalizeApiPath', () => {
@@ -162,6 +163,11 @@ describe('extractApiVersion', () => {
     expect(extractApiVersion('/')).toBeNull();
   });
 
+  it('extracts a bare version path', () => {
+    expect(extractApiVersion('/v1')).toBe('v1');
+    expect(extractApiVersion('/v2/')).toBe('v2');
+  });
+
   it('returns null for version not at start', () => {
     expect(extractApiVersion('/api/v1/test')).toBeNull();
     expect(extractApiVersion('/service/v1/test')).toBeNull();
@@ -206,4 +212,57 @@ describe('isValidApiVersion', () => {
       expect(isValidApiVersion('/health', 'v2')).toBe(true);
     });
   });
+
+  describe('with a list of accepted versions', () => {
+    it('accepts any listed version', () => {
+      expect(isValidApiVersion('/v1/mix/jobs', ['v1', 'v2'])).toBe(true);
+      expect(isValidApiVersion('/v2/mix/jobs', ['v1', 'v2'])).toBe(true);
+      expect(isValidApiVersion('/v3/mix/jobs', ['v1', 'v2'])).toBe(false);
+    });
+
+    it('checks bare version paths', () => {
+      expect(isValidApiVersion('/v3', ['v1', 'v2'])).toBe(false);
+    });
+  });
+});
+
+describe('matchPathTemplate', () => {
+  it('matches static paths', () => {
+    expect(matchPathTemplate('/v1/mix/jobs', '/v1/mix/jobs')).toEqual({});
+    expect(matchPathTemplate('/health', '/health')).toEqual({});
+  });
+
+  it('extracts path parameters', () => {
+    expect(matchPathTemplate('/v1/mix/jobs/{id}', '/v1/mix/jobs/job_123')).toEqual({
+      id: 'job_123',
+    });
+    expect(
+      matchPathTemplate('/v1/feeds/{feedId}/items/{itemId}', '/v1/feeds/f1/items/i2')
+    ).toEqual({ feedId: 'f1', itemId: 'i2' });
+  });
+
+  it('decodes percent-encoded parameters', () => {
+    expect(matchPathTemplate('/v1/files/{name}', '/v1/files/a%20b.mp3')).toEqual({
+      name: 'a b.mp3',
+    });
+  });
+
+  it('ignores trailing slashes', () => {
+    expect(matchPathTemplate('/v1/mix/jobs/{id}', '/v1/mix/jobs/job_123/')).toEqual({
+      id: 'job_123',
+    });
+  });
+
+  it('returns null for different segment counts', () => {
+    expect(matchPathTemplate('/v1/mix/jobs/{id}', '/v1/mix/jobs')).toBeNull();
+    expect(matchPathTemplate('/v1/mix/jobs', '/v1/mix/jobs/job_123')).toBeNull();
+  });
+
+  it('returns null for mismatched static segments', () => {
+    expect(matchPathTemplate('/v1/mix/jobs/{id}', '/v1/tts/jobs/job_123')).toBeNull();
+  });
+
+  it('returns null for malformed percent-encoding', () => {
+    expect(matchPathTemplate('/v1/files/{name}', '/v1/files/%E0%A4%A')).toBeNull();
+  });
 });
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2, Context } from 'aws-lambda';
+import { fail, ok, withErrorHandling } from '../src/responses';
+import { NotFoundError, RateLimitError } from '../src/errors';
+
+const NOW = new Date('2025-12-01T12:00:00Z');
+const context = { awsRequestId: 'req_01ABC' } as Context;
+
+describe('ok', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('builds the success envelope', () => {
+    const response = ok({ id: 'job_1' }, { context, version: 'v1.2.0' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(JSON.parse(response.body!)).toEqual({
+      success: true,
+      data: { id: 'job_1' },
+      meta: { timestamp: '2025-12-01T12:00:00.000Z', version: 'v1.2.0', request_id: 'req_01ABC' },
+    });
+  });
+
+  it('reads the version from SERVICE_VERSION', () => {
+    vi.stubEnv('SERVICE_VERSION', '2.0.0');
+
+    expect(JSON.parse(ok(null).body!).meta).toEqual({
+      timestamp: '2025-12-01T12:00:00.000Z',
+      version: '2.0.0',
+    });
+  });
+
+  it('accepts a status code and extra headers', () => {
+    const response = ok({}, { statusCode: 202, headers: { Location: '/v1/jobs/1' } });
+
+    expect(response.statusCode).toBe(202);
+    expect(response.headers?.Location).toBe('/v1/jobs/1');
+  });
+});
+
+describe('fail', () => {
+  it('builds the error envelope with error headers', () => {
+    const response = fail(new RateLimitError(60), { context });
+
+    expect(response.statusCode).toBe(429);
+    expect(response.headers).toEqual({ 'Content-Type': 'application/json', 'Retry-After': '60' });
+    expect(JSON.parse(response.body!)).toEqual({
+      success: false,
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Rate limit exceeded. Try again in 60 seconds.',
+        retry_after: 60,
+      },
+      meta: { timestamp: expect.any(String), request_id: 'req_01ABC' },
+    });
+  });
+
+  it('hides unknown errors behind INTERNAL_ERROR', () => {
+    const response = fail(new Error('connection string leaked'));
+
+    expect(response.statusCode).toBe(500);
+    expect(JSON.parse(response.body!).error).toEqual({
+      code: 'INTERNAL_ERROR',
+      message: 'Internal server error',
+    });
+  });
+});
+
+describe('withErrorHandling', () => {
+  const restEvent = { headers: {}, requestContext: {} } as unknown as APIGatewayProxyEvent;
+
+  it('returns the handler response in the event source shape', async () => {
+    const handler = withErrorHandling(async () => ok({ a: 1 }));
+    const event = { version: '2.0', headers: {}, requestContext: {} } as unknown as APIGatewayProxyEventV2;
+
+    const result = await handler(event, context);
+
+    expect(result).toMatchObject({ statusCode: 200, isBase64Encoded: false });
+  });
+
+  it('maps thrown ApiErrors to their status and envelope', async () => {
+    const handler = withErrorHandling(async () => {
+      throw new NotFoundError('Job job_1 not found');
+    });
+
+    const result = await handler(restEvent, context);
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body!).error).toEqual({
+      code: 'RESOURCE_NOT_FOUND',
+      message: 'Job job_1 not found',
+    });
+    expect(JSON.parse(result.body!).meta.request_id).toBe('req_01ABC');
+  });
+
+  it('logs and maps unknown errors to 500', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = withErrorHandling(async () => {
+      throw new TypeError('undefined is not a function');
+    });
+
+    const result = await handler(restEvent, context);
+
+    expect(result.statusCode).toBe(500);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,383 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { APIGatewayProxyEvent, APIGatewayProxyEventV2, Context } from 'aws-lambda';
+import { Router } from '../src/router';
+import { VersionPolicy } from '../src/versioning';
+import { NotFoundError } from '../src/errors';
+import { SecretCache } from '../src/secret-cache';
+import { ClientRegistry } from '../src/client-registry';
+import { hashApiKey } from '../src/key-hashing';
+
+const context = { awsRequestId: 'req_123' } as Context;
+
+function restEvent(
+  method: string,
+  path: string,
+  headers: Record<string, string> = {}
+): APIGatewayProxyEvent {
+  return {
+    httpMethod: method,
+    path,
+    headers,
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    body: null,
+    isBase64Encoded: false,
+    requestContext: {},
+  } as unknown as APIGatewayProxyEvent;
+}
+
+function parse(result: any) {
+  return JSON.parse(result.body);
+}
+
+describe('Router', () => {
+  let cache: SecretCache;
+
+  beforeEach(() => {
+    cache = new SecretCache(async () => JSON.stringify({ AVIARY_SHARED_API_KEY: 'valid-key' }), {
+      minRefreshIntervalMs: 0,
+    });
+  });
+
+  describe('routing', () => {
+    it('strips the service prefix and extracts path params', async () => {
+      const handler = vi.fn(async () => ({ statusCode: 200, body: 'ok' }));
+      const router = new Router({ servicePrefix: 'nightingale' }).get('/v1/mix/jobs/{id}', handler);
+
+      const result = await router.handle(restEvent('GET', '/nightingale/v1/mix/jobs/job_42'), context);
+
+      expect(result.statusCode).toBe(200);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'GET',
+          path: '/v1/mix/jobs/job_42',
+          route: '/v1/mix/jobs/{id}',
+          params: { id: 'job_42' },
+          context,
+        })
+      );
+    });
+
+    it('passes decoded query parameters', async () => {
+      const handler = vi.fn(() => ({ statusCode: 200 }));
+      const router = new Router({ servicePrefix: 'condor' }).get('/v1/tts/jobs', handler);
+      const event = restEvent('GET', '/v1/tts/jobs');
+      event.queryStringParameters = { limit: '10' };
+
+      await router.handle(event);
+
+      expect(handler.mock.calls[0][0].query).toEqual({ limit: '10' });
+    });
+
+    it('prefers static segments over params', async () => {
+      const stats = vi.fn(() => ({ statusCode: 200, body: 'stats' }));
+      const byId = vi.fn(() => ({ statusCode: 200, body: 'job' }));
+      const router = new Router({ servicePrefix: 'condor' })
+        .get('/v1/jobs/{id}', byId)
+        .get('/v1/jobs/stats', stats);
+
+      const result = await router.handle(restEvent('GET', '/v1/jobs/stats'));
+
+      expect(result.body).toBe('stats');
+      expect(byId).not.toHaveBeenCalled();
+    });
+
+    it('routes HTTP API events by rawPath', async () => {
+      const router = new Router({ servicePrefix: 'condor' }).post('/v1/tts/jobs', () => ({
+        statusCode: 202,
+      }));
+      const event = {
+        version: '2.0',
+        rawPath: '/condor/v1/tts/jobs',
+        headers: {},
+        requestContext: { http: { method: 'POST' } },
+      } as unknown as APIGatewayProxyEventV2;
+
+      const result = await router.handle(event);
+
+      expect(result.statusCode).toBe(202);
+    });
+  });
+
+  describe('errors', () => {
+    it('returns 404 in the standard error format', async () => {
+      const router = new Router({ servicePrefix: 'condor' }).get('/v1/tts/jobs', () => ({
+        statusCode: 200,
+      }));
+
+      const result = await router.handle(restEvent('GET', '/v1/unknown'), context);
+
+      expect(result.statusCode).toBe(404);
+      expect(parse(result)).toEqual({
+        success: false,
+        error: { code: 'RESOURCE_NOT_FOUND', message: 'No route for GET /v1/unknown' },
+        meta: { timestamp: expect.any(String), request_id: 'req_123' },
+      });
+    });
+
+    it('returns 405 with an Allow header for unregistered methods', async () => {
+      const noop = () => ({ statusCode: 200 });
+      const router = new Router({ servicePrefix: 'condor' })
+        .get('/v1/tts/jobs', noop)
+        .post('/v1/tts/jobs', noop);
+
+      const result = await router.handle(restEvent('DELETE', '/v1/tts/jobs'));
+
+      expect(result.statusCode).toBe(405);
+      expect(result.headers?.Allow).toBe('GET, POST');
+      expect(parse(result).error.code).toBe('METHOD_NOT_ALLOWED');
+    });
+
+    it('rejects unsupported API versions', async () => {
+      const router = new Router({ servicePrefix: 'condor' }).get('/v2/tts/jobs', () => ({
+        statusCode: 200,
+      }));
+
+      const result = await router.handle(restEvent('GET', '/v2/tts/jobs'));
+
+      expect(result.statusCode).toBe(404);
+      expect(parse(result).error.message).toBe('API version v2 is not supported');
+    });
+
+    it('allows non-versioned paths', async () => {
+      const router = new Router({ servicePrefix: 'condor' }).get('/health', () => ({
+        statusCode: 200,
+      }));
+
+      expect((await router.handle(restEvent('GET', '/condor/health'))).statusCode).toBe(200);
+    });
+
+    it('maps ApiErrors thrown by handlers', async () => {
+      const router = new Router({ servicePrefix: 'condor' }).get('/v1/jobs/{id}', ({ params }) => {
+        throw new NotFoundError(`Job ${params.id} not found`);
+      });
+
+      const result = await router.handle(restEvent('GET', '/v1/jobs/job_9'));
+
+      expect(result.statusCode).toBe(404);
+      expect(parse(result).error).toEqual({ code: 'RESOURCE_NOT_FOUND', message: 'Job job_9 not found' });
+    });
+
+    it('turns handler exceptions into 500 INTERNAL_ERROR', async () => {
+      const router = new Router({ servicePrefix: 'condor' }).get('/v1/boom', () => {
+        throw new Error('boom');
+      });
+
+      const result = await router.handle(restEvent('GET', '/v1/boom'));
+
+      expect(result.statusCode).toBe(500);
+      expect(parse(result).error).toEqual({ code: 'INTERNAL_ERROR', message: 'Internal server error' });
+    });
+  });
+
+  describe('version policy', () => {
+    const version = new VersionPolicy({
+      supported: ['v2'],
+      deprecated: { v1: { sunset: '2026-06-30T00:00:00Z', link: 'https://docs.example.com/v2' } },
+      removed: ['v0'],
+    });
+    const ok = () => ({ statusCode: 200, headers: { 'Content-Type': 'application/json' } });
+
+    it('serves v1 and v2 side by side', async () => {
+      const router = new Router({ servicePrefix: 'condor', version })
+        .get('/v1/tts/jobs', ok)
+        .get('/v2/tts/jobs', ok);
+
+      expect((await router.handle(restEvent('GET', '/v1/tts/jobs'))).statusCode).toBe(200);
+      expect((await router.handle(restEvent('GET', '/v2/tts/jobs'))).statusCode).toBe(200);
+    });
+
+    it('adds deprecation headers to deprecated version responses', async () => {
+      const router = new Router({ servicePrefix: 'condor', version })
+        .get('/v1/tts/jobs', ok)
+        .get('/v2/tts/jobs', ok);
+
+      const deprecated = await router.handle(restEvent('GET', '/v1/tts/jobs'));
+      const current = await router.handle(restEvent('GET', '/v2/tts/jobs'));
+      const notFound = await router.handle(restEvent('GET', '/v1/unknown'));
+
+      expect(deprecated.headers).toEqual({
+        'Content-Type': 'application/json',
+        Deprecation: 'true',
+        Sunset: 'Tue, 30 Jun 2026 00:00:00 GMT',
+        Link: '<https://docs.example.com/v2>; rel="deprecation"',
+      });
+      expect(current.headers?.Deprecation).toBeUndefined();
+      expect(notFound.headers?.Deprecation).toBe('true');
+    });
+
+    it('returns 410 for removed versions', async () => {
+      const router = new Router({ servicePrefix: 'condor', version }).get('/v0/tts/jobs', ok);
+
+      const result = await router.handle(restEvent('GET', '/condor/v0/tts/jobs'), context);
+
+      expect(result.statusCode).toBe(410);
+      expect(parse(result)).toEqual({
+        success: false,
+        error: { code: 'API_VERSION_REMOVED', message: 'API version v0 has been removed' },
+        meta: { timestamp: expect.any(String), request_id: 'req_123' },
+      });
+    });
+
+    it('rejects a bare unknown version path', async () => {
+      const router = new Router({ servicePrefix: 'condor' }).get('/v1', ok);
+
+      expect((await router.handle(restEvent('GET', '/v1'))).statusCode).toBe(200);
+      expect((await router.handle(restEvent('GET', '/v3'))).statusCode).toBe(404);
+    });
+  });
+
+  describe('auth', () => {
+    it('requires auth by default when auth settings are given', async () => {
+      const router = new Router({
+        servicePrefix: 'condor',
+        auth: { secretPath: '/aviary/shared/api-key', cache },
+      }).get('/v1/tts/jobs', ({ auth }) => ({ statusCode: 200, body: auth?.method }));
+
+      const denied = await router.handle(restEvent('GET', '/v1/tts/jobs'));
+      const allowed = await router.handle(
+        restEvent('GET', '/v1/tts/jobs', { 'x-api-key': 'valid-key' })
+      );
+
+      expect(denied.statusCode).toBe(401);
+      expect(parse(denied).error.code).toBe('AUTHENTICATION_ERROR');
+      expect(allowed.statusCode).toBe(200);
+      expect(allowed.body).toBe('shared-key');
+    });
+
+    it('lets routes opt out of auth', async () => {
+      const router = new Router({
+        servicePrefix: 'condor',
+        auth: { secretPath: '/aviary/shared/api-key', cache },
+      }).get('/health', () => ({ statusCode: 200 }), { auth: false });
+
+      expect((await router.handle(restEvent('GET', '/health'))).statusCode).toBe(200);
+    });
+
+    it('enforces route scopes for client keys', async () => {
+      const clientRegistry: ClientRegistry = {
+        getClient: vi.fn(async () => ({
+          keyId: 'ak_reader',
+          clientId: 'reader',
+          clientName: 'Reader',
+          services: ['condor'],
+          scopes: ['tts:read'],
+          hash: hashApiKey('secret'),
+        })),
+      };
+      const router = new Router({
+        servicePrefix: 'condor',
+        auth: { secretPath: '/aviary/shared/api-key', cache, clientRegistry },
+      })
+        .get('/v1/tts/jobs', () => ({ statusCode: 200 }), { auth: { scope: 'tts:read' } })
+        .post('/v1/tts/jobs', () => ({ statusCode: 202 }), { auth: { scope: 'tts:write' } });
+      const headers = { 'X-API-Key': 'ak_reader.secret' };
+
+      const read = await router.handle(restEvent('GET', '/v1/tts/jobs', headers));
+      const write = await router.handle(restEvent('POST', '/v1/tts/jobs', headers));
+
+      expect(read.statusCode).toBe(200);
+      expect(write.statusCode).toBe(403);
+      expect(parse(write).error).toEqual({
+        code: 'AUTHORIZATION_ERROR',
+        message: 'Missing required scope tts:write',
+      });
+    });
+
+    it('does not run auth for unmatched routes', async () => {
+      const fetcher = vi.fn(async () => JSON.stringify({ AVIARY_SHARED_API_KEY: 'valid-key' }));
+      const router = new Router({
+        servicePrefix: 'condor',
+        auth: { secretPath: '/aviary/shared/api-key', cache: new SecretCache(fetcher) },
+      }).get('/v1/tts/jobs', () => ({ statusCode: 200 }));
+
+      await router.handle(restEvent('GET', '/v1/other', { 'x-api-key': 'valid-key' }));
+
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it('refuses auth routes without auth settings', () => {
+      expect(() =>
+        new Router({ servicePrefix: 'condor' }).get('/v1/a', () => ({ statusCode: 200 }), {
+          auth: true,
+        })
+      ).toThrow('requires auth');
+    });
+  });
+
+  describe('validation', () => {
+    const createJob = {
+      type: 'object',
+      required: ['text'],
+      properties: { text: { type: 'string', minLength: 1 }, priority: { type: 'integer' } },
+    } as const;
+
+    it('passes validated body, query and params to the handler', async () => {
+      const handler = vi.fn(async () => ({ statusCode: 202 }));
+      const router = new Router({ servicePrefix: 'condor' }).post('/v1/tts/{voice}/jobs', handler, {
+        validate: {
+          body: createJob,
+          query: { type: 'object', properties: { dryRun: { type: 'boolean' } } },
+          params: { type: 'object', properties: { voice: { type: 'string', enum: ['alto', 'bass'] } } },
+        },
+      });
+      const event = {
+        ...restEvent('POST', '/condor/v1/tts/alto/jobs'),
+        queryStringParameters: { dryRun: 'true' },
+        body: JSON.stringify({ text: 'hello', priority: 2 }),
+      };
+
+      const result = await router.handle(event, context);
+
+      expect(result.statusCode).toBe(202);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: { dryRun: 'true' },
+          validated: {
+            body: { text: 'hello', priority: 2 },
+            query: { dryRun: true },
+            params: { voice: 'alto' },
+          },
+        })
+      );
+    });
+
+    it('returns VALIDATION_ERROR with per-field details', async () => {
+      const handler = vi.fn(async () => ({ statusCode: 202 }));
+      const router = new Router({ servicePrefix: 'condor' }).post('/v1/tts/jobs', handler, {
+        validate: { body: createJob },
+      });
+      const event = { ...restEvent('POST', '/v1/tts/jobs'), body: JSON.stringify({ priority: 'high' }) };
+
+      const result = await router.handle(event, context);
+
+      expect(result.statusCode).toBe(400);
+      expect(parse(result).error).toEqual({
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid input provided',
+        details: {
+          location: 'body',
+          field: 'text',
+          reason: 'Required',
+          fields: [
+            { location: 'body', field: 'text', reason: 'Required' },
+            { location: 'body', field: 'priority', reason: 'Expected integer' },
+          ],
+        },
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('checks auth before validation', async () => {
+      const router = new Router({
+        servicePrefix: 'condor',
+        auth: { secretPath: '/aviary/shared/api-key', cache },
+      }).post('/v1/tts/jobs', () => ({ statusCode: 202 }), { validate: { body: createJob } });
+
+      const result = await router.handle(restEvent('POST', '/v1/tts/jobs'), context);
+
+      expect(result.statusCode).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { checkRouteScope, hasScope, scopeSatisfies } from '../src/scopes';
+import { AuthResult } from '../src/authorize';
+
+const clientResult: AuthResult = {
+  authorized: true,
+  method: 'client-key',
+  clientId: 'airtable-briefly',
+  scopes: ['tts:write', 'mix:*'],
+};
+
+const sharedResult: AuthResult = { authorized: true, method: 'shared-key', keySlot: 'current' };
+const deniedResult: AuthResult = { authorized: false, method: 'none' };
+
+describe('scopeSatisfies', () => {
+  it('matches exact scopes', () => {
+    expect(scopeSatisfies(['tts:write'], 'tts:write')).toBe(true);
+    expect(scopeSatisfies(['tts:write'], 'tts:read')).toBe(false);
+  });
+
+  it('matches resource wildcards', () => {
+    expect(scopeSatisfies(['mix:*'], 'mix:read')).toBe(true);
+    expect(scopeSatisfies(['mix:*'], 'tts:read')).toBe(false);
+  });
+
+  it('matches the global wildcard', () => {
+    expect(scopeSatisfies(['*'], 'anything:write')).toBe(true);
+  });
+
+  it('does not match with no granted scopes', () => {
+    expect(scopeSatisfies([], 'tts:write')).toBe(false);
+  });
+});
+
+describe('hasScope', () => {
+  it('checks client scopes', () => {
+    expect(hasScope(clientResult, 'tts:write')).toBe(true);
+    expect(hasScope(clientResult, 'mix:read')).toBe(true);
+    expect(hasScope(clientResult, 'tts:read')).toBe(false);
+  });
+
+  it('grants every scope to the shared key', () => {
+    expect(hasScope(sharedResult, 'tts:read')).toBe(true);
+  });
+
+  it('grants nothing to unauthorized requests', () => {
+    expect(hasScope(deniedResult, 'tts:read')).toBe(false);
+    expect(hasScope({ ...clientResult, authorized: false }, 'tts:write')).toBe(false);
+  });
+});
+
+describe('checkRouteScope', () => {
+  const rules = [
+    { method: 'POST', path: '/v1/tts/jobs', scope: 'tts:write' },
+    { method: 'GET', path: '/v1/tts/jobs/{id}', scope: 'tts:read' },
+    { method: '*', path: '/v1/mix/jobs/{id}', scope: 'mix:write' },
+  ];
+
+  it('allows routes whose scope the client holds', () => {
+    expect(checkRouteScope(clientResult, 'POST', '/v1/tts/jobs', rules)).toEqual({
+      allowed: true,
+      requiredScope: 'tts:write',
+    });
+  });
+
+  it('denies routes whose scope the client lacks', () => {
+    expect(checkRouteScope(clientResult, 'GET', '/v1/tts/jobs/tts_123', rules)).toEqual({
+      allowed: false,
+      requiredScope: 'tts:read',
+    });
+  });
+
+  it('matches methods case-insensitively and wildcard methods', () => {
+    expect(checkRouteScope(clientResult, 'post', '/v1/tts/jobs', rules).allowed).toBe(true);
+    expect(checkRouteScope(clientResult, 'DELETE', '/v1/mix/jobs/job_1', rules)).toEqual({
+      allowed: true,
+      requiredScope: 'mix:write',
+    });
+  });
+
+  it('requires no scope for routes without a rule', () => {
+    expect(checkRouteScope(clientResult, 'GET', '/health', rules)).toEqual({
+      allowed: true,
+      requiredScope: null,
+    });
+    expect(checkRouteScope(deniedResult, 'GET', '/health', rules).allowed).toBe(false);
+  });
+});
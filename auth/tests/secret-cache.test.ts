@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SecretCache } from '../src/secret-cache';
+
+describe('SecretCache', () => {
+  let fetcher: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-12-01T00:00:00Z'));
+    fetcher = vi.fn(async (secretPath: string) => `value-for-${secretPath}`);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('TTL', () => {
+    it('serves repeated lookups from memory within the TTL', async () => {
+      const cache = new SecretCache(fetcher, { ttlMs: 60_000 });
+
+      expect(await cache.get('/aviary/shared/api-key')).toBe('value-for-/aviary/shared/api-key');
+      expect(await cache.get('/aviary/shared/api-key')).toBe('value-for-/aviary/shared/api-key');
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1, refreshes: 0 });
+    });
+
+    it('re-fetches once the TTL has elapsed', async () => {
+      const cache = new SecretCache(fetcher, { ttlMs: 60_000 });
+
+      await cache.get('/aviary/shared/api-key');
+      vi.advanceTimersByTime(60_000);
+      await cache.get('/aviary/shared/api-key');
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(cache.getStats()).toEqual({ hits: 0, misses: 2, refreshes: 0 });
+    });
+
+    it('caches each secret path separately', async () => {
+      const cache = new SecretCache(fetcher);
+
+      await cache.get('/aviary/shared/api-key');
+      await cache.get('/aviary/condor/service');
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('caches secrets without a string value', async () => {
+      fetcher.mockResolvedValue(null);
+      const cache = new SecretCache(fetcher);
+
+      expect(await cache.get('/aviary/binary/secret')).toBeNull();
+      expect(await cache.get('/aviary/binary/secret')).toBeNull();
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('expires null values after missTtlMs', async () => {
+      fetcher.mockResolvedValue(null);
+      const cache = new SecretCache(fetcher, { ttlMs: 60_000, missTtlMs: 5_000 });
+
+      await cache.get('ak_unknown');
+      vi.advanceTimersByTime(4_999);
+      await cache.get('ak_unknown');
+      vi.advanceTimersByTime(1);
+      await cache.get('ak_unknown');
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('maxEntries', () => {
+    it('evicts the least recently used entry', async () => {
+      const cache = new SecretCache(fetcher, { maxEntries: 2 });
+
+      await cache.get('a');
+      await cache.get('b');
+      await cache.get('a');
+      await cache.get('c');
+      fetcher.mockClear();
+
+      await cache.get('a');
+      await cache.get('c');
+      expect(fetcher).not.toHaveBeenCalled();
+
+      await cache.get('b');
+      expect(fetcher).toHaveBeenCalledWith('b');
+    });
+  });
+
+  describe('single-flight', () => {
+    it('shares one fetch between concurrent lookups', async () => {
+      let resolveFetch: (value: string) => void = () => undefined;
+      fetcher.mockImplementation(
+        () => new Promise<string>((resolve) => { resolveFetch = resolve; })
+      );
+      const cache = new SecretCache(fetcher);
+
+      const lookups = Promise.all([
+        cache.get('/aviary/shared/api-key'),
+        cache.get('/aviary/shared/api-key'),
+        cache.get('/aviary/shared/api-key'),
+      ]);
+      resolveFetch('shared-value');
+
+      expect(await lookups).toEqual(['shared-value', 'shared-value', 'shared-value']);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(cache.getStats()).toEqual({ hits: 2, misses: 1, refreshes: 0 });
+    });
+
+    it('rejects every waiter when the shared fetch fails and does not cache the failure', async () => {
+      fetcher.mockRejectedValueOnce(new Error('ThrottlingException'));
+      const cache = new SecretCache(fetcher);
+
+      const results = await Promise.allSettled([
+        cache.get('/aviary/shared/api-key'),
+        cache.get('/aviary/shared/api-key'),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+      expect(await cache.get('/aviary/shared/api-key')).toBe('value-for-/aviary/shared/api-key');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('forced refresh', () => {
+    it('re-fetches a cached entry when forced', async () => {
+      const cache = new SecretCache(fetcher, { minRefreshIntervalMs: 1000 });
+
+      await cache.get('/aviary/shared/api-key');
+      vi.advanceTimersByTime(1000);
+      fetcher.mockResolvedValueOnce('rotated-value');
+
+      expect(await cache.get('/aviary/shared/api-key', { forceRefresh: true })).toBe('rotated-value');
+      expect(await cache.get('/aviary/shared/api-key')).toBe('rotated-value');
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 2, refreshes: 1 });
+    });
+
+    it('ignores forced refreshes within the minimum refresh interval', async () => {
+      const cache = new SecretCache(fetcher, { minRefreshIntervalMs: 1000 });
+
+      await cache.get('/aviary/shared/api-key');
+      vi.advanceTimersByTime(500);
+      await cache.get('/aviary/shared/api-key', { forceRefresh: true });
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1, refreshes: 0 });
+    });
+  });
+
+  describe('invalidate and stats', () => {
+    it('drops a single cached path', async () => {
+      const cache = new SecretCache(fetcher);
+
+      await cache.get('/aviary/shared/api-key');
+      await cache.get('/aviary/condor/service');
+      cache.invalidate('/aviary/shared/api-key');
+      await cache.get('/aviary/shared/api-key');
+      await cache.get('/aviary/condor/service');
+
+      expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+
+    it('drops every cached path when called without arguments', async () => {
+      const cache = new SecretCache(fetcher);
+
+      await cache.get('/aviary/shared/api-key');
+      cache.invalidate();
+      await cache.get('/aviary/shared/api-key');
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('resets counters without dropping entries', async () => {
+      const cache = new SecretCache(fetcher);
+
+      await cache.get('/aviary/shared/api-key');
+      cache.resetStats();
+      await cache.get('/aviary/shared/api-key');
+
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 0, refreshes: 0 });
+    });
+  });
+});
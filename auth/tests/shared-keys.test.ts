@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSharedKeySet,
+  matchSharedKey,
+  isKeyExpired,
+} from '../src/shared-keys';
+import { hashApiKey } from '../src/key-hashing';
+
+const NOW = new Date('2025-12-01T00:00:00Z');
+
+describe('parseSharedKeySet', () => {
+  it('parses a plain string as the current key', () => {
+    expect(parseSharedKeySet('abc')).toEqual({
+      current: { key: 'abc' },
+      previous: [],
+    });
+  });
+
+  it('parses a key set object', () => {
+    expect(
+      parseSharedKeySet({
+        current: 'new-key',
+        previous: [
+          { key: 'old-key', expiresAt: '2026-01-31T00:00:00Z' },
+          'older-key',
+        ],
+      })
+    ).toEqual({
+      current: { key: 'new-key' },
+      previous: [
+        { key: 'old-key', expiresAt: '2026-01-31T00:00:00Z' },
+        { key: 'older-key' },
+      ],
+    });
+  });
+
+  it('parses a JSON-encoded key set string', () => {
+    const raw = JSON.stringify({
+      current: { key: 'new-key', expiresAt: '2027-01-01T00:00:00Z' },
+      previous: [{ key: 'old-key' }],
+    });
+
+    expect(parseSharedKeySet(raw)).toEqual({
+      current: { key: 'new-key', expiresAt: '2027-01-01T00:00:00Z' },
+      previous: [{ key: 'old-key' }],
+    });
+  });
+
+  it('treats a string that only looks like JSON as a plain key', () => {
+    expect(parseSharedKeySet('{not-json')).toEqual({
+      current: { key: '{not-json' },
+      previous: [],
+    });
+  });
+
+  it('drops malformed previous entries', () => {
+    expect(
+      parseSharedKeySet({ current: 'k', previous: [null, 42, { key: '' }, { expiresAt: 'x' }] })
+    ).toEqual({ current: { key: 'k' }, previous: [] });
+  });
+
+  it('parses hashed entries', () => {
+    const hash = hashApiKey('new-key', { salt: 'pepper' });
+
+    expect(
+      parseSharedKeySet({ current: { hash, expiresAt: '2027-01-01T00:00:00Z' } })
+    ).toEqual({
+      current: { hash, expiresAt: '2027-01-01T00:00:00Z' },
+      previous: [],
+    });
+  });
+
+  it('drops entries with malformed hashes', () => {
+    expect(
+      parseSharedKeySet({ current: { hash: { algorithm: 'md5', salt: 's', digest: 'x' } } })
+    ).toBeNull();
+  });
+
+  it('accepts a key set with only previous keys', () => {
+    expect(parseSharedKeySet({ previous: ['old-key'] })).toEqual({
+      current: null,
+      previous: [{ key: 'old-key' }],
+    });
+  });
+
+  it('returns null when no usable key is present', () => {
+    expect(parseSharedKeySet(null)).toBeNull();
+    expect(parseSharedKeySet('')).toBeNull();
+    expect(parseSharedKeySet(42)).toBeNull();
+    expect(parseSharedKeySet({})).toBeNull();
+    expect(parseSharedKeySet({ current: '', previous: [] })).toBeNull();
+  });
+});
+
+describe('isKeyExpired', () => {
+  it('never expires keys without an expiry', () => {
+    expect(isKeyExpired({ key: 'k' }, NOW)).toBe(false);
+  });
+
+  it('compares the expiry against the reference time', () => {
+    expect(isKeyExpired({ key: 'k', expiresAt: '2025-12-02T00:00:00Z' }, NOW)).toBe(false);
+    expect(isKeyExpired({ key: 'k', expiresAt: '2025-12-01T00:00:00Z' }, NOW)).toBe(true);
+    expect(isKeyExpired({ key: 'k', expiresAt: '2025-11-30T00:00:00Z' }, NOW)).toBe(true);
+  });
+
+  it('treats unparseable expiry timestamps as expired', () => {
+    expect(isKeyExpired({ key: 'k', expiresAt: 'next tuesday' }, NOW)).toBe(true);
+  });
+});
+
+describe('matchSharedKey', () => {
+  const keySet = {
+    current: { key: 'new-key' },
+    previous: [
+      { key: 'old-key', expiresAt: '2026-01-31T00:00:00Z' },
+      { key: 'expired-key', expiresAt: '2025-11-01T00:00:00Z' },
+      { key: 'oldest-key' },
+    ],
+  };
+
+  it('matches the current key', () => {
+    expect(matchSharedKey('new-key', keySet, NOW)).toBe('current');
+  });
+
+  it('matches previous keys by index', () => {
+    expect(matchSharedKey('old-key', keySet, NOW)).toBe('previous-0');
+    expect(matchSharedKey('oldest-key', keySet, NOW)).toBe('previous-2');
+  });
+
+  it('rejects expired previous keys', () => {
+    expect(matchSharedKey('expired-key', keySet, NOW)).toBeNull();
+  });
+
+  it('rejects an expired current key', () => {
+    const expiredCurrent = {
+      current: { key: 'new-key', expiresAt: '2025-01-01T00:00:00Z' },
+      previous: [],
+    };
+    expect(matchSharedKey('new-key', expiredCurrent, NOW)).toBeNull();
+  });
+
+  it('rejects unknown keys', () => {
+    expect(matchSharedKey('unknown-key', keySet, NOW)).toBeNull();
+  });
+
+  it('matches hashed entries alongside plaintext ones', () => {
+    const hashedKeySet = {
+      current: { hash: hashApiKey('new-key', { algorithm: 'hmac-sha256' as const }) },
+      previous: [{ key: 'old-key' }, { hash: hashApiKey('older-key') }],
+    };
+
+    expect(matchSharedKey('new-key', hashedKeySet, NOW)).toBe('current');
+    expect(matchSharedKey('old-key', hashedKeySet, NOW)).toBe('previous-0');
+    expect(matchSharedKey('older-key', hashedKeySet, NOW)).toBe('previous-1');
+    expect(matchSharedKey('unknown-key', hashedKeySet, NOW)).toBeNull();
+  });
+
+  it('reports the first slot when a key appears more than once', () => {
+    const duplicated = { current: { key: 'same-key' }, previous: [{ key: 'same-key' }] };
+    expect(matchSharedKey('same-key', duplicated, NOW)).toBe('current');
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import {
+  checkSignature,
+  computeSignature,
+  signRequest,
+  verifySignedRequest,
+} from '../src/signature';
+import { SecretCache } from '../src/secret-cache';
+import { InMemoryNonceStore, NonceStore } from '../src/nonce-store';
+
+const NOW = new Date('2025-12-01T12:00:00Z');
+const SECRET = 'local-webhook-secret';
+
+function signedEvent(
+  body: string,
+  options?: { secret?: string; timestamp?: Date; headers?: Record<string, string> }
+): APIGatewayProxyEvent {
+  const headers = signRequest(body, options?.secret ?? SECRET, {
+    timestamp: options?.timestamp ?? NOW,
+  });
+  return {
+    headers: { ...headers, ...options?.headers },
+    body,
+    isBase64Encoded: false,
+    requestContext: {} as any,
+  } as unknown as APIGatewayProxyEvent;
+}
+
+describe('computeSignature', () => {
+  it('is the hex HMAC-SHA256 of "<timestamp>.<body>"', () => {
+    expect(computeSignature(SECRET, '1764590400', '{"a":1}')).toBe(
+      createHmac('sha256', SECRET).update('1764590400.{"a":1}').digest('hex')
+    );
+  });
+
+  it('signs buffers and strings identically', () => {
+    expect(computeSignature(SECRET, '1', Buffer.from('body'))).toBe(
+      computeSignature(SECRET, '1', 'body')
+    );
+  });
+});
+
+describe('signRequest', () => {
+  it('returns signature and Unix-seconds timestamp headers', () => {
+    const headers = signRequest('{"a":1}', SECRET, { timestamp: NOW });
+
+    expect(headers['X-Timestamp']).toBe('1764590400');
+    expect(headers['X-Signature']).toBe(computeSignature(SECRET, '1764590400', '{"a":1}'));
+  });
+});
+
+describe('verifySignedRequest', () => {
+  let cache: SecretCache;
+  let nonceStore: NonceStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    cache = new SecretCache(async () => SECRET, { minRefreshIntervalMs: 0 });
+    nonceStore = new InMemoryNonceStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('authorizes a correctly signed request', async () => {
+    const result = await verifySignedRequest(signedEvent('{"job":1}'), '/aviary/test/signing', {
+      cache,
+      nonceStore,
+    });
+
+    expect(result).toEqual({ authorized: true, method: 'hmac' });
+  });
+
+  it('reads the signing secret from a JSON secret field', async () => {
+    cache = new SecretCache(async () => JSON.stringify({ AVIARY_SIGNING_SECRET: 'json-secret' }));
+
+    const result = await verifySignedRequest(
+      signedEvent('{}', { secret: 'json-secret' }),
+      '/aviary/test/signing',
+      { cache, nonceStore }
+    );
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('supports a custom signing key name', async () => {
+    cache = new SecretCache(async () => JSON.stringify({ WEBHOOK_SECRET: 'custom' }));
+
+    const result = await verifySignedRequest(
+      signedEvent('{}', { secret: 'custom' }),
+      '/aviary/test/signing',
+      { cache, nonceStore, signingKeyName: 'WEBHOOK_SECRET' }
+    );
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('accepts lower-case header names', async () => {
+    const event = signedEvent('{}');
+    event.headers = {
+      'x-signature': event.headers['X-Signature'],
+      'x-timestamp': event.headers['X-Timestamp'],
+    };
+
+    const result = await verifySignedRequest(event, '/aviary/test/signing', { cache, nonceStore });
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('verifies base64-encoded bodies against the decoded bytes', async () => {
+    const event = signedEvent('{"binary":true}');
+    event.body = Buffer.from('{"binary":true}').toString('base64');
+    event.isBase64Encoded = true;
+
+    const result = await verifySignedRequest(event, '/aviary/test/signing', { cache, nonceStore });
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('rejects a tampered body', async () => {
+    const event = signedEvent('{"amount":1}');
+    event.body = '{"amount":100}';
+
+    const result = await verifySignedRequest(event, '/aviary/test/signing', { cache, nonceStore });
+
+    expect(result).toEqual({ authorized: false, method: 'none' });
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const result = await verifySignedRequest(
+      signedEvent('{}', { secret: 'attacker-secret' }),
+      '/aviary/test/signing',
+      { cache, nonceStore }
+    );
+
+    expect(result.authorized).toBe(false);
+  });
+
+  it('rejects missing or malformed headers', async () => {
+    const unsigned = {
+      headers: {},
+      body: '{}',
+      requestContext: {},
+    } as unknown as APIGatewayProxyEvent;
+    const isoTimestamp = signedEvent('{}', { headers: { 'X-Timestamp': NOW.toISOString() } });
+
+    expect((await verifySignedRequest(unsigned, '/p', { cache, nonceStore })).authorized).toBe(false);
+    expect((await verifySignedRequest(isoTimestamp, '/p', { cache, nonceStore })).authorized).toBe(false);
+  });
+
+  it('rejects timestamps outside the skew window', async () => {
+    const stale = signedEvent('{}', { timestamp: new Date(NOW.getTime() - 301_000) });
+    const future = signedEvent('{}', { timestamp: new Date(NOW.getTime() + 301_000) });
+
+    expect((await verifySignedRequest(stale, '/p', { cache, nonceStore })).authorized).toBe(false);
+    expect((await verifySignedRequest(future, '/p', { cache, nonceStore })).authorized).toBe(false);
+  });
+
+  it('accepts timestamps inside a custom skew window', async () => {
+    const event = signedEvent('{}', { timestamp: new Date(NOW.getTime() - 60_000) });
+
+    const result = await verifySignedRequest(event, '/p', {
+      cache,
+      nonceStore,
+      toleranceSeconds: 120,
+    });
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('rejects a replayed request', async () => {
+    const event = signedEvent('{"job":1}');
+
+    const first = await verifySignedRequest(event, '/p', { cache, nonceStore });
+    const replay = await verifySignedRequest(event, '/p', { cache, nonceStore });
+
+    expect(first.authorized).toBe(true);
+    expect(replay.authorized).toBe(false);
+  });
+
+  it('does not claim a nonce for an invalid signature', async () => {
+    const claim = vi.fn(async () => true);
+
+    await verifySignedRequest(signedEvent('{}', { secret: 'wrong' }), '/p', {
+      cache,
+      nonceStore: { claim },
+    });
+
+    expect(claim).not.toHaveBeenCalled();
+  });
+
+  it('accepts a just-rotated signing secret by refreshing the cache', async () => {
+    let currentSecret = 'old-secret';
+    cache = new SecretCache(async () => currentSecret, { minRefreshIntervalMs: 0 });
+    await verifySignedRequest(signedEvent('{}', { secret: 'old-secret' }), '/p', { cache, nonceStore });
+
+    currentSecret = 'new-secret';
+    const result = await verifySignedRequest(
+      signedEvent('{"n":2}', { secret: 'new-secret' }),
+      '/p',
+      { cache, nonceStore }
+    );
+
+    expect(result.authorized).toBe(true);
+  });
+
+  it('rejects when the signing secret cannot be read', async () => {
+    cache = new SecretCache(async () => {
+      throw new Error('ResourceNotFoundException');
+    });
+
+    const result = await verifySignedRequest(signedEvent('{}'), '/p', { cache, nonceStore });
+
+    expect(result.authorized).toBe(false);
+  });
+
+  it('rejects when the nonce store fails', async () => {
+    const result = await verifySignedRequest(signedEvent('{}'), '/p', {
+      cache,
+      nonceStore: {
+        claim: async () => {
+          throw new Error('DynamoDB unavailable');
+        },
+      },
+    });
+
+    expect(result.authorized).toBe(false);
+  });
+});
+
+describe('checkSignature', () => {
+  let cache: SecretCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    cache = new SecretCache(async () => SECRET, { minRefreshIntervalMs: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports why a signature is not valid', async () => {
+    const unsigned = signedEvent('{}');
+    unsigned.headers = {};
+    const tampered = signedEvent('{"a":1}');
+    tampered.body = '{"a":2}';
+
+    expect(await checkSignature(signedEvent('{}'), '/p', { cache })).toBe('valid');
+    expect(await checkSignature(unsigned, '/p', { cache })).toBe('missing');
+    expect(
+      await checkSignature(signedEvent('{}', { timestamp: new Date(NOW.getTime() - 600_000) }), '/p', {
+        cache,
+      })
+    ).toBe('stale');
+    expect(await checkSignature(tampered, '/p', { cache })).toBe('invalid');
+    expect(
+      await checkSignature(signedEvent('{}'), '/p', { cache: new SecretCache(async () => null) })
+    ).toBe('secret_unavailable');
+  });
+
+  it('does not consume the signature', async () => {
+    const event = signedEvent('{}');
+
+    expect(await checkSignature(event, '/p', { cache })).toBe('valid');
+    expect(await checkSignature(event, '/p', { cache })).toBe('valid');
+  });
+});
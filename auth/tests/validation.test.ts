@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { APIGatewayProxyEventV2 } from 'aws-lambda';
+import {
+  parseJsonBody,
+  validateEvent,
+  validateRequest,
+  validateSchema,
+  SafeParseSchema,
+} from '../src/validation';
+import { ValidationError } from '../src/errors';
+
+function catchError(fn: () => unknown): ValidationError {
+  try {
+    fn();
+  } catch (error) {
+    return error as ValidationError;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('validateSchema (JSON Schema)', () => {
+  it('accepts a valid value', () => {
+    const result = validateSchema(
+      { type: 'object', required: ['email'], properties: { email: { type: 'string', format: 'email' } } },
+      { email: 'ada@example.com' }
+    );
+
+    expect(result).toEqual({ value: { email: 'ada@example.com' }, errors: [] });
+  });
+
+  it('reports nested field paths', () => {
+    const { errors } = validateSchema(
+      {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: { type: 'object', required: ['name'], properties: { qty: { type: 'integer', minimum: 1 } } },
+          },
+        },
+      },
+      { items: [{ name: 'a', qty: 1 }, { qty: 0 }] }
+    );
+
+    expect(errors).toEqual([
+      { field: 'items[1].name', reason: 'Required' },
+      { field: 'items[1].qty', reason: 'Must be >= 1' },
+    ]);
+  });
+
+  it('checks string constraints', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email' },
+        code: { type: 'string', pattern: '^[A-Z]{3}$' },
+        name: { type: 'string', minLength: 2, maxLength: 4 },
+        voice: { enum: ['alto', 'bass'] },
+      },
+    } as const;
+
+    const { errors } = validateSchema(schema, { email: 'nope', code: 'abc', name: 'x', voice: 'tenor' });
+
+    expect(errors).toEqual([
+      { field: 'email', reason: 'Invalid email format' },
+      { field: 'code', reason: 'Must match pattern ^[A-Z]{3}$' },
+      { field: 'name', reason: 'Must be at least 2 characters' },
+      { field: 'voice', reason: 'Must be one of: "alto", "bass"' },
+    ]);
+  });
+
+  it('rejects unknown fields when additionalProperties is false', () => {
+    const { errors } = validateSchema(
+      { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false },
+      { a: 'x', b: 1 }
+    );
+
+    expect(errors).toEqual([{ field: 'b', reason: 'Unknown field' }]);
+  });
+
+  it('accepts nullable types', () => {
+    expect(validateSchema({ type: ['string', 'null'] }, null).errors).toEqual([]);
+    expect(validateSchema({ type: 'number' }, 3).errors).toEqual([]);
+    expect(validateSchema({ type: 'integer' }, 3.5).errors).toEqual([{ field: '', reason: 'Expected integer' }]);
+  });
+
+  it('does not coerce unless asked', () => {
+    expect(validateSchema({ type: 'integer' }, '5').errors).toHaveLength(1);
+    expect(validateSchema({ type: 'integer' }, '5', { coerce: true })).toEqual({ value: 5, errors: [] });
+  });
+});
+
+describe('validateSchema (safeParse)', () => {
+  const positive: SafeParseSchema<number> = {
+    safeParse: (input) =>
+      typeof input === 'number' && input > 0
+        ? { success: true, data: input }
+        : { success: false, error: { issues: [{ path: ['items', 0, 'qty'], message: 'Must be positive' }] } },
+  };
+
+  it('returns parsed data', () => {
+    expect(validateSchema(positive, 3)).toEqual({ value: 3, errors: [] });
+  });
+
+  it('maps issues to field errors', () => {
+    expect(validateSchema(positive, -1).errors).toEqual([{ field: 'items[0].qty', reason: 'Must be positive' }]);
+  });
+});
+
+describe('parseJsonBody', () => {
+  it('parses JSON and treats an empty body as undefined', () => {
+    expect(parseJsonBody('{"a":1}')).toEqual({ a: 1 });
+    expect(parseJsonBody(Buffer.from('[1]'))).toEqual([1]);
+    expect(parseJsonBody('')).toBeUndefined();
+    expect(parseJsonBody(null)).toBeUndefined();
+  });
+
+  it('throws a ValidationError for malformed JSON', () => {
+    const error = catchError(() => parseJsonBody('{oops'));
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Request body must be valid JSON');
+  });
+});
+
+describe('validateRequest', () => {
+  it('coerces query and path params', () => {
+    const result = validateRequest(
+      { query: { limit: '10', tags: 'a,b', verbose: 'false' }, params: { id: '42' } },
+      {
+        query: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer', maximum: 100 },
+            tags: { type: 'array', items: { type: 'string' } },
+            verbose: { type: 'boolean' },
+          },
+        },
+        params: { type: 'object', properties: { id: { type: 'integer' } } },
+      }
+    );
+
+    expect(result).toEqual({
+      query: { limit: 10, tags: ['a', 'b'], verbose: false },
+      params: { id: 42 },
+    });
+  });
+
+  it('collects errors from every location', () => {
+    const error = catchError(() =>
+      validateRequest(
+        { body: '{}', query: { limit: 'many' }, params: {} },
+        {
+          body: { type: 'object', required: ['text'] },
+          query: { type: 'object', properties: { limit: { type: 'integer' } } },
+          params: { type: 'object', required: ['id'] },
+        }
+      )
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.statusCode).toBe(400);
+    expect(error.details).toEqual({
+      location: 'body',
+      field: 'text',
+      reason: 'Required',
+      fields: [
+        { location: 'body', field: 'text', reason: 'Required' },
+        { location: 'query', field: 'limit', reason: 'Expected integer' },
+        { location: 'path', field: 'id', reason: 'Required' },
+      ],
+    });
+  });
+
+  it('reports a missing required body', () => {
+    const error = catchError(() => validateRequest({ body: null }, { body: { type: 'object' } }));
+
+    expect(error.details).toMatchObject({ field: '', reason: 'Required' });
+  });
+});
+
+describe('validateEvent', () => {
+  it('reads body, query and path params from the event', () => {
+    const event = {
+      version: '2.0',
+      rawPath: '/v1/jobs/7',
+      headers: {},
+      queryStringParameters: { limit: '5' },
+      pathParameters: { id: '7' },
+      body: Buffer.from('{"text":"hi"}').toString('base64'),
+      isBase64Encoded: true,
+      requestContext: { http: { method: 'POST' } },
+    } as unknown as APIGatewayProxyEventV2;
+
+    const result = validateEvent(event, {
+      body: { type: 'object', required: ['text'] },
+      query: { type: 'object', properties: { limit: { type: 'integer' } } },
+      params: { type: 'object', properties: { id: { type: 'integer' } } },
+    });
+
+    expect(result).toEqual({ body: { text: 'hi' }, query: { limit: 5 }, params: { id: 7 } });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { VersionPolicy, deprecationHeaders } from '../src/versioning';
+
+const policy = new VersionPolicy({
+  supported: ['v2'],
+  deprecated: {
+    v1: { sunset: '2026-06-30T00:00:00Z', link: 'https://docs.example.com/v2-migration' },
+  },
+  removed: ['v0'],
+});
+
+describe('deprecationHeaders', () => {
+  it('builds Deprecation, Sunset and Link headers', () => {
+    expect(
+      deprecationHeaders({
+        sunset: '2026-06-30T00:00:00Z',
+        link: 'https://docs.example.com/v2-migration',
+      })
+    ).toEqual({
+      Deprecation: 'true',
+      Sunset: 'Tue, 30 Jun 2026 00:00:00 GMT',
+      Link: '<https://docs.example.com/v2-migration>; rel="deprecation"',
+    });
+  });
+
+  it('reports the deprecation date as a Unix timestamp when given', () => {
+    const headers = deprecationHeaders({
+      sunset: '2026-06-30T00:00:00Z',
+      deprecatedAt: '2025-12-01T00:00:00Z',
+    });
+
+    expect(headers.Deprecation).toBe('@1764547200');
+    expect(headers.Link).toBeUndefined();
+  });
+});
+
+describe('VersionPolicy', () => {
+  it('classifies versions', () => {
+    expect(policy.getStatus('v2')).toBe('supported');
+    expect(policy.getStatus('v1')).toBe('deprecated');
+    expect(policy.getStatus('v0')).toBe('removed');
+    expect(policy.getStatus('v3')).toBe('unknown');
+  });
+
+  it('serves supported and deprecated versions only', () => {
+    expect(policy.isServed('v2')).toBe(true);
+    expect(policy.isServed('v1')).toBe(true);
+    expect(policy.isServed('v0')).toBe(false);
+    expect(policy.isServed('v3')).toBe(false);
+  });
+
+  it('checks paths, including bare version paths', () => {
+    expect(policy.check('/v2/mix/jobs')).toEqual({ version: 'v2', status: 'supported', headers: {} });
+    expect(policy.check('/v0')).toEqual({ version: 'v0', status: 'removed', headers: {} });
+    expect(policy.check('/health')).toEqual({ version: null, status: 'unversioned', headers: {} });
+  });
+
+  it('returns deprecation headers for deprecated versions', () => {
+    const check = policy.check('/v1/mix/jobs');
+
+    expect(check.status).toBe('deprecated');
+    expect(check.headers.Sunset).toBe('Tue, 30 Jun 2026 00:00:00 GMT');
+  });
+
+  it('rejects versions listed in more than one state', () => {
+    expect(
+      () => new VersionPolicy({ supported: ['v1'], deprecated: { v1: { sunset: '2026-01-01' } } })
+    ).toThrow('v1');
+    expect(() => new VersionPolicy({ supported: ['v1'], removed: ['v1'] })).toThrow('v1');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  DynamoDBWebhookHistory,
+  InMemoryWebhookHistory,
+  WebhookHistoryEntry,
+} from '../src/webhook-history';
+import { buildWebhookEnvelope } from '../src/webhooks';
+
+function entry(
+  eventId: string,
+  deliveredAt: string,
+  outcome: WebhookHistoryEntry['outcome']
+): WebhookHistoryEntry {
+  return {
+    event_id: eventId,
+    event_type: 'job.completed',
+    url: 'https://receiver.example.com/hooks',
+    attempt: 1,
+    delivered_at: deliveredAt,
+    status_code: outcome === 'delivered' ? 200 : 500,
+    success: outcome === 'delivered',
+    duration_ms: 5,
+    outcome,
+    envelope: buildWebhookEnvelope({
+      event_type: 'job.completed',
+      event_id: eventId,
+      subject_id: 'job_1',
+      status: 'completed',
+      source: 'condor',
+    }),
+  };
+}
+
+describe('InMemoryWebhookHistory', () => {
+  it('returns the latest attempt of an event', async () => {
+    const history = new InMemoryWebhookHistory();
+    await history.record(entry('evt_1', '2025-12-01T10:00:00.000Z', 'retrying'));
+    await history.record(entry('evt_1', '2025-12-01T10:01:00.000Z', 'delivered'));
+
+    expect((await history.latest('evt_1'))?.outcome).toBe('delivered');
+    expect(await history.latest('evt_2')).toBeNull();
+  });
+
+  it('lists exhausted events in a window', async () => {
+    const history = new InMemoryWebhookHistory();
+    await history.record(entry('evt_1', '2025-12-01T10:00:00.000Z', 'failed'));
+    await history.record(entry('evt_2', '2025-12-01T11:00:00.000Z', 'retrying'));
+    await history.record(entry('evt_3', '2025-12-02T10:00:00.000Z', 'failed'));
+
+    const failed = await history.failedBetween(
+      new Date('2025-12-01T00:00:00Z'),
+      new Date('2025-12-01T23:59:59Z')
+    );
+
+    expect(failed.map((e) => e.event_id)).toEqual(['evt_1']);
+  });
+
+  it('skips exhausted events attempted again since', async () => {
+    const history = new InMemoryWebhookHistory();
+    await history.record(entry('evt_1', '2025-12-01T10:00:00.000Z', 'failed'));
+    await history.record(entry('evt_1', '2025-12-01T12:00:00.000Z', 'delivered'));
+    await history.record(entry('evt_2', '2025-12-01T10:00:00.000Z', 'failed'));
+    await history.record(entry('evt_2', '2025-12-03T10:00:00.000Z', 'failed'));
+
+    const failed = await history.failedBetween(
+      new Date('2025-12-01T00:00:00Z'),
+      new Date('2025-12-01T23:59:59Z')
+    );
+
+    expect(failed).toEqual([]);
+  });
+});
+
+describe('DynamoDBWebhookHistory', () => {
+  it('stores attempts with the envelope as JSON and a TTL', async () => {
+    const send = vi.fn(async () => ({}));
+    const history = new DynamoDBWebhookHistory('webhooks-dev', {
+      client: { send } as any,
+      retentionDays: 1,
+    });
+    const attempt = entry('evt_1', '2025-12-01T10:00:00.000Z', 'delivered');
+
+    await history.record(attempt);
+
+    const item = (send.mock.calls[0] as any[])[0].input.Item;
+    expect(item.event_id).toEqual({ S: 'evt_1' });
+    expect(item.outcome).toEqual({ S: 'delivered' });
+    expect(JSON.parse(item.envelope.S)).toEqual(attempt.envelope);
+    expect(Number(item.expires_at.N)).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('reads the latest attempt newest first', async () => {
+    const attempt = entry('evt_1', '2025-12-01T10:00:00.000Z', 'failed');
+    const send = vi.fn(async () => ({
+      Items: [marshall({ ...attempt, envelope: JSON.stringify(attempt.envelope), expires_at: 1 })],
+    }));
+    const history = new DynamoDBWebhookHistory('webhooks-dev', { client: { send } as any });
+
+    expect(await history.latest('evt_1')).toEqual(attempt);
+
+    const input = (send.mock.calls[0] as any[])[0].input;
+    expect(input).toMatchObject({ ScanIndexForward: false, Limit: 1 });
+  });
+
+  it('pages through failures on the outcome index', async () => {
+    const first = entry('evt_1', '2025-12-01T10:00:00.000Z', 'failed');
+    const second = entry('evt_2', '2025-12-01T11:00:00.000Z', 'failed');
+    const toItem = (e: WebhookHistoryEntry) => marshall({ ...e, envelope: JSON.stringify(e.envelope) });
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({ Items: [toItem(first)], LastEvaluatedKey: { event_id: { S: 'evt_1' } } })
+      .mockResolvedValueOnce({ Items: [toItem(second)] })
+      .mockResolvedValueOnce({ Items: [toItem(first)] })
+      .mockResolvedValueOnce({ Items: [toItem(second)] });
+    const history = new DynamoDBWebhookHistory('webhooks-dev', { client: { send } as any });
+
+    const failed = await history.failedBetween(
+      new Date('2025-12-01T00:00:00Z'),
+      new Date('2025-12-02T00:00:00Z')
+    );
+
+    expect(failed.map((e) => e.event_id)).toEqual(['evt_1', 'evt_2']);
+    const input = send.mock.calls[1][0].input;
+    expect(input).toMatchObject({
+      IndexName: 'outcome-delivered_at',
+      ExclusiveStartKey: { event_id: { S: 'evt_1' } },
+    });
+  });
+
+  it('drops failures that a later attempt delivered', async () => {
+    const failure = entry('evt_1', '2025-12-01T10:00:00.000Z', 'failed');
+    const redelivery = entry('evt_1', '2025-12-01T12:00:00.000Z', 'delivered');
+    const toItem = (e: WebhookHistoryEntry) => marshall({ ...e, envelope: JSON.stringify(e.envelope) });
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({ Items: [toItem(failure)] })
+      .mockResolvedValueOnce({ Items: [toItem(redelivery)] });
+    const history = new DynamoDBWebhookHistory('webhooks-dev', { client: { send } as any });
+
+    const failed = await history.failedBetween(
+      new Date('2025-12-01T00:00:00Z'),
+      new Date('2025-12-02T00:00:00Z')
+    );
+
+    expect(failed).toEqual([]);
+    expect(send.mock.calls[1][0].input).toMatchObject({
+      ExpressionAttributeValues: { ':eventId': { S: 'evt_1' } },
+      Limit: 1,
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomBytes } from 'crypto';
+import { SQSEvent, SQSRecord } from 'aws-lambda';
+import { backoffDelaySeconds, createWebhookWorker, enqueueWebhook } from '../src/webhook-queue';
+import { InMemoryWebhookHistory } from '../src/webhook-history';
+import { buildWebhookEnvelope, deliverWebhook } from '../src/webhooks';
+
+vi.mock('../src/webhooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/webhooks')>()),
+  deliverWebhook: vi.fn(),
+}));
+
+const mockDeliver = vi.mocked(deliverWebhook);
+
+const QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/your-service-webhooks-dev';
+const envelope = buildWebhookEnvelope({
+  event_type: 'job.completed',
+  event_id: 'evt_1',
+  subject_id: 'job_1',
+  status: 'completed',
+  source: 'condor',
+});
+
+function sqsRecord(body: unknown, receiveCount = 1, messageId = 'msg-1'): SQSRecord {
+  return {
+    messageId,
+    receiptHandle: `receipt-${messageId}`,
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    attributes: { ApproximateReceiveCount: String(receiveCount) },
+  } as unknown as SQSRecord;
+}
+
+function sqsEvent(...records: SQSRecord[]): SQSEvent {
+  return { Records: records };
+}
+
+function deliveryResult(success: boolean, attempt = 1) {
+  return {
+    event_id: 'evt_1',
+    event_type: 'job.completed',
+    url: 'https://receiver.example.com/hooks',
+    attempt,
+    delivered_at: new Date().toISOString(),
+    status_code: success ? 200 : 503,
+    success,
+    duration_ms: 12,
+  };
+}
+
+describe('backoffDelaySeconds', () => {
+  it('doubles the window per attempt', () => {
+    expect(backoffDelaySeconds(1, { random: () => 0 })).toBe(15);
+    expect(backoffDelaySeconds(1, { random: () => 1 })).toBe(30);
+    expect(backoffDelaySeconds(3, { random: () => 1 })).toBe(120);
+  });
+
+  it('caps at the maximum delay', () => {
+    expect(backoffDelaySeconds(20, { random: () => 1 })).toBe(3600);
+    expect(backoffDelaySeconds(20, { maxDelaySeconds: 600, random: () => 0.5 })).toBe(450);
+  });
+});
+
+describe('enqueueWebhook', () => {
+  it('sends a delivery job', async () => {
+    const send = vi.fn(async () => ({}));
+
+    await enqueueWebhook(QUEUE_URL, envelope, 'https://receiver.example.com/hooks', {
+      previousAttempts: 8,
+      client: { send } as any,
+    });
+
+    const command = (send.mock.calls[0] as any[])[0];
+    expect(command.input.QueueUrl).toBe(QUEUE_URL);
+    expect(JSON.parse(command.input.MessageBody)).toEqual({
+      envelope,
+      url: 'https://receiver.example.com/hooks',
+      previous_attempts: 8,
+    });
+  });
+
+  describe('oversized envelopes', () => {
+    // Random bytes do not compress, so the blob stays larger than an SQS message
+    const blob = randomBytes(300 * 1024).toString('hex');
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('drops the inline blob when receivers can fetch the resource', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const send = vi.fn(async () => ({}));
+      const large = buildWebhookEnvelope({
+        event_type: 'job.completed',
+        event_id: 'evt_large',
+        subject_id: 'job_1',
+        status: 'completed',
+        source: 'condor',
+        artifacts: { resource_url: 'https://cdn.example.com/jobs/job_1/result.json' },
+        blob,
+      });
+
+      await enqueueWebhook(QUEUE_URL, large, 'https://receiver.example.com/hooks', {
+        client: { send } as any,
+      });
+
+      const body: string = (send.mock.calls[0] as any[])[0].input.MessageBody;
+      expect(Buffer.byteLength(body)).toBeLessThanOrEqual(256 * 1024);
+      expect(JSON.parse(body).envelope).toMatchObject({
+        blob: null,
+        blob_truncated: true,
+        blob_checksum: large.blob_checksum,
+        blob_size: large.blob_size,
+      });
+      expect(warn).toHaveBeenCalled();
+    });
+
+    it('refuses an envelope without a resource to fall back to', async () => {
+      const send = vi.fn(async () => ({}));
+      const large = buildWebhookEnvelope({
+        event_type: 'job.completed',
+        event_id: 'evt_large',
+        subject_id: 'job_1',
+        status: 'completed',
+        source: 'condor',
+        blob,
+      });
+
+      await expect(
+        enqueueWebhook(QUEUE_URL, large, 'https://receiver.example.com/hooks', { client: { send } as any })
+      ).rejects.toThrow('exceeds the 262144 byte SQS message limit');
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('createWebhookWorker', () => {
+  let send: ReturnType<typeof vi.fn>;
+  let history: InMemoryWebhookHistory;
+
+  beforeEach(() => {
+    send = vi.fn(async () => ({}));
+    history = new InMemoryWebhookHistory();
+    mockDeliver.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const worker = () =>
+    createWebhookWorker({
+      queueUrl: QUEUE_URL,
+      secretPath: 'your-service/dev/webhook-secret',
+      history,
+      maxAttempts: 3,
+      client: { send } as any,
+    });
+
+  const job = { envelope, url: 'https://receiver.example.com/hooks' };
+
+  it('records successful deliveries', async () => {
+    mockDeliver.mockResolvedValue(deliveryResult(true));
+
+    const result = await worker()(sqsEvent(sqsRecord(job)));
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(mockDeliver).toHaveBeenCalledWith(envelope, {
+      url: 'https://receiver.example.com/hooks',
+      secretPath: 'your-service/dev/webhook-secret',
+      attempt: 1,
+      timeoutMs: undefined,
+    });
+    expect(history.entries).toMatchObject([{ event_id: 'evt_1', outcome: 'delivered', envelope }]);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('delays failed deliveries with backoff and reports them', async () => {
+    mockDeliver.mockResolvedValue(deliveryResult(false, 2));
+
+    const result = await worker()(sqsEvent(sqsRecord(job, 2)));
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: 'msg-1' }] });
+    expect(mockDeliver.mock.calls[0][1].attempt).toBe(2);
+    expect(history.entries[0].outcome).toBe('retrying');
+
+    const command = (send.mock.calls[0] as any[])[0];
+    expect(command.input).toMatchObject({ QueueUrl: QUEUE_URL, ReceiptHandle: 'receipt-msg-1' });
+    expect(command.input.VisibilityTimeout).toBeGreaterThanOrEqual(30);
+    expect(command.input.VisibilityTimeout).toBeLessThanOrEqual(60);
+  });
+
+  it('releases exhausted deliveries to the DLQ immediately', async () => {
+    mockDeliver.mockResolvedValue(deliveryResult(false, 3));
+
+    const result = await worker()(sqsEvent(sqsRecord(job, 3)));
+
+    expect(result.batchItemFailures).toHaveLength(1);
+    expect(history.entries[0].outcome).toBe('failed');
+    expect((send.mock.calls[0] as any[])[0].input.VisibilityTimeout).toBe(0);
+  });
+
+  it('records errors thrown before sending as failed attempts', async () => {
+    mockDeliver.mockRejectedValue(new Error('No webhook signing secret at your-service/dev/webhook-secret'));
+
+    const result = await worker()(sqsEvent(sqsRecord(job, 3)));
+
+    expect(result.batchItemFailures).toHaveLength(1);
+    expect(history.entries).toMatchObject([
+      {
+        event_id: 'evt_1',
+        attempt: 3,
+        status_code: null,
+        success: false,
+        outcome: 'failed',
+        error: 'No webhook signing secret at your-service/dev/webhook-secret',
+        envelope,
+      },
+    ]);
+    expect((send.mock.calls[0] as any[])[0].input.VisibilityTimeout).toBe(0);
+  });
+
+  it('continues the attempt count of replayed jobs', async () => {
+    mockDeliver.mockResolvedValue(deliveryResult(true, 9));
+
+    await worker()(sqsEvent(sqsRecord({ ...job, previous_attempts: 8 })));
+
+    expect(mockDeliver.mock.calls[0][1].attempt).toBe(9);
+  });
+
+  it('handles each record of a batch independently', async () => {
+    mockDeliver
+      .mockResolvedValueOnce(deliveryResult(true))
+      .mockRejectedValueOnce(new Error('No secret'));
+
+    const result = await worker()(
+      sqsEvent(sqsRecord(job, 1, 'a'), sqsRecord(job, 1, 'b'), sqsRecord('{oops', 1, 'c'))
+    );
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'b' }, { itemIdentifier: 'c' }]);
+    expect(mockDeliver).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { verifyWebhook } from '../src/webhook-receiver';
+import { buildWebhookEnvelope, WebhookEnvelope } from '../src/webhooks';
+import { signRequest } from '../src/signature';
+import { SecretCache } from '../src/secret-cache';
+import { InMemoryNonceStore, NonceStore } from '../src/nonce-store';
+
+const NOW = new Date('2025-12-01T12:00:00Z');
+const SECRET = 'local-webhook-secret';
+
+function webhookEvent(
+  payload: WebhookEnvelope | string,
+  options?: { secret?: string; timestamp?: Date }
+): APIGatewayProxyEvent {
+  const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  return {
+    headers: signRequest(body, options?.secret ?? SECRET, { timestamp: options?.timestamp ?? NOW }),
+    body,
+    isBase64Encoded: false,
+    requestContext: {},
+  } as unknown as APIGatewayProxyEvent;
+}
+
+function envelope(blob?: unknown, options?: Parameters<typeof buildWebhookEnvelope>[1]) {
+  return buildWebhookEnvelope(
+    {
+      event_type: 'job.completed',
+      event_id: 'evt_1',
+      subject_id: 'job_1',
+      status: 'completed',
+      source: 'condor',
+      artifacts: { resource_url: 'https://cdn.example.com/jobs/job_1/result.json' },
+      blob,
+    },
+    options
+  );
+}
+
+describe('verifyWebhook', () => {
+  let cache: SecretCache;
+  let replayStore: NonceStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    cache = new SecretCache(async () => SECRET, { minRefreshIntervalMs: 0 });
+    replayStore = new InMemoryNonceStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const verify = (event: APIGatewayProxyEvent) =>
+    verifyWebhook(event, { secretPath: 'your-service/dev/webhook-secret', cache, replayStore });
+
+  it('returns the envelope and UTF-8 blob', async () => {
+    const sent = envelope({ words: 42 });
+
+    const result = await verify(webhookEvent(sent));
+
+    expect(result).toEqual({
+      valid: true,
+      envelope: sent,
+      blob: '{"words":42}',
+      release: expect.any(Function),
+    });
+  });
+
+  it('decodes gzip+base64 blobs', async () => {
+    const text = 'transcript '.repeat(500);
+    const sent = envelope(text, { compressAboveBytes: 100 });
+    expect(sent.blob_encoding).toBe('gzip+base64');
+
+    const result = await verify(webhookEvent(sent));
+
+    expect(result.valid && result.blob).toBe(text);
+  });
+
+  it('returns a null blob when it was dropped for resource_url', async () => {
+    const sent = envelope('x'.repeat(500), { compressAboveBytes: 10, maxBlobBytes: 10 });
+
+    const result = await verify(webhookEvent(sent));
+
+    expect(result).toMatchObject({ valid: true, blob: null });
+  });
+
+  it.each([
+    ['missing_signature', () => ({ ...webhookEvent(envelope()), headers: {} })],
+    [
+      'stale_timestamp',
+      () => webhookEvent(envelope(), { timestamp: new Date(NOW.getTime() - 600_000) }),
+    ],
+    ['invalid_signature', () => webhookEvent(envelope(), { secret: 'other-secret' })],
+  ])('rejects with %s', async (reason, makeEvent) => {
+    const result = await verify(makeEvent() as APIGatewayProxyEvent);
+
+    expect(result).toMatchObject({ valid: false, reason });
+  });
+
+  it('rejects when the secret is unavailable', async () => {
+    cache = new SecretCache(async () => null);
+
+    expect(await verify(webhookEvent(envelope()))).toMatchObject({
+      valid: false,
+      reason: 'secret_unavailable',
+    });
+  });
+
+  it('rejects malformed payloads', async () => {
+    const { event_type: _eventType, ...missingType } = envelope();
+
+    expect(await verify(webhookEvent('not json'))).toMatchObject({ reason: 'malformed_payload' });
+    expect(await verify(webhookEvent(missingType as WebhookEnvelope))).toEqual({
+      valid: false,
+      reason: 'malformed_payload',
+      message: 'Envelope field event_type is missing',
+    });
+  });
+
+  it('rejects blobs that do not match their size or checksum', async () => {
+    const wrongSize = { ...envelope('hello'), blob_size: 4 };
+    const wrongChecksum = { ...envelope('hello'), blob: 'jello' };
+
+    expect(await verify(webhookEvent(wrongSize))).toMatchObject({
+      reason: 'blob_size_mismatch',
+      eventId: 'evt_1',
+    });
+    expect(await verify(webhookEvent(wrongChecksum))).toMatchObject({
+      reason: 'blob_checksum_mismatch',
+    });
+  });
+
+  it('rejects replays of an accepted event id', async () => {
+    const sent = envelope();
+    const retry = { ...sent, attempt: 2 };
+
+    expect((await verify(webhookEvent(sent))).valid).toBe(true);
+    expect(await verify(webhookEvent(retry))).toMatchObject({
+      valid: false,
+      reason: 'replayed_event',
+      eventId: 'evt_1',
+    });
+  });
+
+  it('accepts a retry after processing failed and the event was released', async () => {
+    const sent = envelope();
+
+    const first = await verify(webhookEvent(sent));
+    expect(first.valid).toBe(true);
+    // Receiver's handler throws; it releases the event id and answers 5xx
+    await (first.valid && first.release());
+
+    const retry = await verify(webhookEvent({ ...sent, attempt: 2 }));
+    expect(retry.valid).toBe(true);
+    expect(await verify(webhookEvent({ ...sent, attempt: 3 }))).toMatchObject({
+      reason: 'replayed_event',
+    });
+  });
+
+  it('does not record event ids of rejected webhooks', async () => {
+    const bad = { ...envelope('hello'), blob_size: 4 };
+
+    await verify(webhookEvent(bad));
+
+    expect((await verify(webhookEvent(envelope('hello')))).valid).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { createWebhookReplayRouter } from '../src/webhook-replay';
+import { InMemoryWebhookHistory, WebhookHistoryEntry } from '../src/webhook-history';
+import { buildWebhookEnvelope } from '../src/webhooks';
+import { ClientRegistry } from '../src/client-registry';
+import { hashApiKey } from '../src/key-hashing';
+import { SecretCache } from '../src/secret-cache';
+
+const QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/condor-webhooks-dev';
+
+function entry(
+  eventId: string,
+  deliveredAt: string,
+  outcome: WebhookHistoryEntry['outcome']
+): WebhookHistoryEntry {
+  return {
+    event_id: eventId,
+    event_type: 'job.completed',
+    url: 'https://receiver.example.com/hooks',
+    attempt: 8,
+    delivered_at: deliveredAt,
+    status_code: 500,
+    success: false,
+    duration_ms: 5,
+    outcome,
+    envelope: buildWebhookEnvelope({
+      event_type: 'job.completed',
+      event_id: eventId,
+      subject_id: 'job_1',
+      status: 'completed',
+      source: 'condor',
+    }),
+  };
+}
+
+function replayEvent(body: unknown, apiKey = 'ak_ops.secret'): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'POST',
+    path: '/condor/admin/webhooks/replay',
+    headers: { 'X-API-Key': apiKey },
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    body: JSON.stringify(body),
+    isBase64Encoded: false,
+    requestContext: {},
+  } as unknown as APIGatewayProxyEvent;
+}
+
+describe('createWebhookReplayRouter', () => {
+  let send: ReturnType<typeof vi.fn>;
+  let history: InMemoryWebhookHistory;
+  let handle: ReturnType<ReturnType<typeof createWebhookReplayRouter>['handler']>;
+
+  beforeEach(async () => {
+    send = vi.fn(async () => ({}));
+    history = new InMemoryWebhookHistory();
+    await history.record(entry('evt_1', '2025-12-01T10:00:00.000Z', 'failed'));
+    await history.record(entry('evt_2', '2025-12-01T11:00:00.000Z', 'failed'));
+    await history.record(entry('evt_3', '2025-12-01T12:00:00.000Z', 'delivered'));
+
+    const scopes: Record<string, string[]> = { ak_ops: ['webhooks:admin'], ak_app: ['jobs:write'] };
+    const clientRegistry: ClientRegistry = {
+      getClient: async (keyId) =>
+        scopes[keyId]
+          ? {
+              keyId,
+              clientId: keyId,
+              clientName: keyId,
+              services: ['condor'],
+              scopes: scopes[keyId],
+              hash: hashApiKey('secret'),
+            }
+          : null,
+    };
+
+    handle = createWebhookReplayRouter({
+      servicePrefix: 'condor',
+      auth: {
+        secretPath: '/aviary/shared/api-key',
+        clientRegistry,
+        cache: new SecretCache(async () => JSON.stringify({ AVIARY_SHARED_API_KEY: 'shared' })),
+      },
+      history,
+      queueUrl: QUEUE_URL,
+      client: { send } as any,
+    }).handler();
+  });
+
+  const queued = () => send.mock.calls.map((call) => JSON.parse(call[0].input.MessageBody));
+
+  it('replays a single event, continuing its attempt count', async () => {
+    const result = await handle(replayEvent({ event_id: 'evt_1' }));
+
+    expect(result.statusCode).toBe(202);
+    expect(JSON.parse(result.body!).data).toEqual({ replayed: ['evt_1'], count: 1 });
+    expect(queued()).toEqual([
+      {
+        envelope: expect.objectContaining({ event_id: 'evt_1' }),
+        url: 'https://receiver.example.com/hooks',
+        previous_attempts: 8,
+      },
+    ]);
+  });
+
+  it('replays failures in a time window', async () => {
+    const result = await handle(
+      replayEvent({ from: '2025-12-01T00:00:00Z', to: '2025-12-01T23:59:59Z' })
+    );
+
+    expect(JSON.parse(result.body!).data).toEqual({ replayed: ['evt_1', 'evt_2'], count: 2 });
+  });
+
+  it('skips failures delivered by an earlier replay', async () => {
+    await history.record(entry('evt_1', '2025-12-01T13:00:00.000Z', 'delivered'));
+
+    const result = await handle(
+      replayEvent({ from: '2025-12-01T00:00:00Z', to: '2025-12-01T23:59:59Z' })
+    );
+
+    expect(JSON.parse(result.body!).data).toEqual({ replayed: ['evt_2'], count: 1 });
+  });
+
+  it('returns 404 for unknown events', async () => {
+    const result = await handle(replayEvent({ event_id: 'evt_missing' }));
+
+    expect(result.statusCode).toBe(404);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('rejects incomplete or oversized windows', async () => {
+    const partial = await handle(replayEvent({ from: '2025-12-01T00:00:00Z' }));
+    const huge = await handle(
+      replayEvent({ from: '2025-01-01T00:00:00Z', to: '2025-12-01T00:00:00Z' })
+    );
+    const unknownField = await handle(replayEvent({ event_id: 'evt_1', force: true }));
+
+    expect(partial.statusCode).toBe(400);
+    expect(JSON.parse(huge.body!).error.message).toBe('Time window must not exceed 168 hours');
+    expect(unknownField.statusCode).toBe(400);
+  });
+
+  it('requires the admin scope', async () => {
+    const result = await handle(replayEvent({ event_id: 'evt_1' }, 'ak_app.secret'));
+
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('rejects the shared key', async () => {
+    const result = await handle(replayEvent({ event_id: 'evt_1' }, 'shared'));
+
+    expect(result.statusCode).toBe(403);
+    expect(JSON.parse(result.body!).error.message).toBe(
+      'Replaying webhooks requires a client key with the webhooks:admin scope'
+    );
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { gunzipSync } from 'zlib';
+import {
+  blobChecksum,
+  buildWebhookEnvelope,
+  createTraceparent,
+  deliverWebhook,
+} from '../src/webhooks';
+import { computeSignature } from '../src/signature';
+import { SecretCache } from '../src/secret-cache';
+
+const SECRET = 'local-webhook-secret';
+
+const baseInput = {
+  event_type: 'job.completed',
+  subject_id: 'job_feed-1_1759255913454',
+  status: 'completed',
+  source: 'condor',
+};
+
+describe('buildWebhookEnvelope', () => {
+  it('fills the standard envelope fields', () => {
+    const envelope = buildWebhookEnvelope(
+      {
+        ...baseInput,
+        event_id: 'evt_1',
+        correlation_id: 'rec123',
+        occurred_at: new Date('2025-09-23T06:12:38Z'),
+      },
+      { deliveredAt: new Date('2025-09-23T06:12:39Z') }
+    );
+
+    expect(envelope).toEqual({
+      event_type: 'job.completed',
+      version: '1.0',
+      event_id: 'evt_1',
+      subject_id: 'job_feed-1_1759255913454',
+      status: 'completed',
+      source: 'condor',
+      occurred_at: '2025-09-23T06:12:38.000Z',
+      delivered_at: '2025-09-23T06:12:39.000Z',
+      attempt: 1,
+      correlation_id: 'rec123',
+      artifacts: {},
+    });
+  });
+
+  it('includes error only on failures', () => {
+    const error = { code: 'TTS_FAILED', message: 'Voice not available' };
+
+    expect(buildWebhookEnvelope({ ...baseInput, status: 'failed', error }).error).toEqual(error);
+    expect(buildWebhookEnvelope({ ...baseInput, error: null })).not.toHaveProperty('error');
+  });
+
+  it('generates an event id', () => {
+    const first = buildWebhookEnvelope(baseInput);
+    const second = buildWebhookEnvelope(baseInput);
+
+    expect(first.event_id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(first.event_id).not.toBe(second.event_id);
+  });
+
+  it('inlines small blobs as UTF-8 with checksum and size', () => {
+    const blob = { text: 'héllo' };
+    const envelope = buildWebhookEnvelope({ ...baseInput, blob });
+    const serialized = JSON.stringify(blob);
+
+    expect(envelope).toMatchObject({
+      blob_schema_version: '1.0',
+      blob_checksum: blobChecksum(serialized),
+      blob_size: Buffer.byteLength(serialized),
+      blob_encoding: 'utf-8',
+      blob_truncated: false,
+      blob: serialized,
+    });
+    expect(envelope.blob_checksum).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it('compresses blobs above the threshold', () => {
+    const blob = 'a'.repeat(5000);
+    const envelope = buildWebhookEnvelope({ ...baseInput, blob }, { compressAboveBytes: 1000 });
+
+    expect(envelope.blob_encoding).toBe('gzip+base64');
+    expect(envelope.blob_size).toBe(5000);
+    expect(envelope.blob_checksum).toBe(blobChecksum(blob));
+    expect(gunzipSync(Buffer.from(envelope.blob!, 'base64')).toString()).toBe(blob);
+  });
+
+  it('drops blobs over the limit and falls back to resource_url', () => {
+    const blob = randomBytes(500).toString('hex');
+    const envelope = buildWebhookEnvelope(
+      { ...baseInput, blob, artifacts: { resource_url: 'https://cdn.example.com/result.json' } },
+      { compressAboveBytes: 10, maxBlobBytes: 50 }
+    );
+
+    expect(envelope).toMatchObject({
+      blob_truncated: true,
+      blob: null,
+      blob_size: Buffer.byteLength(blob),
+      blob_checksum: blobChecksum(blob),
+    });
+  });
+
+  it('refuses oversized blobs without a resource_url', () => {
+    expect(() =>
+      buildWebhookEnvelope(
+        { ...baseInput, blob: 'x'.repeat(200) },
+        { compressAboveBytes: 10, maxBlobBytes: 5 }
+      )
+    ).toThrow('artifacts.resource_url is not set');
+  });
+});
+
+describe('createTraceparent', () => {
+  it('creates a W3C traceparent', () => {
+    expect(createTraceparent()).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+  });
+});
+
+describe('deliverWebhook', () => {
+  let server: Server;
+  let url: string;
+  let received: { headers: IncomingMessage['headers']; body: string }[];
+  let respondWith: { status: number; body?: string; delayMs?: number };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        setTimeout(() => {
+          res.statusCode = respondWith.status;
+          res.end(respondWith.body ?? '');
+        }, respondWith.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    respondWith = { status: 200, body: 'ok' };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('posts a signed envelope with tracing headers', async () => {
+    const envelope = buildWebhookEnvelope({ ...baseInput, correlation_id: 'rec123', blob: { a: 1 } });
+
+    const record = await deliverWebhook(envelope, { url, secret: SECRET, attempt: 2 });
+
+    expect(record).toMatchObject({
+      event_id: envelope.event_id,
+      event_type: 'job.completed',
+      url,
+      attempt: 2,
+      status_code: 200,
+      success: true,
+      response_body: 'ok',
+    });
+
+    const [request] = received;
+    const sent = JSON.parse(request.body);
+    expect(sent).toMatchObject({ event_id: envelope.event_id, attempt: 2, blob: '{"a":1}' });
+    expect(sent.delivered_at).toBe(record.delivered_at);
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-request-id']).toBe('rec123');
+    expect(request.headers.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(request.headers['x-signature']).toBe(
+      computeSignature(SECRET, request.headers['x-timestamp'] as string, request.body)
+    );
+  });
+
+  it('reads the signing secret from Secrets Manager', async () => {
+    const cache = new SecretCache(async () => JSON.stringify({ AVIARY_SIGNING_SECRET: 'from-secret' }));
+    const envelope = buildWebhookEnvelope(baseInput);
+
+    await deliverWebhook(envelope, { url, secretPath: 'your-service/dev/webhook-secret', cache });
+
+    const [request] = received;
+    expect(request.headers['x-signature']).toBe(
+      computeSignature('from-secret', request.headers['x-timestamp'] as string, request.body)
+    );
+  });
+
+  it('reports non-2xx responses without throwing', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respondWith = { status: 503, body: 'busy' };
+
+    const record = await deliverWebhook(buildWebhookEnvelope(baseInput), { url, secret: SECRET });
+
+    expect(record).toMatchObject({ status_code: 503, success: false, response_body: 'busy' });
+  });
+
+  it('reports timeouts', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respondWith = { status: 200, delayMs: 200 };
+
+    const record = await deliverWebhook(buildWebhookEnvelope(baseInput), {
+      url,
+      secret: SECRET,
+      timeoutMs: 50,
+    });
+
+    expect(record).toMatchObject({ status_code: null, success: false, error: 'Timed out after 50ms' });
+  });
+
+  it('requires https for remote receivers', async () => {
+    await expect(
+      deliverWebhook(buildWebhookEnvelope(baseInput), { url: 'http://example.com/hook', secret: SECRET })
+    ).rejects.toThrow('must use https');
+  });
+
+  it('requires a signing secret', async () => {
+    const cache = new SecretCache(async () => null);
+
+    await expect(
+      deliverWebhook(buildWebhookEnvelope(baseInput), { url, secretPath: '/missing', cache })
+    ).rejects.toThrow('No webhook signing secret at /missing');
+  });
+});
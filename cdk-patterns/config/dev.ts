@@ -26,6 +26,8 @@ export const DevConfig: ServiceConfig = {
     maxReceiveCount: 3,
   },
   secrets: {
+    sharedApiKey: '/aviary/shared/api-key',
+    clientRegistry: '/aviary/shared/client-registry',
     exampleApiKey: 'your-service/dev/example-key',
     webhookHmacSecret: 'your-service/dev/webhook-secret',
   },
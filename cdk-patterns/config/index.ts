@@ -28,6 +28,10 @@ export interface ServiceConfig {
     maxReceiveCount: number;
   };
   secrets: {
+    // Shared Aviary API key checked by the API Gateway authorizer
+    sharedApiKey: string;
+    // Per-client key registry; admin keys for webhook replay live here
+    clientRegistry: string;
     // Add your service-specific secrets here
     exampleApiKey: string;
     webhookHmacSecret: string;
@@ -26,6 +26,8 @@ export const ProdConfig: ServiceConfig = {
     maxReceiveCount: 5,
   },
   secrets: {
+    sharedApiKey: '/aviary/shared/api-key',
+    clientRegistry: '/aviary/shared/client-registry',
     exampleApiKey: 'your-service/prod/example-key',
     webhookHmacSecret: 'your-service/prod/webhook-secret',
   },
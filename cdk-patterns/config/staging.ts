@@ -26,6 +26,8 @@ export const StagingConfig: ServiceConfig = {
     maxReceiveCount: 3,
   },
   secrets: {
+    sharedApiKey: '/aviary/shared/api-key',
+    clientRegistry: '/aviary/shared/client-registry',
     exampleApiKey: 'your-service/staging/example-key',
     webhookHmacSecret: 'your-service/staging/webhook-secret',
   },
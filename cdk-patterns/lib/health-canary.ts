@@ -0,0 +1,220 @@
+/**
+ * Health Canary - Synthetic health checks for Aviary services
+ *
+ * Runs the @aviary/health canary on a schedule:
+ * - Calls the service's /health from outside the API and parses the
+ *   HealthCheckResponse (optionally also an authenticated smoke endpoint)
+ * - Publishes Availability, Degraded and Latency metrics (namespace
+ *   Aviary/Canary) through CloudWatch Embedded Metric Format logs
+ * - Alarms on consecutive failed checks and on a sustained degraded status
+ *
+ * Lambda bundle only needs:
+ *   dist/lambdas/health-canary:  export { healthCanaryHandler as handler } from '@aviary/health';
+ *
+ * Usage:
+ *   const alarmTopic = createAlarmTopic(this, 'AlarmTopic', { serviceName, environment });
+ *   new HealthCanary(this, 'HealthCanary', { serviceName, environment, healthUrl, alarmTopic });
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatch_actions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+
+export interface HealthCanaryProps {
+  /**
+   * Service name for resource naming and metric dimensions (e.g., 'condor')
+   */
+  serviceName: string;
+
+  /**
+   * Environment (dev, staging, prod)
+   */
+  environment: string;
+
+  /**
+   * Full URL of the service's health endpoint (e.g., `${api.url}health`)
+   */
+  healthUrl: string;
+
+  /**
+   * Authenticated endpoint that must answer 2xx (optional)
+   */
+  smokeUrl?: string;
+
+  /**
+   * Secrets Manager name of the API key sent to the smoke endpoint (required with smokeUrl)
+   */
+  apiKeySecretName?: string;
+
+  /**
+   * How often the canary runs (default: 1 minute)
+   */
+  schedule?: cdk.Duration;
+
+  /**
+   * Consecutive failed checks before the availability alarm fires (default: 3)
+   */
+  failureThreshold?: number;
+
+  /**
+   * Consecutive degraded checks before the degraded alarm fires (default: 5)
+   */
+  degradedThreshold?: number;
+
+  /**
+   * Canary Lambda code (default: asset at dist/lambdas/health-canary)
+   */
+  code?: lambda.Code;
+
+  /**
+   * SNS topic for alarms, e.g. from createAlarmTopic (optional - alarms still created without it)
+   */
+  alarmTopic?: sns.ITopic;
+
+  /**
+   * CloudWatch log retention in days (default: 14)
+   */
+  logRetentionDays?: number;
+}
+
+export class HealthCanary extends Construct {
+  public readonly canaryFunction: lambda.Function;
+  public readonly rule: events.Rule;
+  public readonly availabilityAlarm: cloudwatch.Alarm;
+  public readonly degradedAlarm: cloudwatch.Alarm;
+  public readonly smokeAlarm?: cloudwatch.Alarm;
+
+  private readonly dimensions: Record<string, string>;
+  private readonly schedule: cdk.Duration;
+
+  constructor(scope: Construct, id: string, props: HealthCanaryProps) {
+    super(scope, id);
+
+    const {
+      serviceName,
+      environment,
+      healthUrl,
+      smokeUrl,
+      apiKeySecretName,
+      schedule = cdk.Duration.minutes(1),
+      failureThreshold = 3,
+      degradedThreshold = 5,
+      code = lambda.Code.fromAsset('dist/lambdas/health-canary'),
+      alarmTopic,
+      logRetentionDays = 14,
+    } = props;
+
+    if (smokeUrl && !apiKeySecretName) {
+      throw new Error('HealthCanary: apiKeySecretName is required with smokeUrl');
+    }
+
+    const alarmNamePrefix = `${serviceName}-${environment}-canary`;
+    this.dimensions = { Service: serviceName, Environment: environment };
+    this.schedule = schedule;
+
+    // ========== Canary ==========
+    this.canaryFunction = new lambda.Function(this, 'CanaryFunction', {
+      functionName: `${serviceName}-${environment}-health-canary`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 128,
+      environment: {
+        SERVICE_NAME: serviceName,
+        ENVIRONMENT: environment,
+        CANARY_HEALTH_URL: healthUrl,
+        ...(smokeUrl ? { CANARY_SMOKE_URL: smokeUrl } : {}),
+        ...(apiKeySecretName ? { CANARY_API_KEY_SECRET_PATH: apiKeySecretName } : {}),
+      },
+      logRetention: logRetentionDays,
+    });
+
+    if (apiKeySecretName) {
+      secretsmanager.Secret.fromSecretNameV2(this, 'ApiKeySecret', apiKeySecretName)
+        .grantRead(this.canaryFunction);
+    }
+
+    this.rule = new events.Rule(this, 'Schedule', {
+      ruleName: `${serviceName}-${environment}-health-canary`,
+      schedule: events.Schedule.rate(schedule),
+      targets: [new targets.LambdaFunction(this.canaryFunction)],
+    });
+
+    // ========== Alarms ==========
+    const canaryMetric = (metricName: string, statistic: string) =>
+      new cloudwatch.Metric({
+        namespace: 'Aviary/Canary',
+        metricName,
+        dimensionsMap: this.dimensions,
+        statistic,
+        period: schedule,
+      });
+
+    // Missing data means the canary itself did not run - treat as a failure
+    this.availabilityAlarm = new cloudwatch.Alarm(this, 'AvailabilityAlarm', {
+      alarmName: `${alarmNamePrefix}-availability`,
+      alarmDescription: `${serviceName} /health failed ${failureThreshold} consecutive canary checks`,
+      metric: canaryMetric('Availability', 'Minimum'),
+      threshold: 1,
+      evaluationPeriods: failureThreshold,
+      datapointsToAlarm: failureThreshold,
+      comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+    });
+
+    this.degradedAlarm = new cloudwatch.Alarm(this, 'DegradedAlarm', {
+      alarmName: `${alarmNamePrefix}-degraded`,
+      alarmDescription: `${serviceName} reported degraded for ${degradedThreshold} consecutive canary checks`,
+      metric: canaryMetric('Degraded', 'Minimum'),
+      threshold: 1,
+      evaluationPeriods: degradedThreshold,
+      datapointsToAlarm: degradedThreshold,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+
+    if (smokeUrl) {
+      this.smokeAlarm = new cloudwatch.Alarm(this, 'SmokeAlarm', {
+        alarmName: `${alarmNamePrefix}-smoke`,
+        alarmDescription: `${serviceName} smoke endpoint failed ${failureThreshold} consecutive canary checks`,
+        metric: canaryMetric('SmokeAvailability', 'Minimum'),
+        threshold: 1,
+        evaluationPeriods: failureThreshold,
+        datapointsToAlarm: failureThreshold,
+        comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+      });
+    }
+
+    // ========== SNS Actions (optional) ==========
+    if (alarmTopic) {
+      const snsAction = new cloudwatch_actions.SnsAction(alarmTopic);
+
+      for (const alarm of [this.availabilityAlarm, this.degradedAlarm, this.smokeAlarm]) {
+        alarm?.addAlarmAction(snsAction);
+        alarm?.addOkAction(snsAction);
+      }
+    }
+  }
+
+  /**
+   * Latency of the canary's /health calls, for dashboards
+   */
+  metricLatency(props?: cloudwatch.MetricOptions): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: 'Aviary/Canary',
+      metricName: 'Latency',
+      dimensionsMap: this.dimensions,
+      period: this.schedule,
+      statistic: 'p99',
+      ...props,
+    });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Idempotency - DynamoDB resources for @aviary/auth idempotency keys
+ *
+ * Two pieces, matching infrastructure-standards.md pattern 9:
+ * - IdempotencyTable: table for DynamoDBIdempotencyStore (partition key
+ *   `idempotency_key`, TTL on `expires_at`). Claims need a conditional write on
+ *   the key itself, which a GSI cannot provide.
+ * - addIdempotencyKeyIndex: `idempotency_key` GSI on a service's job table, for
+ *   looking up the job a key created.
+ *
+ * Usage:
+ *   const idempotency = new IdempotencyTable(this, 'Idempotency', { serviceName, environment });
+ *   idempotency.grantTo(apiLambda);   // sets IDEMPOTENCY_TABLE
+ *
+ *   // In the handler:
+ *   const store = new DynamoDBIdempotencyStore(process.env.IDEMPOTENCY_TABLE!);
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { Construct } from 'constructs';
+
+export interface IdempotencyTableProps {
+  /**
+   * Service name for resource naming (e.g., 'condor')
+   */
+  serviceName: string;
+
+  /**
+   * Environment (dev, staging, prod)
+   */
+  environment: string;
+
+  /**
+   * Removal policy (default: RETAIN in prod, DESTROY elsewhere)
+   */
+  removalPolicy?: cdk.RemovalPolicy;
+}
+
+export class IdempotencyTable extends Construct {
+  public readonly table: dynamodb.Table;
+
+  constructor(scope: Construct, id: string, props: IdempotencyTableProps) {
+    super(scope, id);
+
+    const {
+      serviceName,
+      environment,
+      removalPolicy = environment === 'prod' ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY,
+    } = props;
+
+    // Records expire through TTL; DynamoDBIdempotencyStore also ignores expired
+    // items because TTL deletion can lag by hours.
+    this.table = new dynamodb.Table(this, 'Table', {
+      tableName: `${serviceName}-idempotency-${environment}`,
+      partitionKey: { name: 'idempotency_key', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expires_at',
+      removalPolicy,
+    });
+  }
+
+  /**
+   * Grant a Lambda read/write access and set its IDEMPOTENCY_TABLE variable
+   */
+  grantTo(fn: lambda.Function): void {
+    this.table.grantReadWriteData(fn);
+    fn.addEnvironment('IDEMPOTENCY_TABLE', this.table.tableName);
+  }
+}
+
+/**
+ * Add the `idempotency_key` GSI (infrastructure-standards.md pattern 9) to a table
+ * whose items store the key that created them
+ */
+export function addIdempotencyKeyIndex(table: dynamodb.Table, indexName = 'idempotency_key'): void {
+  table.addGlobalSecondaryIndex({
+    indexName,
+    partitionKey: { name: 'idempotency_key', type: dynamodb.AttributeType.STRING },
+    projectionType: dynamodb.ProjectionType.ALL,
+  });
+}
@@ -4,10 +4,17 @@
  * Created: CHI-267 - Add CloudWatch alarms to all Lambda functions
  *
  * Alarms per Lambda:
- * - Errors: Error rate > 5% for 2 consecutive 1-min periods
- * - Duration: p99 latency > threshold for 2 consecutive periods
- * - Throttles: Any throttles (> 0)
- * - DLQ: Dead letter queue messages > 0 (for async Lambdas)
+ * - Errors: Error rate > 5% for 2 consecutive 1-min periods, once there are
+ *   at least 10 invocations per period (critical)
+ * - Duration: p99 latency > threshold for 2 consecutive periods (warning), or
+ *   with durationAnomalyDetection, above the anomaly detection band instead
+ * - Throttles: Any throttles (> 0) (warning)
+ * - DLQ: Dead letter queue messages > 0 (for async Lambdas) (critical)
+ *
+ * Critical alarms notify alarmTopic; warning alarms notify warningAlarmTopic
+ * (falls back to alarmTopic). With compositeAlarm, the critical alarms notify
+ * once through a composite alarm instead of individually.
+ * createServiceCompositeAlarm rolls several functions up into one alarm.
  */
 
 import * as cdk from 'aws-cdk-lib';
@@ -29,6 +36,23 @@ export interface ILambdaMetrics {
   metricThrottles: (props?: cloudwatch.MetricOptions) => cloudwatch.Metric;
 }
 
+/**
+ * Alarm severity - each tier notifies its own SNS topic
+ */
+export type AlarmSeverity = 'warning' | 'critical';
+
+/**
+ * Alarms created by LambdaAlarms
+ */
+export type LambdaAlarmType = 'errors' | 'duration' | 'throttles' | 'dlq';
+
+const DEFAULT_SEVERITIES: Record<LambdaAlarmType, AlarmSeverity> = {
+  errors: 'critical',
+  duration: 'warning',
+  throttles: 'warning',
+  dlq: 'critical',
+};
+
 export interface LambdaAlarmsProps {
   /**
    * The Lambda function to monitor.
@@ -47,25 +71,58 @@ export interface LambdaAlarmsProps {
   environment: string;
 
   /**
-   * SNS topic for alarm notifications (optional - alarms still created without it)
+   * SNS topic for critical alarms, and for warning alarms unless warningAlarmTopic
+   * is set (optional - alarms still created without it)
    */
   alarmTopic?: sns.ITopic;
 
+  /**
+   * SNS topic for warning alarms (default: alarmTopic)
+   */
+  warningAlarmTopic?: sns.ITopic;
+
+  /**
+   * Severity per alarm (default: errors and dlq critical, duration and throttles warning)
+   */
+  severities?: Partial<Record<LambdaAlarmType, AlarmSeverity>>;
+
+  /**
+   * Notify critical alarms through one composite alarm instead of individually (default: false)
+   */
+  compositeAlarm?: boolean;
+
   /**
    * Dead letter queue to monitor (optional - for async Lambdas)
    */
   deadLetterQueue?: sqs.IQueue;
 
   /**
-   * Duration threshold in seconds (default: 10s for p99)
+   * Duration threshold in seconds (default: 10s for p99; unused with durationAnomalyDetection)
    */
   durationThresholdSeconds?: number;
 
+  /**
+   * Alarm when p99 duration is above the CloudWatch anomaly detection band
+   * instead of above durationThresholdSeconds (default: false)
+   */
+  durationAnomalyDetection?: boolean;
+
+  /**
+   * Width of the anomaly detection band in standard deviations (default: 2)
+   */
+  durationAnomalyBandWidth?: number;
+
   /**
    * Error rate threshold as percentage (default: 5%)
    */
   errorRateThresholdPercent?: number;
 
+  /**
+   * Invocations per period below which the error rate is not evaluated (default: 10)
+   * Keeps low-traffic functions from alarming on a single error
+   */
+  minInvocations?: number;
+
   /**
    * Whether to treat missing data as not breaching (default: true)
    * Set to false for critical production services
@@ -75,9 +132,22 @@ export interface LambdaAlarmsProps {
 
 export class LambdaAlarms extends Construct {
   public readonly errorAlarm: cloudwatch.Alarm;
-  public readonly durationAlarm: cloudwatch.Alarm;
+  /** Fixed p99 threshold; not created with durationAnomalyDetection */
+  public readonly durationAlarm?: cloudwatch.Alarm;
+  /**
+   * Replaces durationAlarm with durationAnomalyDetection. A CfnAlarm because the
+   * L2 Alarm only takes a thresholdMetricId in newer CDK versions, so it is not in
+   * criticalAlarms or warningAlarms; its severity still picks its topic and,
+   * when critical, puts it in criticalAlarmRules.
+   */
+  public readonly durationAnomalyAlarm?: cloudwatch.CfnAlarm;
   public readonly throttleAlarm: cloudwatch.Alarm;
   public readonly dlqAlarm?: cloudwatch.Alarm;
+  public readonly compositeAlarm?: cloudwatch.CompositeAlarm;
+  public readonly criticalAlarms: cloudwatch.Alarm[] = [];
+  public readonly warningAlarms: cloudwatch.Alarm[] = [];
+  /** Rules matching any critical alarm in ALARM, durationAnomalyAlarm included */
+  public readonly criticalAlarmRules: cloudwatch.IAlarmRule[] = [];
 
   constructor(scope: Construct, id: string, props: LambdaAlarmsProps) {
     super(scope, id);
@@ -87,11 +157,17 @@ export class LambdaAlarms extends Construct {
       serviceName,
       environment,
       alarmTopic,
+      warningAlarmTopic = alarmTopic,
+      compositeAlarm = false,
       deadLetterQueue,
       durationThresholdSeconds = 10,
+      durationAnomalyDetection = false,
+      durationAnomalyBandWidth = 2,
       errorRateThresholdPercent = 5,
+      minInvocations = 10,
       treatMissingDataAsNotBreaching = true,
     } = props;
+    const severities = { ...DEFAULT_SEVERITIES, ...props.severities };
 
     const alarmNamePrefix = `${serviceName}-${environment}`;
     const treatMissingData = treatMissingDataAsNotBreaching
@@ -99,7 +175,8 @@ export class LambdaAlarms extends Construct {
       : cloudwatch.TreatMissingData.BREACHING;
 
     // ========== Error Rate Alarm ==========
-    // Uses math expression: (Errors / Invocations) * 100 > threshold
+    // Uses math expression: (Errors / Invocations) * 100 > threshold,
+    // reported as 0 while invocations < minInvocations
     const errorMetric = lambdaFunction.metricErrors({
       period: cdk.Duration.minutes(1),
       statistic: 'Sum',
@@ -111,7 +188,7 @@ export class LambdaAlarms extends Construct {
     });
 
     const errorRateExpression = new cloudwatch.MathExpression({
-      expression: '(errors / invocations) * 100',
+      expression: `IF(invocations >= ${minInvocations}, (errors / invocations) * 100, 0)`,
       usingMetrics: {
         errors: errorMetric,
         invocations: invocationMetric,
@@ -132,21 +209,59 @@ export class LambdaAlarms extends Construct {
     });
 
     // ========== Duration Alarm ==========
-    // p99 latency > threshold
-    this.durationAlarm = new cloudwatch.Alarm(this, 'DurationAlarm', {
-      alarmName: `${alarmNamePrefix}-${lambdaFunction.functionName}-duration-p99`,
-      alarmDescription: `Lambda ${lambdaFunction.functionName} p99 duration > ${durationThresholdSeconds}s`,
-      metric: lambdaFunction.metricDuration({
-        period: cdk.Duration.minutes(1),
-        statistic: 'p99',
-      }),
-      threshold: durationThresholdSeconds * 1000, // Convert to milliseconds
-      evaluationPeriods: 2,
-      datapointsToAlarm: 2,
-      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
-      treatMissingData,
+    // p99 latency above the anomaly detection band, or else > threshold
+    const durationMetric = lambdaFunction.metricDuration({
+      period: cdk.Duration.minutes(1),
+      statistic: 'p99',
     });
 
+    if (durationAnomalyDetection) {
+      this.durationAnomalyAlarm = new cloudwatch.CfnAlarm(this, 'DurationAnomalyAlarm', {
+        alarmName: `${alarmNamePrefix}-${lambdaFunction.functionName}-duration-anomaly`,
+        alarmDescription: `Lambda ${lambdaFunction.functionName} p99 duration above the expected band`,
+        metrics: [
+          {
+            id: 'duration',
+            returnData: true,
+            metricStat: {
+              metric: {
+                namespace: durationMetric.namespace,
+                metricName: durationMetric.metricName,
+                dimensions: Object.entries(durationMetric.dimensions || {}).map(([name, value]) => ({
+                  name,
+                  value: String(value),
+                })),
+              },
+              period: 60,
+              stat: 'p99',
+            },
+          },
+          {
+            id: 'band',
+            expression: `ANOMALY_DETECTION_BAND(duration, ${durationAnomalyBandWidth})`,
+            label: 'Expected p99 duration',
+            returnData: true,
+          },
+        ],
+        thresholdMetricId: 'band',
+        evaluationPeriods: 2,
+        datapointsToAlarm: 2,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_UPPER_THRESHOLD,
+        treatMissingData,
+      });
+    } else {
+      this.durationAlarm = new cloudwatch.Alarm(this, 'DurationAlarm', {
+        alarmName: `${alarmNamePrefix}-${lambdaFunction.functionName}-duration-p99`,
+        alarmDescription: `Lambda ${lambdaFunction.functionName} p99 duration > ${durationThresholdSeconds}s`,
+        metric: durationMetric,
+        threshold: durationThresholdSeconds * 1000, // Convert to milliseconds
+        evaluationPeriods: 2,
+        datapointsToAlarm: 2,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData,
+      });
+    }
+
     // ========== Throttle Alarm ==========
     // Any throttles (> 0)
     this.throttleAlarm = new cloudwatch.Alarm(this, 'ThrottleAlarm', {
@@ -180,27 +295,126 @@ export class LambdaAlarms extends Construct {
       });
     }
 
-    // ========== SNS Actions (optional) ==========
-    if (alarmTopic) {
-      const snsAction = new cloudwatch_actions.SnsAction(alarmTopic);
-
-      this.errorAlarm.addAlarmAction(snsAction);
-      this.errorAlarm.addOkAction(snsAction);
+    // ========== Severity Tiers ==========
+    const alarms: Array<[LambdaAlarmType, cloudwatch.Alarm | undefined]> = [
+      ['errors', this.errorAlarm],
+      ['duration', this.durationAlarm],
+      ['throttles', this.throttleAlarm],
+      ['dlq', this.dlqAlarm],
+    ];
+    for (const [type, alarm] of alarms) {
+      if (alarm) {
+        (severities[type] === 'critical' ? this.criticalAlarms : this.warningAlarms).push(alarm);
+      }
+    }
 
-      this.durationAlarm.addAlarmAction(snsAction);
-      this.durationAlarm.addOkAction(snsAction);
+    this.criticalAlarmRules.push(
+      ...this.criticalAlarms.map((alarm) => cloudwatch.AlarmRule.fromAlarm(alarm, cloudwatch.AlarmState.ALARM))
+    );
+    const anomalyIsCritical = severities.duration === 'critical';
+    if (this.durationAnomalyAlarm && anomalyIsCritical) {
+      this.criticalAlarmRules.push(
+        cloudwatch.AlarmRule.fromString(`ALARM("${this.durationAnomalyAlarm.attrArn}")`)
+      );
+    }
 
-      this.throttleAlarm.addAlarmAction(snsAction);
-      this.throttleAlarm.addOkAction(snsAction);
+    // ========== Composite Alarm (optional) ==========
+    if (compositeAlarm && this.criticalAlarmRules.length > 0) {
+      this.compositeAlarm = new cloudwatch.CompositeAlarm(this, 'CompositeAlarm', {
+        compositeAlarmName: `${alarmNamePrefix}-${lambdaFunction.functionName}-composite`,
+        alarmDescription: `Lambda ${lambdaFunction.functionName} has a critical alarm`,
+        alarmRule: cloudwatch.AlarmRule.anyOf(...this.criticalAlarmRules),
+      });
+    }
 
-      if (this.dlqAlarm) {
-        this.dlqAlarm.addAlarmAction(snsAction);
-        this.dlqAlarm.addOkAction(snsAction);
+    // ========== SNS Actions (optional) ==========
+    const notify = (alarm: cloudwatch.AlarmBase, topic: sns.ITopic | undefined) => {
+      if (!topic) {
+        return;
       }
+      const snsAction = new cloudwatch_actions.SnsAction(topic);
+      alarm.addAlarmAction(snsAction);
+      alarm.addOkAction(snsAction);
+    };
+
+    for (const alarm of this.compositeAlarm ? [this.compositeAlarm] : this.criticalAlarms) {
+      notify(alarm, alarmTopic);
+    }
+    for (const alarm of this.warningAlarms) {
+      notify(alarm, warningAlarmTopic);
+    }
+
+    // The CfnAlarm takes topic ARNs directly; a critical one notifies through the composite if any
+    const anomalyTopic = anomalyIsCritical ? (this.compositeAlarm ? undefined : alarmTopic) : warningAlarmTopic;
+    if (this.durationAnomalyAlarm && anomalyTopic) {
+      this.durationAnomalyAlarm.alarmActions = [anomalyTopic.topicArn];
+      this.durationAnomalyAlarm.okActions = [anomalyTopic.topicArn];
     }
   }
 }
 
+/**
+ * Props for a service-wide composite alarm
+ */
+export interface ServiceCompositeAlarmProps {
+  /**
+   * Service name for alarm naming
+   */
+  serviceName: string;
+
+  /**
+   * Environment (dev, staging, prod)
+   */
+  environment: string;
+
+  /**
+   * LambdaAlarms of the service's functions - their composite alarms, or
+   * their critical alarm rules when they have none
+   */
+  alarms: LambdaAlarms[];
+
+  /**
+   * SNS topic to notify (optional). Leave alarmTopic off the LambdaAlarms so
+   * an incident notifies once.
+   */
+  alarmTopic?: sns.ITopic;
+}
+
+/**
+ * Create one composite alarm that fires when any function of a service has a
+ * critical alarm
+ */
+export function createServiceCompositeAlarm(
+  scope: Construct,
+  id: string,
+  props: ServiceCompositeAlarmProps
+): cloudwatch.CompositeAlarm {
+  const { serviceName, environment, alarmTopic } = props;
+
+  const rules = props.alarms.flatMap((alarms) =>
+    alarms.compositeAlarm
+      ? [cloudwatch.AlarmRule.fromAlarm(alarms.compositeAlarm, cloudwatch.AlarmState.ALARM)]
+      : alarms.criticalAlarmRules
+  );
+  if (rules.length === 0) {
+    throw new Error('createServiceCompositeAlarm: no critical alarms to combine');
+  }
+
+  const alarm = new cloudwatch.CompositeAlarm(scope, id, {
+    compositeAlarmName: `${serviceName}-${environment}-composite`,
+    alarmDescription: `${serviceName} ${environment} has a critical alarm`,
+    alarmRule: cloudwatch.AlarmRule.anyOf(...rules),
+  });
+
+  if (alarmTopic) {
+    const snsAction = new cloudwatch_actions.SnsAction(alarmTopic);
+    alarm.addAlarmAction(snsAction);
+    alarm.addOkAction(snsAction);
+  }
+
+  return alarm;
+}
+
 /**
  * Props for creating a shared alarm topic
  */
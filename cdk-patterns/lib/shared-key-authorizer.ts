@@ -0,0 +1,144 @@
+/**
+ * Shared Key Authorizer - API Gateway Lambda authorizer for Aviary services
+ *
+ * Runs the @aviary/auth shared-key / client-key check at the API Gateway edge,
+ * so unauthenticated requests are rejected before any service Lambda runs.
+ *
+ * The authorizer Lambda bundle (default: dist/lambdas/authorizer) only needs:
+ *   export { authorizerHandler as handler } from '@aviary/auth';
+ *
+ * Usage:
+ *   const auth = new SharedKeyAuthorizer(this, 'Authorizer', { ... });
+ *   resource.addMethod('POST', integration, auth.methodOptions);
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+
+export interface SharedKeyAuthorizerProps {
+  /**
+   * Service name for resource naming and the client `services` check (e.g., 'condor')
+   */
+  serviceName: string;
+
+  /**
+   * Environment (dev, staging, prod)
+   */
+  environment: string;
+
+  /**
+   * Secrets Manager name of the shared API key (e.g., '/aviary/shared/api-key')
+   */
+  sharedKeySecretName: string;
+
+  /**
+   * Secrets Manager name of the per-client key registry (optional)
+   */
+  clientRegistrySecretName?: string;
+
+  /**
+   * DynamoDB per-client key registry (optional, ignored if clientRegistrySecretName is set)
+   */
+  clientRegistryTable?: dynamodb.ITable;
+
+  /**
+   * Authorizer Lambda code (default: asset at dist/lambdas/authorizer)
+   */
+  code?: lambda.Code;
+
+  /**
+   * Header carrying the API key (default: X-API-Key).
+   * Requests without it are rejected by API Gateway without invoking the Lambda.
+   */
+  identityHeader?: string;
+
+  /**
+   * How long API Gateway caches an authorizer decision per key (default: 5 minutes, max 1 hour).
+   * Keep this at or below the secret cache TTL so rotated-out keys stop working promptly.
+   */
+  resultsCacheTtl?: cdk.Duration;
+
+  /**
+   * CloudWatch log retention in days (default: 14)
+   */
+  logRetentionDays?: number;
+}
+
+export class SharedKeyAuthorizer extends Construct {
+  public readonly function: lambda.Function;
+  public readonly authorizer: apigateway.RequestAuthorizer;
+
+  /**
+   * Method options that attach this authorizer to an API Gateway method
+   */
+  public readonly methodOptions: apigateway.MethodOptions;
+
+  constructor(scope: Construct, id: string, props: SharedKeyAuthorizerProps) {
+    super(scope, id);
+
+    const {
+      serviceName,
+      environment,
+      sharedKeySecretName,
+      clientRegistrySecretName,
+      clientRegistryTable,
+      code = lambda.Code.fromAsset('dist/lambdas/authorizer'),
+      identityHeader = 'X-API-Key',
+      resultsCacheTtl = cdk.Duration.minutes(5),
+      logRetentionDays = 14,
+    } = props;
+
+    const environmentVariables: Record<string, string> = {
+      AVIARY_SHARED_KEY_SECRET_PATH: sharedKeySecretName,
+      SERVICE_NAME: serviceName,
+      ENVIRONMENT: environment,
+    };
+
+    if (clientRegistrySecretName) {
+      environmentVariables.AVIARY_CLIENT_REGISTRY_SECRET_PATH = clientRegistrySecretName;
+    } else if (clientRegistryTable) {
+      environmentVariables.AVIARY_CLIENT_REGISTRY_TABLE = clientRegistryTable.tableName;
+    }
+
+    this.function = new lambda.Function(this, 'Function', {
+      functionName: `${serviceName}-${environment}-authorizer`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+      environment: environmentVariables,
+      logRetention: logRetentionDays,
+    });
+
+    // ========== Secret / Registry Access ==========
+    secretsmanager.Secret.fromSecretNameV2(this, 'SharedKeySecret', sharedKeySecretName)
+      .grantRead(this.function);
+
+    if (clientRegistrySecretName) {
+      secretsmanager.Secret.fromSecretNameV2(this, 'ClientRegistrySecret', clientRegistrySecretName)
+        .grantRead(this.function);
+    } else if (clientRegistryTable) {
+      clientRegistryTable.grantReadData(this.function);
+    }
+
+    // ========== Authorizer ==========
+    // REQUEST authorizer keyed on the API key header: cached decisions are per key,
+    // and the handler returns stage-wide policies so one decision covers every route.
+    this.authorizer = new apigateway.RequestAuthorizer(this, 'Authorizer', {
+      authorizerName: `${serviceName}-${environment}-shared-key`,
+      handler: this.function,
+      identitySources: [apigateway.IdentitySource.header(identityHeader)],
+      resultsCacheTtl,
+    });
+
+    this.methodOptions = {
+      authorizer: this.authorizer,
+      authorizationType: apigateway.AuthorizationType.CUSTOM,
+    };
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Webhook Delivery - Durable webhook retries for Aviary services
+ *
+ * Runs the @aviary/auth webhook worker behind an SQS queue:
+ * - Failed deliveries are retried with exponential backoff and jitter
+ *   (the worker hides the message for the backoff delay)
+ * - After maxAttempts receives, SQS parks the message in the DLQ,
+ *   which LambdaAlarms' DLQ alarm watches
+ * - Every attempt is written to a history table (TTL'd)
+ * - An admin route replays one event_id or all failures in a time window
+ *
+ * Lambda bundles only need:
+ *   dist/lambdas/webhook-worker:  export { webhookWorkerHandler as handler } from '@aviary/auth';
+ *   dist/lambdas/webhook-replay:  export { webhookReplayHandler as handler } from '@aviary/auth';
+ *
+ * Usage:
+ *   const webhooks = new WebhookDelivery(this, 'Webhooks', { ... });
+ *   webhooks.grantEnqueue(apiLambda);   // sets WEBHOOK_QUEUE_URL
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import { Construct } from 'constructs';
+import { LambdaAlarms } from './lambda-alarms';
+
+export interface WebhookDeliveryProps {
+  /**
+   * Service name for resource naming and the replay route prefix (e.g., 'condor')
+   */
+  serviceName: string;
+
+  /**
+   * Environment (dev, staging, prod)
+   */
+  environment: string;
+
+  /**
+   * Secrets Manager name of the webhook signing secret (config.secrets.webhookHmacSecret)
+   */
+  webhookSecretName: string;
+
+  /**
+   * Secrets Manager name of the shared API key, checked by the replay route
+   */
+  sharedKeySecretName: string;
+
+  /**
+   * Secrets Manager name of the per-client key registry. The replay route only
+   * accepts client keys with the webhooks:admin scope, so set this or
+   * clientRegistryTable to enable replays.
+   */
+  clientRegistrySecretName?: string;
+
+  /**
+   * DynamoDB per-client key registry (optional, ignored if clientRegistrySecretName is set)
+   */
+  clientRegistryTable?: dynamodb.ITable;
+
+  /**
+   * Delivery attempts before a webhook is parked in the DLQ (default: 8)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff after the first failed attempt, doubling per attempt (default: 30s)
+   */
+  baseDelay?: cdk.Duration;
+
+  /**
+   * Longest backoff between attempts (default: 1 hour, max 12 hours)
+   */
+  maxDelay?: cdk.Duration;
+
+  /**
+   * Worker Lambda code (default: asset at dist/lambdas/webhook-worker)
+   */
+  workerCode?: lambda.Code;
+
+  /**
+   * Replay Lambda code (default: asset at dist/lambdas/webhook-replay)
+   */
+  replayCode?: lambda.Code;
+
+  /**
+   * API to add `POST /admin/webhooks/replay` to (optional)
+   */
+  api?: apigateway.IRestApi;
+
+  /**
+   * SNS topic for worker and DLQ alarms (optional - alarms still created without it)
+   */
+  alarmTopic?: sns.ITopic;
+
+  /**
+   * CloudWatch log retention in days (default: 14)
+   */
+  logRetentionDays?: number;
+}
+
+export class WebhookDelivery extends Construct {
+  public readonly queue: sqs.Queue;
+  public readonly deadLetterQueue: sqs.Queue;
+  public readonly historyTable: dynamodb.Table;
+  public readonly workerFunction: lambda.Function;
+  public readonly replayFunction: lambda.Function;
+  public readonly alarms: LambdaAlarms;
+
+  constructor(scope: Construct, id: string, props: WebhookDeliveryProps) {
+    super(scope, id);
+
+    const {
+      serviceName,
+      environment,
+      webhookSecretName,
+      sharedKeySecretName,
+      clientRegistrySecretName,
+      clientRegistryTable,
+      maxAttempts = 8,
+      baseDelay = cdk.Duration.seconds(30),
+      maxDelay = cdk.Duration.hours(1),
+      workerCode = lambda.Code.fromAsset('dist/lambdas/webhook-worker'),
+      replayCode = lambda.Code.fromAsset('dist/lambdas/webhook-replay'),
+      api,
+      alarmTopic,
+      logRetentionDays = 14,
+    } = props;
+
+    const workerTimeout = cdk.Duration.seconds(60);
+
+    // ========== Queues ==========
+    this.deadLetterQueue = new sqs.Queue(this, 'DeadLetterQueue', {
+      queueName: `${serviceName}-webhooks-dlq-${environment}`,
+      retentionPeriod: cdk.Duration.days(14),
+    });
+
+    // maxReceiveCount is the attempt limit; the worker reads the receive count as `attempt`
+    this.queue = new sqs.Queue(this, 'Queue', {
+      queueName: `${serviceName}-webhooks-${environment}`,
+      visibilityTimeout: cdk.Duration.seconds(workerTimeout.toSeconds() * 6),
+      retentionPeriod: cdk.Duration.days(4),
+      deadLetterQueue: {
+        queue: this.deadLetterQueue,
+        maxReceiveCount: maxAttempts,
+      },
+    });
+
+    // ========== History Table ==========
+    this.historyTable = new dynamodb.Table(this, 'HistoryTable', {
+      tableName: `${serviceName}-webhook-history-${environment}`,
+      partitionKey: { name: 'event_id', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'delivered_at', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expires_at',
+      removalPolicy: environment === 'prod' ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Replay of failures in a time window queries this index
+    this.historyTable.addGlobalSecondaryIndex({
+      indexName: 'outcome-delivered_at',
+      partitionKey: { name: 'outcome', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'delivered_at', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // ========== Worker ==========
+    this.workerFunction = new lambda.Function(this, 'WorkerFunction', {
+      functionName: `${serviceName}-${environment}-webhook-worker`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code: workerCode,
+      timeout: workerTimeout,
+      memorySize: 256,
+      environment: {
+        WEBHOOK_QUEUE_URL: this.queue.queueUrl,
+        WEBHOOK_HISTORY_TABLE: this.historyTable.tableName,
+        WEBHOOK_SECRET_PATH: webhookSecretName,
+        WEBHOOK_MAX_ATTEMPTS: String(maxAttempts),
+        WEBHOOK_BASE_DELAY_SECONDS: String(baseDelay.toSeconds()),
+        WEBHOOK_MAX_DELAY_SECONDS: String(maxDelay.toSeconds()),
+        SERVICE_NAME: serviceName,
+        ENVIRONMENT: environment,
+      },
+      logRetention: logRetentionDays,
+    });
+
+    // Deliveries run one after another; 5 x 10s delivery timeout fits the 60s Lambda timeout
+    this.workerFunction.addEventSource(new lambdaEventSources.SqsEventSource(this.queue, {
+      batchSize: 5,
+      reportBatchItemFailures: true,
+    }));
+
+    this.queue.grantConsumeMessages(this.workerFunction);
+    this.historyTable.grantWriteData(this.workerFunction);
+    secretsmanager.Secret.fromSecretNameV2(this, 'WebhookSecret', webhookSecretName)
+      .grantRead(this.workerFunction);
+
+    // ========== Replay ==========
+    const replayEnvironment: Record<string, string> = {
+      WEBHOOK_QUEUE_URL: this.queue.queueUrl,
+      WEBHOOK_HISTORY_TABLE: this.historyTable.tableName,
+      AVIARY_SHARED_KEY_SECRET_PATH: sharedKeySecretName,
+      SERVICE_NAME: serviceName,
+      ENVIRONMENT: environment,
+    };
+    if (clientRegistrySecretName) {
+      replayEnvironment.AVIARY_CLIENT_REGISTRY_SECRET_PATH = clientRegistrySecretName;
+    } else if (clientRegistryTable) {
+      replayEnvironment.AVIARY_CLIENT_REGISTRY_TABLE = clientRegistryTable.tableName;
+    }
+
+    this.replayFunction = new lambda.Function(this, 'ReplayFunction', {
+      functionName: `${serviceName}-${environment}-webhook-replay`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code: replayCode,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+      environment: replayEnvironment,
+      logRetention: logRetentionDays,
+    });
+
+    this.queue.grantSendMessages(this.replayFunction);
+    this.historyTable.grantReadData(this.replayFunction);
+    secretsmanager.Secret.fromSecretNameV2(this, 'SharedKeySecret', sharedKeySecretName)
+      .grantRead(this.replayFunction);
+    if (clientRegistrySecretName) {
+      secretsmanager.Secret.fromSecretNameV2(this, 'ClientRegistrySecret', clientRegistrySecretName)
+        .grantRead(this.replayFunction);
+    } else if (clientRegistryTable) {
+      clientRegistryTable.grantReadData(this.replayFunction);
+    }
+
+    // The replay handler checks the client key and the webhooks:admin scope itself
+    if (api) {
+      api.root
+        .resourceForPath('admin/webhooks/replay')
+        .addMethod('POST', new apigateway.LambdaIntegration(this.replayFunction));
+    }
+
+    // ========== Alarms ==========
+    this.alarms = new LambdaAlarms(this, 'WorkerAlarms', {
+      lambdaFunction: this.workerFunction,
+      serviceName,
+      environment,
+      alarmTopic,
+      deadLetterQueue: this.deadLetterQueue,
+      durationThresholdSeconds: 45,
+    });
+  }
+
+  /**
+   * Allow a Lambda to queue webhooks and set its WEBHOOK_QUEUE_URL variable
+   */
+  grantEnqueue(fn: lambda.Function): void {
+    this.queue.grantSendMessages(fn);
+    fn.addEnvironment('WEBHOOK_QUEUE_URL', this.queue.queueUrl);
+  }
+}
@@ -1,6 +1,11 @@
 import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import { ServiceConfig } from '../config';
+import { HealthCanary } from './health-canary';
+import { IdempotencyTable, addIdempotencyKeyIndex } from './idempotency';
+import { createAlarmTopic } from './lambda-alarms';
+import { SharedKeyAuthorizer } from './shared-key-authorizer';
+import { WebhookDelivery } from './webhook-delivery';
 
 export interface YourServiceStackProps extends cdk.StackProps {
   environment: string;
@@ -23,6 +28,13 @@ export class YourServiceStack extends cdk.Stack {
         : cdk.RemovalPolicy.DESTROY,
     });
 
+    // Example: Idempotency (dedupes job submissions; jobs store their idempotency_key)
+    addIdempotencyKeyIndex(table);
+    const idempotency = new IdempotencyTable(this, 'Idempotency', {
+      serviceName: 'your-service',
+      environment,
+    });
+
     // Example: SQS Queue
     const dlq = new cdk.aws_sqs.Queue(this, 'DeadLetterQueue', {
       queueName: `your-service-dlq-${environment}`,
@@ -59,6 +71,7 @@ export class YourServiceStack extends cdk.Stack {
     // Grant permissions
     table.grantReadWriteData(lambda);
     queue.grantConsumeMessages(lambda);
+    idempotency.grantTo(lambda);
 
     // Add SQS event source
     lambda.addEventSource(new cdk.aws_lambda_event_sources.SqsEventSource(queue, {
@@ -82,6 +95,70 @@ export class YourServiceStack extends cdk.Stack {
       },
     });
 
+    // Example: Shared key authorizer (rejects unauthenticated requests at the edge)
+    const authorizer = new SharedKeyAuthorizer(this, 'SharedKeyAuthorizer', {
+      serviceName: 'your-service',
+      environment,
+      sharedKeySecretName: config.secrets.sharedApiKey,
+      logRetentionDays: config.monitoring.logRetentionDays,
+    });
+
+    const jobs = api.root.addResource('v1').addResource('jobs');
+    jobs.addMethod(
+      'POST',
+      new cdk.aws_apigateway.LambdaIntegration(lambda),
+      authorizer.methodOptions
+    );
+
+    // Example: Health endpoint (createHealthHandler from @aviary/health; public, probed by the canary)
+    const healthLambda = new cdk.aws_lambda.Function(this, 'HealthLambda', {
+      functionName: `YourServiceStack-${environment}-Health`,
+      runtime: cdk.aws_lambda.Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code: cdk.aws_lambda.Code.fromAsset('dist/lambdas/health'),
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+      environment: {
+        TABLE_NAME: table.tableName,
+        QUEUE_URL: queue.queueUrl,
+        ENVIRONMENT: environment,
+      },
+      logRetention: config.monitoring.logRetentionDays,
+    });
+    table.grant(healthLambda, 'dynamodb:DescribeTable');
+    queue.grant(healthLambda, 'sqs:GetQueueAttributes');
+
+    // GET /health (readiness) and /health/{mode} (live, ready, deep)
+    const healthIntegration = new cdk.aws_apigateway.LambdaIntegration(healthLambda);
+    const health = api.root.addResource('health');
+    health.addMethod('GET', healthIntegration);
+    health.addResource('{mode}').addMethod('GET', healthIntegration);
+
+    // Example: Webhook delivery (signed callbacks with retries, DLQ and replay)
+    const webhooks = new WebhookDelivery(this, 'WebhookDelivery', {
+      serviceName: 'your-service',
+      environment,
+      webhookSecretName: config.secrets.webhookHmacSecret,
+      sharedKeySecretName: config.secrets.sharedApiKey,
+      clientRegistrySecretName: config.secrets.clientRegistry,
+      api,
+      logRetentionDays: config.monitoring.logRetentionDays,
+    });
+    webhooks.grantEnqueue(lambda);
+
+    // Example: Health canary (scheduled /health check with availability and degraded alarms)
+    const alarmTopic = createAlarmTopic(this, 'AlarmTopic', {
+      serviceName: 'your-service',
+      environment,
+    });
+    new HealthCanary(this, 'HealthCanary', {
+      serviceName: 'your-service',
+      environment,
+      healthUrl: `${api.url}health`,
+      alarmTopic,
+      logRetentionDays: config.monitoring.logRetentionDays,
+    });
+
     // Outputs
     new cdk.CfnOutput(this, 'ApiUrl', {
       value: api.url,
@@ -0,0 +1,342 @@
+/**
+ * Platform health aggregator
+ *
+ * Fans out to each Aviary service's `/health`, merges the
+ * `HealthCheckResponse` payloads into one platform status with a per-service
+ * breakdown and a version matrix (service x environment), and serves it as
+ * JSON or a compact HTML status page.
+ */
+
+import { Context } from 'aws-lambda';
+import { HttpEvent, HttpResult, getHeader, getQueryParameters, toHttpResult } from '@aviary/auth';
+import { HealthCheckResponse, HealthStatus } from './types';
+
+export interface PlatformService {
+  /** Service name (e.g., 'condor') */
+  name: string;
+  /** Base URL; `healthPath` is appended (e.g., 'https://api.example.com/condor') */
+  url: string;
+  /** Health path (default: '/health') */
+  healthPath?: string;
+  /** Environment label for the version matrix (default: the environment the service reports) */
+  environment?: string;
+  /** A failing critical service makes the platform unhealthy; others only degrade it (default: true) */
+  critical?: boolean;
+}
+
+export interface PlatformHealthOptions {
+  /** Per-service timeout in ms (default: 5000) */
+  timeoutMs?: number;
+}
+
+/**
+ * - healthy / degraded / unhealthy: as reported by the service
+ * - unreachable: no parseable answer (network error, timeout, non-JSON body)
+ */
+export type ServiceState = HealthStatus | 'unreachable';
+
+export interface ServiceHealth {
+  name: string;
+  url: string;
+  status: ServiceState;
+  critical: boolean;
+  statusCode?: number;
+  latencyMs: number;
+  environment?: string;
+  version?: string;
+  gitCommit?: string;
+  error?: string;
+}
+
+export interface PlatformHealthResponse {
+  status: HealthStatus;
+  timestamp: string;
+  services: ServiceHealth[];
+  /** Version per service and environment, e.g. `{ condor: { prod: '1.4.0' } }` */
+  versions: Record<string, Record<string, string>>;
+}
+
+function healthUrl(service: PlatformService): string {
+  return `${service.url.replace(/\/+$/, '')}${service.healthPath ?? '/health'}`;
+}
+
+/**
+ * Fetch and summarize one service's health. Never throws.
+ */
+export async function checkService(
+  service: PlatformService,
+  options?: PlatformHealthOptions
+): Promise<ServiceHealth> {
+  const { timeoutMs = 5000 } = options || {};
+  const url = healthUrl(service);
+  const result: ServiceHealth = {
+    name: service.name,
+    url,
+    status: 'unreachable',
+    critical: service.critical ?? true,
+    latencyMs: 0,
+    environment: service.environment,
+  };
+
+  const start = Date.now();
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const body = await response.text();
+    result.statusCode = response.status;
+
+    let health: Partial<HealthCheckResponse>;
+    try {
+      health = JSON.parse(body);
+    } catch {
+      result.error = `HTTP ${response.status}: response is not JSON`;
+      return result;
+    }
+
+    if (health.status === 'healthy' || health.status === 'degraded' || health.status === 'unhealthy') {
+      result.status = health.status;
+    } else {
+      result.error = `HTTP ${response.status}: response has no health status`;
+    }
+    result.environment = service.environment ?? health.environment;
+    result.version = health.version;
+    result.gitCommit = health.gitCommit;
+  } catch (error) {
+    // AbortSignal.timeout rejects with a DOMException, not always an Error instance
+    result.error =
+      (error as { name?: string })?.name === 'TimeoutError'
+        ? `Timed out after ${timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : 'Unknown error';
+  } finally {
+    result.latencyMs = Date.now() - start;
+  }
+
+  return result;
+}
+
+/**
+ * Platform status from service results:
+ * - any critical service unhealthy or unreachable: unhealthy
+ * - any service degraded, or a non-critical one failing: degraded
+ * - otherwise: healthy
+ */
+export function rollupPlatformStatus(services: ServiceHealth[]): HealthStatus {
+  const failing = services.filter(
+    (service) => service.status === 'unhealthy' || service.status === 'unreachable'
+  );
+
+  if (failing.some((service) => service.critical)) {
+    return 'unhealthy';
+  }
+  if (failing.length > 0 || services.some((service) => service.status === 'degraded')) {
+    return 'degraded';
+  }
+  return 'healthy';
+}
+
+/**
+ * Check every service in parallel and merge the results
+ */
+export async function aggregatePlatformHealth(
+  services: PlatformService[],
+  options?: PlatformHealthOptions
+): Promise<PlatformHealthResponse> {
+  const results = await Promise.all(services.map((service) => checkService(service, options)));
+
+  const versions: PlatformHealthResponse['versions'] = {};
+  for (const result of results) {
+    if (result.version) {
+      versions[result.name] ??= {};
+      versions[result.name][result.environment ?? 'default'] = result.version;
+    }
+  }
+
+  return {
+    status: rollupPlatformStatus(results),
+    timestamp: new Date().toISOString(),
+    services: results,
+    versions,
+  };
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '').replace(
+    /[&<>"']/g,
+    (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!
+  );
+}
+
+const STATUS_COLORS: Record<ServiceState, string> = {
+  healthy: '#1a7f37',
+  degraded: '#9a6700',
+  unhealthy: '#cf222e',
+  unreachable: '#6e7781',
+};
+
+/**
+ * Compact HTML status page for a platform response
+ */
+export function renderPlatformHealthHtml(health: PlatformHealthResponse, title = 'Aviary Platform Health'): string {
+  const badge = (status: ServiceState) =>
+    `<span class="status" style="background:${STATUS_COLORS[status]}">${escapeHtml(status)}</span>`;
+
+  const environments = [
+    ...new Set(Object.values(health.versions).flatMap((byEnvironment) => Object.keys(byEnvironment))),
+  ].sort();
+
+  const serviceRows = health.services
+    .map(
+      (service) =>
+        `<tr><td>${escapeHtml(service.name)}${service.critical ? '' : ' <small>(optional)</small>'}</td>` +
+        `<td>${badge(service.status)}</td>` +
+        `<td>${escapeHtml(service.environment)}</td>` +
+        `<td>${escapeHtml(service.version)}</td>` +
+        `<td>${service.latencyMs} ms</td>` +
+        `<td>${escapeHtml(service.error)}</td></tr>`
+    )
+    .join('\n');
+
+  const versionRows = Object.entries(health.versions)
+    .map(
+      ([service, byEnvironment]) =>
+        `<tr><td>${escapeHtml(service)}</td>` +
+        environments.map((environment) => `<td>${escapeHtml(byEnvironment[environment] ?? '-')}</td>`).join('') +
+        '</tr>'
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+th, td { padding: 0.35rem 0.75rem; border-bottom: 1px solid #d0d7de; text-align: left; }
+.status { color: #fff; border-radius: 0.75rem; padding: 0.1rem 0.6rem; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)} ${badge(health.status)}</h1>
+<p>Checked ${escapeHtml(health.timestamp)}</p>
+<table>
+<tr><th>Service</th><th>Status</th><th>Environment</th><th>Version</th><th>Latency</th><th>Error</th></tr>
+${serviceRows}
+</table>
+<h2>Versions</h2>
+<table>
+<tr><th>Service</th>${environments.map((environment) => `<th>${escapeHtml(environment)}</th>`).join('')}</tr>
+${versionRows}
+</table>
+</body>
+</html>
+`;
+}
+
+export interface PlatformHealthConfig extends PlatformHealthOptions {
+  services: PlatformService[];
+  /** Serve the HTML page for `?format=html` or `Accept: text/html` (default: false) */
+  html?: boolean;
+  /** HTML page title (default: 'Aviary Platform Health') */
+  title?: string;
+}
+
+function wantsHtml(event: HttpEvent): boolean {
+  const { format } = getQueryParameters(event);
+  if (format) {
+    return format === 'html';
+  }
+  return (getHeader(event, 'accept') || '').includes('text/html');
+}
+
+/**
+ * Create the platform health handler.
+ *
+ * Answers 503 when the platform is unhealthy, like `createHealthHandler`.
+ *
+ * @example
+ * ```typescript
+ * export const handler = createPlatformHealthHandler({
+ *   services: [
+ *     { name: 'nightingale', url: 'https://api.aviary.example.com/nightingale' },
+ *     { name: 'condor', url: 'https://api.aviary.example.com/condor' },
+ *     { name: 'magpie', url: 'https://api.aviary.example.com/magpie', critical: false },
+ *   ],
+ *   html: true,
+ * });
+ * ```
+ */
+export function createPlatformHealthHandler(config: PlatformHealthConfig) {
+  return async (event: HttpEvent, _context?: Context): Promise<HttpResult> => {
+    const health = await aggregatePlatformHealth(config.services, config);
+    const statusCode = health.status === 'unhealthy' ? 503 : 200;
+    const headers = { 'Cache-Control': 'no-cache, no-store, must-revalidate' };
+
+    if (config.html && wantsHtml(event)) {
+      return toHttpResult(event, {
+        statusCode,
+        headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' },
+        body: renderPlatformHealthHtml(health, config.title),
+      });
+    }
+
+    return toHttpResult(event, {
+      statusCode,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(health, null, 2),
+    });
+  };
+}
+
+/**
+ * Build aggregator config from the Lambda environment.
+ *
+ * - `PLATFORM_SERVICES` (required): comma-separated `name=url` pairs; append
+ *   `?` to the name for a non-critical service
+ *   (e.g. `condor=https://api.example.com/condor,magpie?=https://api.example.com/magpie`)
+ * - `PLATFORM_TIMEOUT_MS`, `PLATFORM_HTML` (`true` to serve the HTML page), `PLATFORM_TITLE` (optional)
+ */
+export function platformHealthConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): PlatformHealthConfig {
+  const entries = (env.PLATFORM_SERVICES || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length === 0) {
+    throw new Error('PLATFORM_SERVICES must be set');
+  }
+
+  const services = entries.map((entry): PlatformService => {
+    const separator = entry.indexOf('=');
+    const name = entry.slice(0, separator).trim();
+    const url = entry.slice(separator + 1).trim();
+    if (separator < 1 || !url) {
+      throw new Error(`Invalid PLATFORM_SERVICES entry: ${entry}`);
+    }
+    return name.endsWith('?') ? { name: name.slice(0, -1), url, critical: false } : { name, url };
+  });
+
+  return {
+    services,
+    timeoutMs: Number(env.PLATFORM_TIMEOUT_MS) || undefined,
+    html: env.PLATFORM_HTML === 'true',
+    title: env.PLATFORM_TITLE || undefined,
+  };
+}
+
+let envHandler: ReturnType<typeof createPlatformHealthHandler> | undefined;
+
+/**
+ * Ready-made aggregator configured from environment variables (see
+ * `platformHealthConfigFromEnv`). The config is read on first use.
+ */
+export async function platformHealthHandler(event: HttpEvent, context?: Context): Promise<HttpResult> {
+  envHandler ??= createPlatformHealthHandler(platformHealthConfigFromEnv());
+  return envHandler(event, context);
+}
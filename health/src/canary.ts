@@ -0,0 +1,223 @@
+/**
+ * Health canary
+ *
+ * Scheduled synthetic check of a deployed service: calls its `/health` (and
+ * optionally an authenticated smoke endpoint) from outside, parses the
+ * `HealthCheckResponse`, and logs availability and latency as CloudWatch EMF
+ * metrics. The `HealthCanary` construct in cdk-patterns schedules it and
+ * alarms on the metrics.
+ *
+ * Metrics (namespace `Aviary/Canary`, dimensions Service and Environment):
+ * - `Availability`: 1 when `/health` answers 200 with a non-unhealthy status
+ * - `Degraded`: 1 when the reported status is `degraded`
+ * - `Latency` (ms): `/health` round trip
+ * - `SmokeAvailability` / `SmokeLatency`: the same for the smoke endpoint
+ */
+
+import { getSecretField, parseSharedKeySet } from '@aviary/auth';
+import { MetricUnit, emfRecord } from './metrics';
+import { HealthCheckResponse, HealthStatus } from './types';
+
+export interface HealthCanaryOptions {
+  serviceName: string;
+  environment: string;
+  /** Full URL of the service's health endpoint */
+  healthUrl: string;
+  /** Authenticated endpoint that must answer 2xx (optional) */
+  smokeUrl?: string;
+  /**
+   * Secrets Manager path of the API key sent to the smoke endpoint. The current
+   * key must be stored in plaintext; a hashed key cannot be sent.
+   */
+  apiKeySecretPath?: string;
+  /** Field holding the key when the secret is JSON (default: AVIARY_SHARED_API_KEY) */
+  apiKeyName?: string;
+  /** Per-request timeout in ms (default: 10000) */
+  timeoutMs?: number;
+  /** CloudWatch namespace (default: 'Aviary/Canary') */
+  namespace?: string;
+}
+
+export interface HealthCanaryResult {
+  available: boolean;
+  /** Status reported by the service, if the body parsed */
+  status?: HealthStatus;
+  statusCode?: number;
+  latencyMs: number;
+  error?: string;
+  smoke?: {
+    available: boolean;
+    statusCode?: number;
+    latencyMs: number;
+    error?: string;
+  };
+}
+
+async function timedFetch(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<{ response?: Response; body?: string; latencyMs: number; error?: string }> {
+  const start = Date.now();
+  try {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+    const body = await response.text();
+    return { response, body, latencyMs: Date.now() - start };
+  } catch (error) {
+    return {
+      latencyMs: Date.now() - start,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+async function checkHealth(url: string, timeoutMs: number): Promise<HealthCanaryResult> {
+  const { response, body, latencyMs, error } = await timedFetch(
+    url,
+    { headers: { Accept: 'application/json' } },
+    timeoutMs
+  );
+  if (!response) {
+    return { available: false, latencyMs, error };
+  }
+
+  let status: HealthStatus | undefined;
+  try {
+    status = (JSON.parse(body || '') as HealthCheckResponse).status;
+  } catch {
+    return {
+      available: false,
+      statusCode: response.status,
+      latencyMs,
+      error: 'Health response is not JSON',
+    };
+  }
+
+  const available = response.status === 200 && status !== 'unhealthy';
+  return {
+    available,
+    status,
+    statusCode: response.status,
+    latencyMs,
+    ...(available ? {} : { error: `HTTP ${response.status}, status ${status}` }),
+  };
+}
+
+async function checkSmoke(
+  url: string,
+  apiKey: string | undefined,
+  timeoutMs: number
+): Promise<NonNullable<HealthCanaryResult['smoke']>> {
+  const { response, latencyMs, error } = await timedFetch(
+    url,
+    { headers: apiKey ? { 'X-API-Key': apiKey } : {} },
+    timeoutMs
+  );
+  if (!response) {
+    return { available: false, latencyMs, error };
+  }
+
+  const available = response.ok;
+  return {
+    available,
+    statusCode: response.status,
+    latencyMs,
+    ...(available ? {} : { error: `HTTP ${response.status}` }),
+  };
+}
+
+/**
+ * Current key of the (possibly rotating) key set at `secretPath`
+ */
+async function smokeApiKey(secretPath: string, keyName: string): Promise<string> {
+  const current = parseSharedKeySet(await getSecretField(secretPath, keyName))?.current;
+  if (!current?.key) {
+    throw new Error(
+      current?.hash
+        ? `The current API key at ${secretPath} is stored hashed; the smoke check needs it in plaintext`
+        : `No current API key at ${secretPath}`
+    );
+  }
+  return current.key;
+}
+
+function logMetrics(options: HealthCanaryOptions, result: HealthCanaryResult): void {
+  const { serviceName, environment, namespace = 'Aviary/Canary' } = options;
+  const metrics: Record<string, { value: number; unit: MetricUnit }> = {
+    Availability: { value: result.available ? 1 : 0, unit: 'Count' },
+    Degraded: { value: result.status === 'degraded' ? 1 : 0, unit: 'Count' },
+    Latency: { value: result.latencyMs, unit: 'Milliseconds' },
+  };
+  if (result.smoke) {
+    metrics.SmokeAvailability = { value: result.smoke.available ? 1 : 0, unit: 'Count' };
+    metrics.SmokeLatency = { value: result.smoke.latencyMs, unit: 'Milliseconds' };
+  }
+
+  const record = emfRecord(
+    namespace,
+    Date.now(),
+    { Service: serviceName, Environment: environment },
+    metrics
+  );
+  console.log(JSON.stringify(record));
+}
+
+/**
+ * Run the canary once and log its metrics.
+ *
+ * Failures of the service are reported in the result and metrics, never
+ * thrown. Misconfiguration of the canary itself (e.g. a smoke API key that is
+ * missing or only stored hashed) throws, and the missing metrics trip the
+ * availability alarm.
+ */
+export async function runHealthCanary(options: HealthCanaryOptions): Promise<HealthCanaryResult> {
+  const { healthUrl, smokeUrl, apiKeySecretPath, timeoutMs = 10_000 } = options;
+
+  const result = await checkHealth(healthUrl, timeoutMs);
+
+  if (smokeUrl) {
+    // The secret may hold a rotation key set; the canary sends the current key
+    const apiKey = apiKeySecretPath
+      ? await smokeApiKey(apiKeySecretPath, options.apiKeyName ?? 'AVIARY_SHARED_API_KEY')
+      : undefined;
+    result.smoke = await checkSmoke(smokeUrl, apiKey, timeoutMs);
+  }
+
+  logMetrics(options, result);
+  if (!result.available || result.smoke?.available === false) {
+    console.error(`Health canary failed for ${options.serviceName}:`, JSON.stringify(result));
+  }
+  return result;
+}
+
+/**
+ * Build canary options from the Lambda environment.
+ *
+ * - `SERVICE_NAME`, `ENVIRONMENT`, `CANARY_HEALTH_URL` (required)
+ * - `CANARY_SMOKE_URL`, `CANARY_API_KEY_SECRET_PATH`, `CANARY_TIMEOUT_MS` (optional)
+ */
+export function healthCanaryOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): HealthCanaryOptions {
+  const { SERVICE_NAME, ENVIRONMENT, CANARY_HEALTH_URL } = env;
+  if (!SERVICE_NAME || !ENVIRONMENT || !CANARY_HEALTH_URL) {
+    throw new Error('SERVICE_NAME, ENVIRONMENT and CANARY_HEALTH_URL must be set');
+  }
+
+  return {
+    serviceName: SERVICE_NAME,
+    environment: ENVIRONMENT,
+    healthUrl: CANARY_HEALTH_URL,
+    smokeUrl: env.CANARY_SMOKE_URL || undefined,
+    apiKeySecretPath: env.CANARY_API_KEY_SECRET_PATH || undefined,
+    timeoutMs: Number(env.CANARY_TIMEOUT_MS) || undefined,
+  };
+}
+
+/**
+ * Ready-made canary configured from environment variables (see
+ * `healthCanaryOptionsFromEnv`). Deployed by the `HealthCanary` construct.
+ */
+export async function healthCanaryHandler(): Promise<HealthCanaryResult> {
+  return runHealthCanary(healthCanaryOptionsFromEnv());
+}
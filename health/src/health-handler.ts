@@ -1,92 +1,67 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
-import { DynamoDBClient, DescribeTableCommand } from '@aws-sdk/client-dynamodb';
-import { S3Client, HeadBucketCommand } from '@aws-sdk/client-s3';
-import { SQSClient, GetQueueAttributesCommand } from '@aws-sdk/client-sqs';
+import { Context, ScheduledEvent } from 'aws-lambda';
+import {
+  AuthenticationError,
+  HttpEvent,
+  HttpResult,
+  authorizeRequest,
+  fail,
+  getEventPath,
+  getQueryParameters,
+  toHttpResult,
+} from '@aviary/auth';
+import { RuntimeInfo, getRuntimeInfo, loadBuildInfo } from './metadata';
+import { emitHealthMetrics } from './metrics';
+import { DEFAULT_PROBE_TIMEOUT_MS, ProbeRegistry, defaultProbeRegistry } from './probes';
+import { HealthResultCache } from './result-cache';
 import {
   HealthCheckConfig,
   HealthCheckResponse,
   DependencyStatus,
   HealthCheckDependency,
+  HealthMode,
+  HealthStatus,
+  ProbeResult,
 } from './types';
 
-const startTime = Date.now();
+// First invocation of this Lambda instance
+let coldStart = true;
 
-/**
- * Check DynamoDB table health
- */
-async function checkDynamoDBTable(
-  tableName: string,
-  region: string
-): Promise<{ healthy: boolean; error?: string; responseTime: number }> {
-  const start = Date.now();
-  try {
-    const client = new DynamoDBClient({ region });
-    const command = new DescribeTableCommand({ TableName: tableName });
-    const response = await client.send(command);
-    const responseTime = Date.now() - start;
-
-    if (response.Table?.TableStatus === 'ACTIVE') {
-      return { healthy: true, responseTime };
-    }
-    return {
-      healthy: false,
-      error: `Table status: ${response.Table?.TableStatus}`,
-      responseTime,
-    };
-  } catch (error) {
-    return {
-      healthy: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      responseTime: Date.now() - start,
-    };
-  }
-}
+class DependencyTimeoutError extends Error {}
 
 /**
- * Check S3 bucket health
+ * Settle with the check's result, or reject once `timeoutMs` passes. On
+ * timeout the signal passed to the check is aborted, so probes that hand it to
+ * their requests stop them; a late result is ignored.
  */
-async function checkS3Bucket(
-  bucketName: string,
-  region: string
-): Promise<{ healthy: boolean; error?: string; responseTime: number }> {
-  const start = Date.now();
+async function withTimeout<T>(
+  check: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new DependencyTimeoutError(`Timed out after ${timeoutMs}ms`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
   try {
-    const client = new S3Client({ region });
-    const command = new HeadBucketCommand({ Bucket: bucketName });
-    await client.send(command);
-    return { healthy: true, responseTime: Date.now() - start };
-  } catch (error) {
-    return {
-      healthy: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      responseTime: Date.now() - start,
-    };
+    return await Promise.race([check(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
 /**
- * Check SQS queue health
+ * Custom checks may answer a plain boolean or a full probe result
  */
-async function checkSQSQueue(
-  queueUrl: string,
-  region: string
-): Promise<{ healthy: boolean; error?: string; responseTime: number }> {
-  const start = Date.now();
-  try {
-    const client = new SQSClient({ region });
-    const command = new GetQueueAttributesCommand({
-      QueueUrl: queueUrl,
-      AttributeNames: ['QueueArn'],
-    });
-    await client.send(command);
-    return { healthy: true, responseTime: Date.now() - start };
-  } catch (error) {
-    return {
-      healthy: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      responseTime: Date.now() - start,
-    };
-  }
+async function runCustomCheck(
+  check: NonNullable<HealthCheckDependency['check']>
+): Promise<ProbeResult> {
+  const result = await check();
+  return typeof result === 'boolean' ? { healthy: result } : result;
 }
 
 /**
@@ -94,98 +69,225 @@ async function checkSQSQueue(
  */
 async function checkDependency(
   dep: HealthCheckDependency,
-  region: string
+  region: string,
+  probes: ProbeRegistry
 ): Promise<DependencyStatus> {
+  const start = Date.now();
   const status: DependencyStatus = {
     name: dep.name,
     type: dep.type,
     status: 'unhealthy',
+    critical: dep.critical ?? true,
     resource: dep.resource,
+    cached: false,
+    checkedAt: new Date(start).toISOString(),
   };
 
   try {
-    let result: { healthy: boolean; error?: string; responseTime: number };
+    let check: (signal: AbortSignal) => Promise<ProbeResult>;
 
     if (dep.check) {
-      // Custom check
-      const start = Date.now();
-      const healthy = await dep.check();
-      result = { healthy, responseTime: Date.now() - start };
-    } else if (dep.type === 'dynamodb' && dep.resource) {
-      result = await checkDynamoDBTable(dep.resource, region);
-    } else if (dep.type === 's3' && dep.resource) {
-      result = await checkS3Bucket(dep.resource, region);
-    } else if (dep.type === 'sqs' && dep.resource) {
-      result = await checkSQSQueue(dep.resource, region);
+      const custom = dep.check;
+      check = () => runCustomCheck(custom);
     } else {
-      throw new Error(`Invalid dependency configuration: ${dep.name}`);
+      const probe = probes.get(dep.type);
+      if (!probe) {
+        throw new Error(`Invalid dependency configuration: ${dep.name} (unknown type ${dep.type})`);
+      }
+      check = (signal) => probe(dep, { region, signal });
     }
 
+    const result = await withTimeout(check, dep.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS);
+
     status.status = result.healthy ? 'healthy' : 'unhealthy';
-    status.responseTime = result.responseTime;
     if (result.error) {
       status.error = result.error;
     }
+    if (result.metadata) {
+      status.metadata = result.metadata;
+    }
   } catch (error) {
-    status.status = 'unhealthy';
+    status.status = error instanceof DependencyTimeoutError ? 'timeout' : 'unhealthy';
     status.error = error instanceof Error ? error.message : 'Unknown error';
   }
+  status.responseTime = Date.now() - start;
 
   return status;
 }
 
 /**
- * Create a health check handler
+ * Overall status from dependency results:
+ * - any critical dependency failing (unhealthy or timeout): unhealthy
+ * - only optional dependencies failing: degraded
+ * - otherwise (including no dependencies): healthy
  */
-export function createHealthHandler(config: HealthCheckConfig) {
-  return async (
-    event: APIGatewayProxyEvent,
-    context: Context
-  ): Promise<APIGatewayProxyResult> => {
+export function rollupStatus(dependencies: DependencyStatus[]): HealthStatus {
+  const failing = dependencies.filter((dep) => dep.status !== 'healthy');
+
+  if (failing.some((dep) => dep.critical)) {
+    return 'unhealthy';
+  }
+  return failing.length > 0 ? 'degraded' : 'healthy';
+}
+
+/**
+ * Whether the request carries a valid API key (for deep mode and `?fresh=true`)
+ */
+async function isAuthorized(event: HttpEvent, config: HealthCheckConfig): Promise<boolean> {
+  if (!config.auth) {
+    return false;
+  }
+
+  const { secretPath, ...authOptions } = config.auth;
+  const result = await authorizeRequest(event, secretPath, {
+    ...authOptions,
+    serviceName: config.serviceName,
+  });
+  return result.authorized;
+}
+
+/**
+ * Mode from the request path: `.../live`, `.../ready` or `.../deep`.
+ * Any other path (e.g. plain `/health`) is a readiness check.
+ */
+export function getHealthMode(event: HttpEvent): HealthMode {
+  const lastSegment = getEventPath(event).replace(/\/+$/, '').split('/').pop();
+  return lastSegment === 'live' || lastSegment === 'deep' ? lastSegment : 'ready';
+}
+
+/**
+ * Public modes hide where dependencies live and why they failed
+ */
+function redact(dependency: DependencyStatus): DependencyStatus {
+  const { resource: _resource, error: _error, metadata: _metadata, ...rest } = dependency;
+  return rest;
+}
+
+type RunChecks = (mode: HealthMode, fresh: boolean, runtime: RuntimeInfo) => Promise<HealthCheckResponse>;
+
+/**
+ * Check runner shared by the HTTP and scheduled handlers, with its own result cache
+ */
+function createCheckRunner(config: HealthCheckConfig): RunChecks {
+  const cache = new HealthResultCache(config.cache);
+
+  return async (mode, fresh, runtime) => {
     const region = process.env.AWS_REGION || 'us-east-1';
-    const uptime = Math.floor((Date.now() - startTime) / 1000);
+    const probes = config.probes || defaultProbeRegistry;
+    const build = loadBuildInfo(config.buildInfoPath);
 
     const response: HealthCheckResponse = {
       status: 'healthy',
+      mode,
       service: config.serviceName,
-      version: config.version || process.env.SERVICE_VERSION,
-      gitCommit: config.gitCommit || process.env.GIT_COMMIT,
+      version: config.version || process.env.SERVICE_VERSION || build.version,
+      gitCommit: config.gitCommit || process.env.GIT_COMMIT || build.gitCommit,
       environment: config.environment || process.env.ENVIRONMENT,
       deployedAt: config.deployedAt || process.env.DEPLOYED_AT,
       timestamp: new Date().toISOString(),
-      uptime,
+      // Process uptime includes the Lambda init phase, not just time since this module loaded
+      uptime: Math.floor(process.uptime()),
+      ...(Object.keys(build).length > 0 ? { build } : {}),
+      runtime,
     };
 
-    // Check dependencies if configured
-    if (config.dependencies && config.dependencies.length > 0) {
-      const dependencyStatuses = await Promise.all(
-        config.dependencies.map((dep) => checkDependency(dep, region))
+    // Readiness only waits on what the service cannot serve without
+    const dependencies = (config.dependencies || [])
+      .map((dep, index) => ({ dep, key: `${index}:${dep.name}` }))
+      .filter(({ dep }) => mode === 'deep' || (mode === 'ready' && (dep.critical ?? true)));
+
+    if (dependencies.length > 0) {
+      response.dependencies = await Promise.all(
+        dependencies.map(({ dep, key }) =>
+          cache.get(key, () => checkDependency(dep, region, probes), {
+            fresh,
+            timeoutMs: dep.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS,
+          })
+        )
       );
+      response.status = rollupStatus(response.dependencies);
+    }
 
-      response.dependencies = dependencyStatuses;
+    return response;
+  };
+}
 
-      // Determine overall health status
-      const unhealthyCount = dependencyStatuses.filter(
-        (d) => d.status === 'unhealthy'
-      ).length;
+/**
+ * Create a health check handler
+ *
+ * Works behind API Gateway REST APIs, HTTP APIs (payload v2) and ALBs; the
+ * result shape matches the invoking source.
+ *
+ * Modes (from the path, or fixed with `HealthCheckConfig.mode`):
+ * - live: process only, no dependency checks
+ * - ready: critical dependencies, redacted (also plain `/health`)
+ * - deep: all dependencies with resources, errors and metadata; needs a valid API key
+ *
+ * Dependency results are cached per handler (see `HealthCheckConfig.cache`);
+ * `?fresh=true` with a valid API key re-checks them.
+ *
+ * For checks on an EventBridge schedule, see `createScheduledHealthHandler`.
+ */
+export function createHealthHandler(config: HealthCheckConfig) {
+  const runChecks = createCheckRunner(config);
+
+  return async (event: HttpEvent, context: Context): Promise<HttpResult> => {
+    const runtime = getRuntimeInfo(context, coldStart);
+    coldStart = false;
 
-      if (unhealthyCount === dependencyStatuses.length) {
-        response.status = 'unhealthy';
-      } else if (unhealthyCount > 0) {
-        response.status = 'degraded';
+    const mode = config.mode || getHealthMode(event);
+
+    // Deep responses expose resource names and raw errors; fresh checks hit every
+    // dependency. Neither is open to anonymous callers.
+    const fresh = mode !== 'live' && getQueryParameters(event).fresh === 'true';
+    if ((mode === 'deep' || fresh) && !(await isAuthorized(event, config))) {
+      const message =
+        mode === 'deep'
+          ? 'Deep health checks require a valid API key'
+          : 'fresh=true requires a valid API key';
+      return toHttpResult(event, fail(new AuthenticationError(message), { context }));
+    }
+
+    const response = await runChecks(mode, fresh, runtime);
+    if (mode !== 'deep') {
+      // Function names and memory sizes are for operators
+      delete response.runtime;
+      if (response.dependencies) {
+        response.dependencies = response.dependencies.map(redact);
       }
     }
 
     // Return appropriate HTTP status code
     const httpStatus = response.status === 'unhealthy' ? 503 : 200;
 
-    return {
+    return toHttpResult(event, {
       statusCode: httpStatus,
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'no-cache, no-store, must-revalidate',
       },
       body: JSON.stringify(response, null, 2),
-    };
+    });
+  };
+}
+
+/**
+ * Create a handler for EventBridge scheduled invocations
+ *
+ * Each invocation runs a fresh deep check, emits its metrics (see
+ * `HealthCheckConfig.metrics` for the namespace), and returns the
+ * `HealthCheckResponse` itself. No API key is needed, so dependency health can
+ * be alarmed on without an external pinger.
+ */
+export function createScheduledHealthHandler(config: HealthCheckConfig) {
+  const runChecks = createCheckRunner(config);
+
+  return async (_event: ScheduledEvent, context: Context): Promise<HealthCheckResponse> => {
+    const runtime = getRuntimeInfo(context, coldStart);
+    coldStart = false;
+
+    const response = await runChecks('deep', true, runtime);
+    emitHealthMetrics(response, config.metrics);
+    return response;
   };
 }
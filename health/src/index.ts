@@ -1,7 +1,55 @@
-export { createHealthHandler } from './health-handler';
+export {
+  createHealthHandler,
+  createScheduledHealthHandler,
+  getHealthMode,
+  rollupStatus,
+} from './health-handler';
+export {
+  ProbeRegistry,
+  defaultProbeRegistry,
+  registerProbe,
+  dynamoDBProbe,
+  s3Probe,
+  sqsProbe,
+  httpProbe,
+  secretsManagerProbe,
+  snsProbe,
+  stepFunctionsProbe,
+  lambdaProbe,
+} from './probes';
+export type { Probe, ProbeContext } from './probes';
+export { runHealthCanary, healthCanaryOptionsFromEnv, healthCanaryHandler } from './canary';
+export type { HealthCanaryOptions, HealthCanaryResult } from './canary';
+export {
+  createPlatformHealthHandler,
+  platformHealthConfigFromEnv,
+  platformHealthHandler,
+  aggregatePlatformHealth,
+  rollupPlatformStatus,
+  renderPlatformHealthHtml,
+} from './aggregator';
+export type {
+  PlatformHealthConfig,
+  PlatformHealthOptions,
+  PlatformHealthResponse,
+  PlatformService,
+  ServiceHealth,
+  ServiceState,
+} from './aggregator';
+export { loadBuildInfo, getRuntimeInfo, defaultBuildInfoPath } from './metadata';
+export type { BuildInfo, RuntimeInfo } from './metadata';
+export { buildHealthMetrics, emitHealthMetrics } from './metrics';
+export type { EmfRecord, HealthMetricsOptions } from './metrics';
+export { HealthResultCache } from './result-cache';
+export type { HealthCacheOptions } from './result-cache';
 export type {
   HealthCheckConfig,
   HealthCheckDependency,
   HealthCheckResponse,
   DependencyStatus,
+  DependencyState,
+  HealthStatus,
+  HealthMode,
+  BuiltInProbeType,
+  ProbeResult,
 } from './types';
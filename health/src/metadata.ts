@@ -0,0 +1,92 @@
+/**
+ * Build and runtime metadata for health responses
+ *
+ * Build metadata comes from the `build-info.json` that
+ * `scripts/build-lambdas.sh` writes into each Lambda package; runtime
+ * metadata comes from the Lambda `Context` and process.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Context } from 'aws-lambda';
+
+/**
+ * Contents of `build-info.json`
+ */
+export interface BuildInfo {
+  version?: string;
+  gitCommit?: string;
+  gitBranch?: string;
+  /** When the package was built (ISO 8601) */
+  builtAt?: string;
+}
+
+/**
+ * Details of the Lambda instance answering the health check
+ */
+export interface RuntimeInfo {
+  functionName?: string;
+  /** Published version, or `$LATEST` */
+  functionVersion?: string;
+  /** Alias the function was invoked through, if any */
+  alias?: string;
+  memoryLimitMb?: number;
+  region?: string;
+  /** Whether this is the first invocation of this instance */
+  coldStart: boolean;
+  nodeVersion: string;
+}
+
+const loadedBuildInfo = new Map<string, BuildInfo>();
+
+/**
+ * Default location of `build-info.json`: `BUILD_INFO_PATH`, else the root of
+ * the Lambda package
+ */
+export function defaultBuildInfoPath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.BUILD_INFO_PATH || join(env.LAMBDA_TASK_ROOT || process.cwd(), 'build-info.json');
+}
+
+/**
+ * Read `build-info.json` once per path. A missing or unreadable file yields an
+ * empty object, so local runs and older packages still answer.
+ */
+export function loadBuildInfo(path: string = defaultBuildInfoPath()): BuildInfo {
+  let info = loadedBuildInfo.get(path);
+  if (!info) {
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+      info = parsed && typeof parsed === 'object' ? (parsed as BuildInfo) : {};
+    } catch {
+      info = {};
+    }
+    loadedBuildInfo.set(path, info);
+  }
+  return info;
+}
+
+/**
+ * Alias from a qualified invoked ARN (`arn:aws:lambda:<region>:<account>:function:<name>:<alias>`).
+ * Numeric qualifiers are versions, not aliases.
+ */
+function aliasFromArn(arn: string | undefined): string | undefined {
+  const qualifier = arn?.split(':')[7];
+  return qualifier && !/^\d+$/.test(qualifier) && qualifier !== '$LATEST' ? qualifier : undefined;
+}
+
+/**
+ * Runtime details from the invocation context
+ */
+export function getRuntimeInfo(context: Partial<Context> | undefined, coldStart: boolean): RuntimeInfo {
+  const memory = Number(context?.memoryLimitInMB);
+
+  return {
+    functionName: context?.functionName,
+    functionVersion: context?.functionVersion,
+    alias: aliasFromArn(context?.invokedFunctionArn),
+    memoryLimitMb: Number.isFinite(memory) && memory > 0 ? memory : undefined,
+    region: process.env.AWS_REGION,
+    coldStart,
+    nodeVersion: process.version,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Health metrics
+ *
+ * Writes health check results to the log as CloudWatch Embedded Metric Format
+ * (EMF) records, which CloudWatch turns into metrics without any API calls:
+ * - per dependency (Service, Environment, Dependency): `DependencyLatency`
+ *   and `DependencySuccess` (1 healthy, 0 unhealthy or timed out)
+ * - per service (Service, Environment): `ServiceHealthy` (0 when unhealthy)
+ *   and `ServiceDegraded` (1 when degraded)
+ */
+
+import { HealthCheckResponse } from './types';
+
+export interface HealthMetricsOptions {
+  /** CloudWatch namespace (default: 'Aviary/Health') */
+  namespace?: string;
+}
+
+export type MetricUnit = 'Milliseconds' | 'Count';
+
+/**
+ * One EMF log record
+ */
+export interface EmfRecord {
+  _aws: {
+    Timestamp: number;
+    CloudWatchMetrics: Array<{
+      Namespace: string;
+      Dimensions: string[][];
+      Metrics: Array<{ Name: string; Unit: MetricUnit }>;
+    }>;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Build one EMF record with a single dimension set
+ */
+export function emfRecord(
+  namespace: string,
+  timestamp: number,
+  dimensions: Record<string, string>,
+  metrics: Record<string, { value: number; unit: MetricUnit }>
+): EmfRecord {
+  const values: Record<string, number> = {};
+  for (const [name, { value }] of Object.entries(metrics)) {
+    values[name] = value;
+  }
+
+  return {
+    _aws: {
+      Timestamp: timestamp,
+      CloudWatchMetrics: [
+        {
+          Namespace: namespace,
+          Dimensions: [Object.keys(dimensions)],
+          Metrics: Object.entries(metrics).map(([name, { unit }]) => ({ Name: name, Unit: unit })),
+        },
+      ],
+    },
+    ...dimensions,
+    ...values,
+  };
+}
+
+/**
+ * EMF records for a health response: one per dependency, one for the service.
+ *
+ * Cached dependency results report success but not latency, so a cache hit is
+ * not counted as a fast check.
+ */
+export function buildHealthMetrics(
+  response: HealthCheckResponse,
+  options?: HealthMetricsOptions
+): EmfRecord[] {
+  const { namespace = 'Aviary/Health' } = options || {};
+  const timestamp = Date.parse(response.timestamp) || Date.now();
+  const service = { Service: response.service, Environment: response.environment || 'unknown' };
+
+  const records = (response.dependencies || []).map((dependency) =>
+    emfRecord(
+      namespace,
+      timestamp,
+      { ...service, Dependency: dependency.name },
+      {
+        DependencySuccess: { value: dependency.status === 'healthy' ? 1 : 0, unit: 'Count' },
+        ...(dependency.cached || dependency.responseTime === undefined
+          ? {}
+          : { DependencyLatency: { value: dependency.responseTime, unit: 'Milliseconds' } }),
+      }
+    )
+  );
+
+  records.push(
+    emfRecord(namespace, timestamp, service, {
+      ServiceHealthy: { value: response.status === 'unhealthy' ? 0 : 1, unit: 'Count' },
+      ServiceDegraded: { value: response.status === 'degraded' ? 1 : 0, unit: 'Count' },
+    })
+  );
+
+  return records;
+}
+
+/**
+ * Log the EMF records for a health response (one JSON line each)
+ */
+export function emitHealthMetrics(
+  response: HealthCheckResponse,
+  options?: HealthMetricsOptions
+): void {
+  for (const record of buildHealthMetrics(response, options)) {
+    console.log(JSON.stringify(record));
+  }
+}
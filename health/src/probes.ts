@@ -0,0 +1,317 @@
+/**
+ * Health probes
+ *
+ * A probe checks one dependency type. The registry maps a dependency's `type`
+ * to its probe; services add their own types with `registerProbe` (or a
+ * registry of their own passed as `HealthCheckConfig.probes`).
+ */
+
+import { DynamoDBClient, DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { GetFunctionConfigurationCommand, LambdaClient } from '@aws-sdk/client-lambda';
+import { S3Client, HeadBucketCommand } from '@aws-sdk/client-s3';
+import { DescribeSecretCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { DescribeStateMachineCommand, SFNClient } from '@aws-sdk/client-sfn';
+import { GetTopicAttributesCommand, SNSClient } from '@aws-sdk/client-sns';
+import { SQSClient, GetQueueAttributesCommand } from '@aws-sdk/client-sqs';
+import { HealthCheckDependency, ProbeResult } from './types';
+
+/** Default `HealthCheckDependency.timeoutMs` */
+export const DEFAULT_PROBE_TIMEOUT_MS = 3000;
+
+export interface ProbeContext {
+  /** AWS region for SDK clients */
+  region: string;
+  /**
+   * Aborted when the check times out; pass it to requests so they stop with
+   * it (set by the health handler)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Check a dependency. Throwing marks it unhealthy with the error message.
+ */
+export type Probe = (
+  dependency: HealthCheckDependency,
+  context: ProbeContext
+) => Promise<ProbeResult>;
+
+/**
+ * Dependency types and the probes that check them
+ */
+export class ProbeRegistry {
+  private readonly probes = new Map<string, Probe>();
+
+  constructor(probes?: Record<string, Probe>) {
+    for (const [type, probe] of Object.entries(probes || {})) {
+      this.register(type, probe);
+    }
+  }
+
+  /**
+   * Add or replace the probe for a dependency type
+   */
+  register(type: string, probe: Probe): this {
+    this.probes.set(type, probe);
+    return this;
+  }
+
+  get(type: string): Probe | undefined {
+    return this.probes.get(type);
+  }
+
+  types(): string[] {
+    return [...this.probes.keys()];
+  }
+}
+
+const clients = new Map<new (...args: never[]) => unknown, Map<string, unknown>>();
+
+/**
+ * SDK client for a region, created once and reused across checks and warm
+ * invocations
+ */
+function clientFor<T>(Client: new (config: { region: string }) => T, region: string): T {
+  let byRegion = clients.get(Client);
+  if (!byRegion) {
+    byRegion = new Map();
+    clients.set(Client, byRegion);
+  }
+
+  let client = byRegion.get(region) as T | undefined;
+  if (!client) {
+    client = new Client({ region });
+    byRegion.set(region, client);
+  }
+  return client;
+}
+
+function requireResource(dependency: HealthCheckDependency): string {
+  if (!dependency.resource) {
+    throw new Error(`Invalid dependency configuration: ${dependency.name} needs a resource`);
+  }
+  return dependency.resource;
+}
+
+/**
+ * DynamoDB table: must be ACTIVE
+ */
+export const dynamoDBProbe: Probe = async (dependency, { region, signal }) => {
+  const client = clientFor(DynamoDBClient, region);
+  const response = await client.send(
+    new DescribeTableCommand({ TableName: requireResource(dependency) }),
+    { abortSignal: signal }
+  );
+
+  if (response.Table?.TableStatus === 'ACTIVE') {
+    return { healthy: true };
+  }
+  return { healthy: false, error: `Table status: ${response.Table?.TableStatus}` };
+};
+
+/**
+ * S3 bucket: must exist and be reachable
+ */
+export const s3Probe: Probe = async (dependency, { region, signal }) => {
+  const client = clientFor(S3Client, region);
+  await client.send(new HeadBucketCommand({ Bucket: requireResource(dependency) }), {
+    abortSignal: signal,
+  });
+  return { healthy: true };
+};
+
+/**
+ * SQS queue (by URL): must exist; reports the approximate depth
+ */
+export const sqsProbe: Probe = async (dependency, { region, signal }) => {
+  const client = clientFor(SQSClient, region);
+  const response = await client.send(
+    new GetQueueAttributesCommand({
+      QueueUrl: requireResource(dependency),
+      AttributeNames: ['ApproximateNumberOfMessages'],
+    }),
+    { abortSignal: signal }
+  );
+
+  return {
+    healthy: true,
+    metadata: {
+      approximateMessages: Number(response.Attributes?.ApproximateNumberOfMessages ?? 0),
+    },
+  };
+};
+
+function matchesBody(expected: Record<string, unknown> | string, body: string): boolean {
+  if (typeof expected === 'string') {
+    return body.includes(expected);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return false;
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return false;
+  }
+  const actual = parsed as Record<string, unknown>;
+  return Object.entries(expected).every(
+    ([key, value]) => JSON.stringify(actual[key]) === JSON.stringify(value)
+  );
+}
+
+/**
+ * HTTP endpoint (e.g. another Aviary service's `/health`): must answer
+ * `expectedStatus` (default 200) and, if set, match `expectedBody`. The
+ * request is aborted with the context's signal, or after the dependency's
+ * `timeoutMs` when called without one.
+ */
+export const httpProbe: Probe = async (dependency, { signal }) => {
+  const url = requireResource(dependency);
+  const { expectedStatus = 200, expectedBody, timeoutMs = DEFAULT_PROBE_TIMEOUT_MS } = dependency;
+
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: signal ?? AbortSignal.timeout(timeoutMs),
+  });
+  const body = await response.text();
+  const metadata: Record<string, unknown> = { statusCode: response.status };
+
+  // Surface a downstream Aviary service's own status (healthy/degraded/unhealthy)
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.status === 'string') {
+      metadata.status = parsed.status;
+    }
+  } catch {
+    // Not JSON; nothing to report
+  }
+
+  if (response.status !== expectedStatus) {
+    return {
+      healthy: false,
+      error: `Expected HTTP ${expectedStatus}, got ${response.status}`,
+      metadata,
+    };
+  }
+  if (expectedBody !== undefined && !matchesBody(expectedBody, body)) {
+    return { healthy: false, error: 'Response body does not match expectedBody', metadata };
+  }
+  return { healthy: true, metadata };
+};
+
+/**
+ * Secrets Manager secret (name or ARN): must exist and not be scheduled for
+ * deletion. Only the description is read, never the value.
+ */
+export const secretsManagerProbe: Probe = async (dependency, { region, signal }) => {
+  const client = clientFor(SecretsManagerClient, region);
+  const response = await client.send(
+    new DescribeSecretCommand({ SecretId: requireResource(dependency) }),
+    { abortSignal: signal }
+  );
+
+  if (response.DeletedDate) {
+    return {
+      healthy: false,
+      error: `Secret scheduled for deletion at ${response.DeletedDate.toISOString()}`,
+    };
+  }
+  return {
+    healthy: true,
+    metadata: response.RotationEnabled ? { rotationEnabled: true } : undefined,
+  };
+};
+
+/**
+ * SNS topic (by ARN): must exist; reports confirmed subscriptions
+ */
+export const snsProbe: Probe = async (dependency, { region, signal }) => {
+  const client = clientFor(SNSClient, region);
+  const response = await client.send(
+    new GetTopicAttributesCommand({ TopicArn: requireResource(dependency) }),
+    { abortSignal: signal }
+  );
+
+  return {
+    healthy: true,
+    metadata: {
+      subscriptionsConfirmed: Number(response.Attributes?.SubscriptionsConfirmed ?? 0),
+    },
+  };
+};
+
+/**
+ * Step Functions state machine (by ARN): must be ACTIVE
+ */
+export const stepFunctionsProbe: Probe = async (dependency, { region, signal }) => {
+  const client = clientFor(SFNClient, region);
+  const response = await client.send(
+    new DescribeStateMachineCommand({ stateMachineArn: requireResource(dependency) }),
+    { abortSignal: signal }
+  );
+
+  if (response.status === 'ACTIVE') {
+    return { healthy: true };
+  }
+  return { healthy: false, error: `State machine status: ${response.status}` };
+};
+
+/**
+ * Lambda function (name or ARN): must be Active and its last update must not
+ * have failed
+ */
+export const lambdaProbe: Probe = async (dependency, { region, signal }) => {
+  const client = clientFor(LambdaClient, region);
+  const response = await client.send(
+    new GetFunctionConfigurationCommand({ FunctionName: requireResource(dependency) }),
+    { abortSignal: signal }
+  );
+  const metadata = { state: response.State, lastUpdateStatus: response.LastUpdateStatus };
+
+  if (response.State !== 'Active') {
+    return {
+      healthy: false,
+      error: `Function state: ${response.State}${response.StateReason ? ` (${response.StateReason})` : ''}`,
+      metadata,
+    };
+  }
+  if (response.LastUpdateStatus === 'Failed') {
+    return {
+      healthy: false,
+      error: `Last update failed: ${response.LastUpdateStatusReason ?? 'unknown reason'}`,
+      metadata,
+    };
+  }
+  return { healthy: true, metadata };
+};
+
+/**
+ * Registry used when the handler config does not pass one
+ */
+export const defaultProbeRegistry = new ProbeRegistry({
+  dynamodb: dynamoDBProbe,
+  s3: s3Probe,
+  sqs: sqsProbe,
+  http: httpProbe,
+  secretsmanager: secretsManagerProbe,
+  sns: snsProbe,
+  stepfunctions: stepFunctionsProbe,
+  lambda: lambdaProbe,
+});
+
+/**
+ * Add a dependency type to the default registry
+ *
+ * @example
+ * ```typescript
+ * registerProbe('redis', async (dep) => {
+ *   const pong = await redis.ping();
+ *   return { healthy: pong === 'PONG', metadata: { host: dep.resource } };
+ * });
+ * ```
+ */
+export function registerProbe(type: string, probe: Probe): void {
+  defaultProbeRegistry.register(type, probe);
+}
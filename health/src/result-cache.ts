@@ -0,0 +1,115 @@
+/**
+ * Dependency result cache
+ *
+ * Load balancer and uptime polling hit `/health` far more often than
+ * dependency state changes, so results are reused for a short TTL and then
+ * served stale while a background check refreshes them.
+ */
+
+import { DependencyStatus } from './types';
+
+export interface HealthCacheOptions {
+  /** Serve a result without re-checking for this long (default: 10; 0 disables caching) */
+  ttlSeconds?: number;
+  /**
+   * After the TTL, keep serving the last result for this long while one
+   * background check refreshes it (default: 30)
+   */
+  staleWhileRevalidateSeconds?: number;
+}
+
+/**
+ * How far past its timeout a check may finish before it is taken to have
+ * spanned a Lambda freeze
+ */
+const FREEZE_GRACE_MS = 1000;
+
+interface CacheEntry {
+  status: DependencyStatus;
+  storedAt: number;
+}
+
+/**
+ * Latest status per dependency, with concurrent checks of the same
+ * dependency collapsed into one
+ */
+export class HealthResultCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly pending = new Map<string, Promise<DependencyStatus>>();
+  private readonly ttlMs: number;
+  private readonly staleMs: number;
+  private readonly now: () => number;
+
+  constructor(options?: HealthCacheOptions & { now?: () => number }) {
+    const { ttlSeconds = 10, staleWhileRevalidateSeconds = 30, now = Date.now } = options || {};
+    this.ttlMs = ttlSeconds * 1000;
+    this.staleMs = staleWhileRevalidateSeconds * 1000;
+    this.now = now;
+  }
+
+  /**
+   * Cached status for `key`, or the result of `check`.
+   *
+   * `check` must not reject (checkDependency reports failures as a status).
+   * With `fresh`, the cache is skipped and the new result replaces it.
+   *
+   * With `timeoutMs`, a result that took more than a second longer is not
+   * cached: a background refresh left running when Lambda froze the
+   * environment resumes on the next invocation, and its timeout timer fires
+   * for time the check never got to run.
+   */
+  async get(
+    key: string,
+    check: () => Promise<DependencyStatus>,
+    options?: { fresh?: boolean; timeoutMs?: number }
+  ): Promise<DependencyStatus> {
+    const entry = this.entries.get(key);
+    if (options?.fresh || this.ttlMs <= 0 || !entry) {
+      return this.refresh(key, check, options);
+    }
+
+    const age = this.now() - entry.storedAt;
+    if (age < this.ttlMs) {
+      return { ...entry.status, cached: true };
+    }
+    if (age < this.ttlMs + this.staleMs) {
+      // In Lambda the refresh may only finish on a later invocation; the next request still gets this result
+      void this.refresh(key, check, { timeoutMs: options?.timeoutMs });
+      return { ...entry.status, cached: true };
+    }
+    return this.refresh(key, check, { timeoutMs: options?.timeoutMs });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private refresh(
+    key: string,
+    check: () => Promise<DependencyStatus>,
+    options?: { fresh?: boolean; timeoutMs?: number }
+  ): Promise<DependencyStatus> {
+    const inFlight = this.pending.get(key);
+    if (inFlight && !options?.fresh) {
+      return inFlight;
+    }
+
+    const startedAt = this.now();
+    const run = check()
+      .then((status) => {
+        const finishedAt = this.now();
+        const timeoutMs = options?.timeoutMs;
+        if (timeoutMs === undefined || finishedAt - startedAt <= timeoutMs + FREEZE_GRACE_MS) {
+          this.entries.set(key, { status, storedAt: finishedAt });
+        }
+        return status;
+      })
+      .finally(() => {
+        if (this.pending.get(key) === run) {
+          this.pending.delete(key);
+        }
+      });
+    this.pending.set(key, run);
+    return run;
+  }
+}
@@ -2,11 +2,57 @@
  * Types for the health check handler
  */
 
+import type { RouterAuthOptions } from '@aviary/auth';
+import type { BuildInfo, RuntimeInfo } from './metadata';
+import type { HealthMetricsOptions } from './metrics';
+import type { ProbeRegistry } from './probes';
+import type { HealthCacheOptions } from './result-cache';
+
+/**
+ * Probe types registered by default (see ./probes)
+ */
+export type BuiltInProbeType =
+  | 'dynamodb'
+  | 's3'
+  | 'sqs'
+  | 'http'
+  | 'secretsmanager'
+  | 'sns'
+  | 'stepfunctions'
+  | 'lambda';
+
+/**
+ * Outcome of a single probe
+ */
+export interface ProbeResult {
+  healthy: boolean;
+  error?: string;
+  /** Extra detail reported with the dependency (e.g. queue depth, HTTP status) */
+  metadata?: Record<string, unknown>;
+}
+
 export interface HealthCheckDependency {
   name: string;
-  type: 'dynamodb' | 's3' | 'sqs' | 'custom';
-  resource?: string; // Resource name (table, bucket, queue)
-  check?: () => Promise<boolean>; // Custom check function
+  /** A built-in probe type, a type added to the registry, or 'custom' with `check` */
+  type: BuiltInProbeType | 'custom' | (string & {});
+  resource?: string; // Resource name or ARN (table, bucket, queue URL, secret, topic, ...)
+  check?: () => Promise<boolean | ProbeResult>; // Custom check function
+  /** Give up on the check after this long and report `timeout` (default: 3000) */
+  timeoutMs?: number;
+  /**
+   * A failing critical dependency makes the service `unhealthy` (503); a
+   * failing optional one only `degraded` (default: true)
+   */
+  critical?: boolean;
+  /** http: expected response status (default: 200) */
+  expectedStatus?: number;
+  /**
+   * http: expected response body. An object must be a subset of the JSON
+   * body (e.g. `{ status: 'healthy' }`); a string must appear in the body.
+   */
+  expectedBody?: Record<string, unknown> | string;
+  /** Settings for probe types added to the registry */
+  options?: Record<string, unknown>;
 }
 
 export interface HealthCheckConfig {
@@ -16,25 +62,68 @@ export interface HealthCheckConfig {
   environment?: string;
   deployedAt?: string;
   dependencies?: HealthCheckDependency[];
+  /** Probe registry to resolve dependency types (default: `defaultProbeRegistry`) */
+  probes?: ProbeRegistry;
+  /** Dependency result caching (default: 10s TTL, then 30s stale-while-revalidate) */
+  cache?: HealthCacheOptions;
+  /** API key auth for deep mode and `?fresh=true`; without it both are refused */
+  auth?: RouterAuthOptions;
+  /** Serve one mode regardless of path (default: from the path, see `getHealthMode`) */
+  mode?: HealthMode;
+  /**
+   * EMF metrics of `createScheduledHealthHandler`. The HTTP handler emits none:
+   * it mostly serves cached results, which would be counted again on every poll.
+   */
+  metrics?: HealthMetricsOptions;
+  /** Path of `build-info.json` (default: `BUILD_INFO_PATH`, else the Lambda package root) */
+  buildInfoPath?: string;
 }
 
+/**
+ * - healthy: check passed
+ * - unhealthy: check failed or threw
+ * - timeout: check did not finish within `timeoutMs`
+ */
+export type DependencyState = 'healthy' | 'unhealthy' | 'timeout';
+
 export interface DependencyStatus {
   name: string;
   type: string;
-  status: 'healthy' | 'unhealthy';
+  status: DependencyState;
+  critical: boolean;
   resource?: string;
   error?: string;
   responseTime?: number;
+  metadata?: Record<string, unknown>;
+  /** Whether this result was served from the cache */
+  cached: boolean;
+  /** When the check that produced this result ran */
+  checkedAt: string;
 }
 
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * - live: the process answers; no dependency checks
+ * - ready: critical dependencies, redacted
+ * - deep: every dependency with full details (authenticated)
+ */
+export type HealthMode = 'live' | 'ready' | 'deep';
+
 export interface HealthCheckResponse {
-  status: 'healthy' | 'degraded' | 'unhealthy';
+  status: HealthStatus;
+  mode: HealthMode;
   service: string;
   version?: string;
   gitCommit?: string;
   environment?: string;
   deployedAt?: string;
   timestamp: string;
+  /** Seconds since this Lambda instance's process started */
   uptime: number;
+  /** Contents of `build-info.json`, when present */
+  build?: BuildInfo;
+  /** Lambda instance details (deep and scheduled checks only) */
+  runtime?: RuntimeInfo;
   dependencies?: DependencyStatus[];
 }
@@ -0,0 +1,259 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  aggregatePlatformHealth,
+  createPlatformHealthHandler,
+  platformHealthConfigFromEnv,
+  PlatformService,
+  rollupPlatformStatus,
+  ServiceHealth,
+} from '../src/aggregator';
+
+type Reply = { statusCode: number; body: string; delayMs?: number };
+
+function platformEvent(
+  query: Record<string, string> = {},
+  headers: Record<string, string> = {}
+): APIGatewayProxyEvent {
+  return {
+    httpMethod: 'GET',
+    path: '/platform/health',
+    queryStringParameters: query,
+    headers,
+  } as unknown as APIGatewayProxyEvent;
+}
+
+const healthBody = (status: string, version: string, environment = 'prod') =>
+  JSON.stringify({ status, version, environment, gitCommit: 'abc1234', timestamp: '', service: '' });
+
+describe('platform health aggregator', () => {
+  let server: Server;
+  let baseUrl: string;
+  let replies: Record<string, Reply>;
+
+  beforeAll(async () => {
+    // One stub server stands in for every service, keyed by path
+    server = createServer((req, res) => {
+      const reply = replies[req.url || ''] || { statusCode: 404, body: 'Not Found' };
+      setTimeout(() => {
+        res.writeHead(reply.statusCode, { 'Content-Type': 'application/json' });
+        res.end(reply.body);
+      }, reply.delayMs ?? 0);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = {
+      '/nightingale/health': { statusCode: 200, body: healthBody('healthy', '1.2.0') },
+      '/condor/health': { statusCode: 200, body: healthBody('healthy', '3.4.1') },
+      '/magpie/health': { statusCode: 200, body: healthBody('healthy', '0.9.0') },
+    };
+  });
+
+  const services = (): PlatformService[] => [
+    { name: 'nightingale', url: `${baseUrl}/nightingale` },
+    { name: 'condor', url: `${baseUrl}/condor/` },
+    { name: 'magpie', url: `${baseUrl}/magpie`, critical: false },
+  ];
+
+  it('reports a healthy platform with a version matrix', async () => {
+    const health = await aggregatePlatformHealth(services());
+
+    expect(health.status).toBe('healthy');
+    expect(health.services.map((s) => [s.name, s.status])).toEqual([
+      ['nightingale', 'healthy'],
+      ['condor', 'healthy'],
+      ['magpie', 'healthy'],
+    ]);
+    expect(health.services[1]).toMatchObject({
+      url: `${baseUrl}/condor/health`,
+      statusCode: 200,
+      environment: 'prod',
+      gitCommit: 'abc1234',
+      latencyMs: expect.any(Number),
+    });
+    expect(health.versions).toEqual({
+      nightingale: { prod: '1.2.0' },
+      condor: { prod: '3.4.1' },
+      magpie: { prod: '0.9.0' },
+    });
+  });
+
+  it('keys the version matrix by configured environment', async () => {
+    replies['/condor-dev/health'] = { statusCode: 200, body: healthBody('healthy', '3.5.0-rc.1', 'dev') };
+
+    const health = await aggregatePlatformHealth([
+      { name: 'condor', url: `${baseUrl}/condor`, environment: 'production' },
+      { name: 'condor', url: `${baseUrl}/condor-dev` },
+    ]);
+
+    expect(health.versions).toEqual({ condor: { production: '3.4.1', dev: '3.5.0-rc.1' } });
+  });
+
+  it('is unhealthy when a critical service reports unhealthy', async () => {
+    replies['/condor/health'] = { statusCode: 503, body: healthBody('unhealthy', '3.4.1') };
+
+    const health = await aggregatePlatformHealth(services());
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.services[1]).toMatchObject({ status: 'unhealthy', statusCode: 503 });
+  });
+
+  it('is degraded when a service reports degraded', async () => {
+    replies['/nightingale/health'] = { statusCode: 200, body: healthBody('degraded', '1.2.0') };
+
+    expect((await aggregatePlatformHealth(services())).status).toBe('degraded');
+  });
+
+  it('is degraded when only a non-critical service is unreachable', async () => {
+    delete replies['/magpie/health'];
+
+    const health = await aggregatePlatformHealth(services());
+
+    expect(health.status).toBe('degraded');
+    expect(health.services[2]).toMatchObject({
+      status: 'unreachable',
+      statusCode: 404,
+      error: 'HTTP 404: response is not JSON',
+    });
+    expect(health.versions.magpie).toBeUndefined();
+  });
+
+  it('marks a slow service unreachable after the timeout', async () => {
+    replies['/condor/health'] = { ...replies['/condor/health'], delayMs: 500 };
+
+    const health = await aggregatePlatformHealth(services(), { timeoutMs: 50 });
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.services[1]).toMatchObject({ status: 'unreachable', error: 'Timed out after 50ms' });
+  });
+
+  it('marks a refused connection unreachable', async () => {
+    const health = await aggregatePlatformHealth([{ name: 'condor', url: 'http://127.0.0.1:1' }]);
+
+    expect(health.services[0].status).toBe('unreachable');
+    expect(health.services[0].error).toBeDefined();
+  });
+
+  it('marks a JSON answer without a health status unreachable', async () => {
+    replies['/condor/health'] = { statusCode: 200, body: '{"message":"Forbidden"}' };
+
+    const health = await aggregatePlatformHealth(services());
+
+    expect(health.services[1]).toMatchObject({
+      status: 'unreachable',
+      error: 'HTTP 200: response has no health status',
+    });
+  });
+
+  describe('createPlatformHealthHandler', () => {
+    it('returns JSON with 200 when the platform is up', async () => {
+      const handler = createPlatformHealthHandler({ services: services() });
+
+      const result = (await handler(platformEvent())) as APIGatewayProxyResult;
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['Content-Type']).toBe('application/json');
+      expect(JSON.parse(result.body).status).toBe('healthy');
+    });
+
+    it('returns 503 when the platform is unhealthy', async () => {
+      replies['/nightingale/health'] = { statusCode: 503, body: healthBody('unhealthy', '1.2.0') };
+      const handler = createPlatformHealthHandler({ services: services() });
+
+      const result = (await handler(platformEvent())) as APIGatewayProxyResult;
+
+      expect(result.statusCode).toBe(503);
+    });
+
+    it('serves the HTML page for ?format=html or Accept: text/html', async () => {
+      const handler = createPlatformHealthHandler({ services: services(), html: true, title: 'Aviary <prod>' });
+
+      for (const event of [platformEvent({ format: 'html' }), platformEvent({}, { Accept: 'text/html' })]) {
+        const result = (await handler(event)) as APIGatewayProxyResult;
+
+        expect(result.headers?.['Content-Type']).toBe('text/html; charset=utf-8');
+        expect(result.body).toContain('<title>Aviary &lt;prod&gt;</title>');
+        expect(result.body).toContain('<td>condor</td>');
+        expect(result.body).toContain('<td>3.4.1</td>');
+        expect(result.body).toContain('<small>(optional)</small>');
+      }
+    });
+
+    it('ignores HTML requests unless enabled', async () => {
+      const handler = createPlatformHealthHandler({ services: services() });
+
+      const result = (await handler(platformEvent({ format: 'html' }))) as APIGatewayProxyResult;
+
+      expect(result.headers?.['Content-Type']).toBe('application/json');
+    });
+
+    it('prefers ?format=json over an HTML Accept header', async () => {
+      const handler = createPlatformHealthHandler({ services: services(), html: true });
+
+      const result = (await handler(
+        platformEvent({ format: 'json' }, { Accept: 'text/html' })
+      )) as APIGatewayProxyResult;
+
+      expect(result.headers?.['Content-Type']).toBe('application/json');
+    });
+  });
+});
+
+describe('rollupPlatformStatus', () => {
+  const service = (status: ServiceHealth['status'], critical = true): ServiceHealth => ({
+    name: 'svc',
+    url: 'http://svc/health',
+    status,
+    critical,
+    latencyMs: 1,
+  });
+
+  it.each([
+    [[service('healthy'), service('healthy', false)], 'healthy'],
+    [[service('healthy'), service('unreachable', false)], 'degraded'],
+    [[service('degraded'), service('healthy')], 'degraded'],
+    [[service('unreachable'), service('healthy')], 'unhealthy'],
+    [[service('unhealthy'), service('degraded')], 'unhealthy'],
+  ])('rolls up %j to %s', (services, expected) => {
+    expect(rollupPlatformStatus(services as ServiceHealth[])).toBe(expected);
+  });
+});
+
+describe('platformHealthConfigFromEnv', () => {
+  it('reads the service list and options', () => {
+    expect(
+      platformHealthConfigFromEnv({
+        PLATFORM_SERVICES:
+          'nightingale=https://api.example.com/nightingale, magpie?=https://api.example.com/magpie',
+        PLATFORM_TIMEOUT_MS: '2000',
+        PLATFORM_HTML: 'true',
+      })
+    ).toEqual({
+      services: [
+        { name: 'nightingale', url: 'https://api.example.com/nightingale' },
+        { name: 'magpie', url: 'https://api.example.com/magpie', critical: false },
+      ],
+      timeoutMs: 2000,
+      html: true,
+      title: undefined,
+    });
+  });
+
+  it('requires PLATFORM_SERVICES', () => {
+    expect(() => platformHealthConfigFromEnv({})).toThrow('PLATFORM_SERVICES must be set');
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => platformHealthConfigFromEnv({ PLATFORM_SERVICES: 'condor' })).toThrow(
+      'Invalid PLATFORM_SERVICES entry: condor'
+    );
+  });
+});
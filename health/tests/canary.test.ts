@@ -0,0 +1,189 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { getSecretField, hashApiKey } from '@aviary/auth';
+import { healthCanaryOptionsFromEnv, runHealthCanary } from '../src/canary';
+
+jest.mock('@aviary/auth', () => ({
+  ...jest.requireActual('@aviary/auth'),
+  getSecretField: jest.fn(),
+}));
+
+const mockGetSecretField = getSecretField as jest.MockedFunction<typeof getSecretField>;
+
+type Reply = { statusCode: number; body: string; delayMs?: number };
+
+describe('runHealthCanary', () => {
+  let server: Server;
+  let baseUrl: string;
+  let replies: Record<string, Reply>;
+  let requests: Array<{ url?: string; headers: IncomingHttpHeaders }>;
+  let log: jest.SpyInstance;
+  let errorLog: jest.SpyInstance;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push({ url: req.url, headers: req.headers });
+      const reply = replies[req.url || ''] || { statusCode: 404, body: '{}' };
+      setTimeout(() => {
+        res.writeHead(reply.statusCode, { 'Content-Type': 'application/json' });
+        res.end(reply.body);
+      }, reply.delayMs ?? 0);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = {};
+    requests = [];
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    errorLog = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    errorLog.mockRestore();
+  });
+
+  const options = () => ({
+    serviceName: 'condor',
+    environment: 'dev',
+    healthUrl: `${baseUrl}/health`,
+  });
+  const emitted = () => JSON.parse(log.mock.calls[0][0] as string);
+
+  it('reports a healthy service as available', async () => {
+    replies['/health'] = { statusCode: 200, body: JSON.stringify({ status: 'healthy' }) };
+
+    const result = await runHealthCanary(options());
+
+    expect(result).toMatchObject({ available: true, status: 'healthy', statusCode: 200 });
+    expect(emitted()).toMatchObject({
+      Service: 'condor',
+      Environment: 'dev',
+      Availability: 1,
+      Degraded: 0,
+    });
+    expect(emitted()._aws.CloudWatchMetrics[0].Namespace).toBe('Aviary/Canary');
+    expect(errorLog).not.toHaveBeenCalled();
+  });
+
+  it('reports a degraded service as available and degraded', async () => {
+    replies['/health'] = { statusCode: 200, body: JSON.stringify({ status: 'degraded' }) };
+
+    const result = await runHealthCanary(options());
+
+    expect(result.available).toBe(true);
+    expect(emitted()).toMatchObject({ Availability: 1, Degraded: 1 });
+  });
+
+  it('reports a 503 unhealthy service as unavailable', async () => {
+    replies['/health'] = { statusCode: 503, body: JSON.stringify({ status: 'unhealthy' }) };
+
+    const result = await runHealthCanary(options());
+
+    expect(result).toMatchObject({ available: false, error: 'HTTP 503, status unhealthy' });
+    expect(emitted().Availability).toBe(0);
+    expect(errorLog).toHaveBeenCalled();
+  });
+
+  it('reports a non-JSON response as unavailable', async () => {
+    replies['/health'] = { statusCode: 200, body: '<html>gateway</html>' };
+
+    const result = await runHealthCanary(options());
+
+    expect(result).toMatchObject({ available: false, error: 'Health response is not JSON' });
+  });
+
+  it('reports a timeout as unavailable', async () => {
+    replies['/health'] = { statusCode: 200, body: '{"status":"healthy"}', delayMs: 500 };
+
+    const result = await runHealthCanary({ ...options(), timeoutMs: 50 });
+
+    expect(result.available).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  it('reports an unreachable service as unavailable', async () => {
+    const result = await runHealthCanary({ ...options(), healthUrl: 'http://127.0.0.1:1/health' });
+
+    expect(result.available).toBe(false);
+    expect(emitted().Availability).toBe(0);
+  });
+
+  it('checks the smoke endpoint when configured', async () => {
+    replies['/health'] = { statusCode: 200, body: JSON.stringify({ status: 'healthy' }) };
+    replies['/v1/jobs'] = { statusCode: 401, body: '{}' };
+
+    const result = await runHealthCanary({ ...options(), smokeUrl: `${baseUrl}/v1/jobs` });
+
+    expect(result.smoke).toMatchObject({ available: false, statusCode: 401, error: 'HTTP 401' });
+    expect(emitted()).toMatchObject({ Availability: 1, SmokeAvailability: 0 });
+    expect(emitted().SmokeLatency).toEqual(expect.any(Number));
+  });
+
+  it('sends the current key of a rotating key set to the smoke endpoint', async () => {
+    replies['/health'] = { statusCode: 200, body: JSON.stringify({ status: 'healthy' }) };
+    replies['/v1/jobs'] = { statusCode: 200, body: '{}' };
+    mockGetSecretField.mockResolvedValue(
+      JSON.stringify({ current: { key: 'new-key' }, previous: [{ key: 'old-key' }] })
+    );
+
+    const result = await runHealthCanary({
+      ...options(),
+      smokeUrl: `${baseUrl}/v1/jobs`,
+      apiKeySecretPath: '/aviary/shared/api-key',
+    });
+
+    expect(result.smoke?.available).toBe(true);
+    expect(requests.find((r) => r.url === '/v1/jobs')?.headers['x-api-key']).toBe('new-key');
+  });
+
+  it('fails fast when the current smoke key is stored hashed', async () => {
+    replies['/health'] = { statusCode: 200, body: JSON.stringify({ status: 'healthy' }) };
+    mockGetSecretField.mockResolvedValue(JSON.stringify({ current: { hash: hashApiKey('new-key') } }));
+
+    await expect(
+      runHealthCanary({
+        ...options(),
+        smokeUrl: `${baseUrl}/v1/jobs`,
+        apiKeySecretPath: '/aviary/shared/api-key',
+      })
+    ).rejects.toThrow(
+      'The current API key at /aviary/shared/api-key is stored hashed; the smoke check needs it in plaintext'
+    );
+    expect(requests.map((r) => r.url)).toEqual(['/health']);
+  });
+});
+
+describe('healthCanaryOptionsFromEnv', () => {
+  it('reads the canary settings', () => {
+    expect(
+      healthCanaryOptionsFromEnv({
+        SERVICE_NAME: 'condor',
+        ENVIRONMENT: 'prod',
+        CANARY_HEALTH_URL: 'https://api.example.com/condor/health',
+        CANARY_SMOKE_URL: 'https://api.example.com/condor/v1/voices',
+        CANARY_API_KEY_SECRET_PATH: '/aviary/shared/api-key',
+        CANARY_TIMEOUT_MS: '5000',
+      })
+    ).toEqual({
+      serviceName: 'condor',
+      environment: 'prod',
+      healthUrl: 'https://api.example.com/condor/health',
+      smokeUrl: 'https://api.example.com/condor/v1/voices',
+      apiKeySecretPath: '/aviary/shared/api-key',
+      timeoutMs: 5000,
+    });
+  });
+
+  it('requires the service and health URL', () => {
+    expect(() => healthCanaryOptionsFromEnv({ SERVICE_NAME: 'condor' })).toThrow(
+      'SERVICE_NAME, ENVIRONMENT and CANARY_HEALTH_URL must be set'
+    );
+  });
+});
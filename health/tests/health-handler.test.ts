@@ -0,0 +1,516 @@
+import { join } from 'path';
+import { SecretCache } from '@aviary/auth';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context, ScheduledEvent } from 'aws-lambda';
+import {
+  createHealthHandler,
+  createScheduledHealthHandler,
+  getHealthMode,
+  rollupStatus,
+} from '../src/health-handler';
+import { ProbeRegistry } from '../src/probes';
+import { DependencyStatus, HealthCheckConfig, HealthCheckDependency } from '../src/types';
+
+const event = { httpMethod: 'GET', path: '/health', headers: {} } as unknown as APIGatewayProxyEvent;
+const context = {} as Context;
+
+function healthEvent(
+  query: Record<string, string>,
+  headers: Record<string, string> = {},
+  path = '/health'
+): APIGatewayProxyEvent {
+  return { ...event, path, queryStringParameters: query, headers } as unknown as APIGatewayProxyEvent;
+}
+
+const auth: HealthCheckConfig['auth'] = {
+  secretPath: '/aviary/shared/api-key',
+  cache: new SecretCache(async () => JSON.stringify({ AVIARY_SHARED_API_KEY: 'shared-key' })),
+};
+const deepEvent = healthEvent({}, { 'X-API-Key': 'shared-key' }, '/health/deep');
+
+function dep(
+  status: DependencyStatus['status'],
+  critical: boolean
+): DependencyStatus {
+  return {
+    name: `${status}-${critical}`,
+    type: 'custom',
+    status,
+    critical,
+    cached: false,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+const pass = () => Promise.resolve(true);
+const fail = () => Promise.resolve(false);
+const hang = () => new Promise<boolean>(() => undefined);
+
+async function runHealth(
+  dependencies: HealthCheckDependency[],
+  probes?: ProbeRegistry,
+  request: APIGatewayProxyEvent = deepEvent
+) {
+  const handler = createHealthHandler({ serviceName: 'test-service', dependencies, probes, auth });
+  const result = (await handler(request, context)) as APIGatewayProxyResult;
+  return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+}
+
+describe('rollupStatus', () => {
+  it('is healthy with no dependencies', () => {
+    expect(rollupStatus([])).toBe('healthy');
+  });
+
+  it('is healthy when every dependency is healthy', () => {
+    expect(rollupStatus([dep('healthy', true), dep('healthy', false)])).toBe('healthy');
+  });
+
+  it.each(['unhealthy', 'timeout'] as const)(
+    'is unhealthy when a critical dependency is %s',
+    (status) => {
+      expect(rollupStatus([dep('healthy', true), dep(status, true)])).toBe('unhealthy');
+    }
+  );
+
+  it.each(['unhealthy', 'timeout'] as const)(
+    'is degraded when only an optional dependency is %s',
+    (status) => {
+      expect(rollupStatus([dep('healthy', true), dep(status, false)])).toBe('degraded');
+    }
+  );
+
+  it('is degraded when every dependency is optional and failing', () => {
+    expect(rollupStatus([dep('unhealthy', false), dep('timeout', false)])).toBe('degraded');
+  });
+
+  it('is unhealthy when critical and optional dependencies both fail', () => {
+    expect(rollupStatus([dep('unhealthy', false), dep('unhealthy', true)])).toBe('unhealthy');
+  });
+
+  it('is unhealthy when the only dependency is critical and failing', () => {
+    expect(rollupStatus([dep('timeout', true)])).toBe('unhealthy');
+  });
+});
+
+describe('createHealthHandler', () => {
+  it('answers 200 healthy without dependencies', async () => {
+    const { statusCode, body } = await runHealth([]);
+    expect(statusCode).toBe(200);
+    expect(body.status).toBe('healthy');
+    expect(body.dependencies).toBeUndefined();
+  });
+
+  it('treats dependencies as critical by default', async () => {
+    const { statusCode, body } = await runHealth([
+      { name: 'A', type: 'custom', check: pass },
+      { name: 'B', type: 'custom', check: fail },
+    ]);
+    expect(statusCode).toBe(503);
+    expect(body.status).toBe('unhealthy');
+    expect(body.dependencies[1]).toMatchObject({ name: 'B', status: 'unhealthy', critical: true });
+  });
+
+  it('answers 200 degraded when an optional dependency fails', async () => {
+    const { statusCode, body } = await runHealth([
+      { name: 'A', type: 'custom', check: pass },
+      { name: 'B', type: 'custom', check: fail, critical: false },
+    ]);
+    expect(statusCode).toBe(200);
+    expect(body.status).toBe('degraded');
+  });
+
+  it('reports a hanging check as timeout without waiting for it', async () => {
+    const started = Date.now();
+    const { statusCode, body } = await runHealth([
+      { name: 'Slow', type: 'custom', check: hang, timeoutMs: 50, critical: false },
+      { name: 'Fast', type: 'custom', check: pass },
+    ]);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(statusCode).toBe(200);
+    expect(body.status).toBe('degraded');
+    expect(body.dependencies[0]).toMatchObject({
+      name: 'Slow',
+      status: 'timeout',
+      error: 'Timed out after 50ms',
+    });
+  });
+
+  it('answers 503 when a critical dependency times out', async () => {
+    const { statusCode, body } = await runHealth([
+      { name: 'Slow', type: 'custom', check: hang, timeoutMs: 20 },
+    ]);
+    expect(statusCode).toBe(503);
+    expect(body.dependencies[0].status).toBe('timeout');
+  });
+
+  it('applies timeouts to registered probes', async () => {
+    const probes = new ProbeRegistry({ slow: () => new Promise(() => undefined) });
+    const { body } = await runHealth([{ name: 'Slow', type: 'slow', timeoutMs: 20 }], probes);
+    expect(body.dependencies[0].status).toBe('timeout');
+  });
+
+  it('aborts the probe signal when the check times out', async () => {
+    let signal: AbortSignal | undefined;
+    const probes = new ProbeRegistry({
+      slow: (_dep, context) => {
+        signal = context.signal;
+        return new Promise(() => undefined);
+      },
+    });
+
+    await runHealth([{ name: 'Slow', type: 'slow', timeoutMs: 20 }], probes);
+
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toMatchObject({ message: 'Timed out after 20ms' });
+  });
+
+  it('reports errors thrown by a check as unhealthy', async () => {
+    const { body } = await runHealth([
+      {
+        name: 'Broken',
+        type: 'custom',
+        check: () => Promise.reject(new Error('connection refused')),
+      },
+    ]);
+    expect(body.dependencies[0]).toMatchObject({ status: 'unhealthy', error: 'connection refused' });
+  });
+
+  it('reports structured results from custom checks', async () => {
+    const { body } = await runHealth([
+      {
+        name: 'Pool',
+        type: 'custom',
+        check: async () => ({ healthy: false, error: 'empty', metadata: { available: 0 } }),
+        critical: false,
+      },
+    ]);
+    expect(body.dependencies[0]).toMatchObject({
+      status: 'unhealthy',
+      error: 'empty',
+      metadata: { available: 0 },
+    });
+  });
+
+  it('reports an unknown dependency type as unhealthy', async () => {
+    const { body } = await runHealth([{ name: 'Mystery', type: 'mystery' }], new ProbeRegistry());
+    expect(body.dependencies[0]).toMatchObject({
+      status: 'unhealthy',
+      error: 'Invalid dependency configuration: Mystery (unknown type mystery)',
+    });
+  });
+});
+
+describe('createHealthHandler caching', () => {
+  function countingHandler(config: Partial<HealthCheckConfig> = {}) {
+    let calls = 0;
+    const handler = createHealthHandler({
+      serviceName: 'test-service',
+      dependencies: [
+        {
+          name: 'Counted',
+          type: 'custom',
+          check: async () => {
+            calls += 1;
+            return true;
+          },
+        },
+      ],
+      ...config,
+    });
+
+    const call = async (e: APIGatewayProxyEvent = event) => {
+      const result = (await handler(e, context)) as APIGatewayProxyResult;
+      return { statusCode: result.statusCode, body: JSON.parse(result.body) };
+    };
+    return { call, calls: () => calls };
+  }
+
+  it('reuses a result within the TTL and marks it cached', async () => {
+    const { call, calls } = countingHandler();
+
+    const first = await call();
+    const second = await call();
+
+    expect(calls()).toBe(1);
+    expect(first.body.dependencies[0].cached).toBe(false);
+    expect(second.body.dependencies[0]).toMatchObject({
+      cached: true,
+      checkedAt: first.body.dependencies[0].checkedAt,
+    });
+  });
+
+  it('checks every time when caching is disabled', async () => {
+    const { call, calls } = countingHandler({ cache: { ttlSeconds: 0 } });
+
+    await call();
+    await call();
+
+    expect(calls()).toBe(2);
+  });
+
+  it('rejects fresh=true without an API key', async () => {
+    const { call, calls } = countingHandler({ auth });
+
+    const { statusCode, body } = await call(healthEvent({ fresh: 'true' }));
+
+    expect(statusCode).toBe(401);
+    expect(body.error.code).toBe('AUTHENTICATION_ERROR');
+    expect(calls()).toBe(0);
+  });
+
+  it('rejects fresh=true when no auth is configured', async () => {
+    const { call } = countingHandler();
+
+    const { statusCode } = await call(healthEvent({ fresh: 'true' }, { 'X-API-Key': 'shared-key' }));
+
+    expect(statusCode).toBe(401);
+  });
+
+  it('bypasses the cache for fresh=true with a valid API key', async () => {
+    const { call, calls } = countingHandler({ auth });
+
+    await call();
+    const { statusCode, body } = await call(
+      healthEvent({ fresh: 'true' }, { 'X-API-Key': 'shared-key' })
+    );
+
+    expect(statusCode).toBe(200);
+    expect(calls()).toBe(2);
+    expect(body.dependencies[0].cached).toBe(false);
+  });
+});
+
+describe('createHealthHandler modes', () => {
+  const dependencies: HealthCheckDependency[] = [
+    { name: 'Jobs Table', type: 'custom', resource: 'condor-jobs-dev', check: pass },
+    {
+      name: 'Kestrel',
+      type: 'custom',
+      resource: 'https://kestrel.internal/health',
+      check: async () => ({ healthy: false, error: 'HTTP 500', metadata: { statusCode: 500 } }),
+      critical: false,
+    },
+  ];
+
+  it.each([
+    ['/health/live', 'live'],
+    ['/health/ready', 'ready'],
+    ['/health/deep', 'deep'],
+    ['/health/deep/', 'deep'],
+    ['/condor/health/live', 'live'],
+    ['/health', 'ready'],
+  ] as const)('resolves %s to %s', (path, mode) => {
+    expect(getHealthMode(healthEvent({}, {}, path))).toBe(mode);
+  });
+
+  it('live runs no dependency checks', async () => {
+    const check = jest.fn(fail);
+    const { statusCode, body } = await runHealth(
+      [{ name: 'Down', type: 'custom', check }],
+      undefined,
+      healthEvent({}, {}, '/health/live')
+    );
+
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({ status: 'healthy', mode: 'live' });
+    expect(body.dependencies).toBeUndefined();
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it('ready checks only critical dependencies and redacts them', async () => {
+    const { statusCode, body } = await runHealth(
+      dependencies,
+      undefined,
+      healthEvent({}, {}, '/health/ready')
+    );
+
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({ status: 'healthy', mode: 'ready' });
+    expect(body.dependencies).toEqual([
+      expect.objectContaining({ name: 'Jobs Table', status: 'healthy' }),
+    ]);
+    expect(body.dependencies[0].resource).toBeUndefined();
+  });
+
+  it('ready hides error details of failing critical dependencies', async () => {
+    const { statusCode, body } = await runHealth(
+      [{ name: 'Jobs Table', type: 'custom', resource: 'condor-jobs-dev', check: fail }],
+      undefined,
+      event
+    );
+
+    expect(statusCode).toBe(503);
+    expect(body.mode).toBe('ready');
+    expect(body.dependencies[0]).toEqual(
+      expect.not.objectContaining({ resource: expect.anything(), error: expect.anything() })
+    );
+  });
+
+  it('deep requires an API key', async () => {
+    const { statusCode, body } = await runHealth(
+      dependencies,
+      undefined,
+      healthEvent({}, {}, '/health/deep')
+    );
+
+    expect(statusCode).toBe(401);
+    expect(body.error.message).toBe('Deep health checks require a valid API key');
+  });
+
+  it('deep reports every dependency with details', async () => {
+    const { statusCode, body } = await runHealth(dependencies);
+
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({ status: 'degraded', mode: 'deep' });
+    expect(body.dependencies[1]).toMatchObject({
+      name: 'Kestrel',
+      resource: 'https://kestrel.internal/health',
+      error: 'HTTP 500',
+      metadata: { statusCode: 500 },
+    });
+  });
+
+  it('serves a fixed mode regardless of path', async () => {
+    const handler = createHealthHandler({ serviceName: 'test-service', dependencies, mode: 'live' });
+    const result = (await handler(healthEvent({}, {}, '/health/ready'), context)) as APIGatewayProxyResult;
+
+    expect(JSON.parse(result.body)).toMatchObject({ mode: 'live' });
+  });
+});
+
+describe('createHealthHandler metrics and schedules', () => {
+  const scheduledEvent = {
+    source: 'aws.events',
+    'detail-type': 'Scheduled Event',
+    detail: {},
+  } as unknown as ScheduledEvent;
+
+  let log: jest.SpyInstance;
+  const emfLines = () =>
+    log.mock.calls
+      .map(([line]) => JSON.parse(line as string))
+      .filter((record) => record._aws);
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  it('emits no metrics for HTTP checks', async () => {
+    const handler = createHealthHandler({
+      serviceName: 'test-service',
+      dependencies: [{ name: 'A', type: 'custom', check: pass }],
+      metrics: { namespace: 'Test/Health' },
+    });
+
+    await handler(event, context);
+    await handler(event, context);
+
+    expect(emfLines()).toHaveLength(0);
+  });
+
+  it('emits metrics in the configured namespace on a schedule', async () => {
+    const handler = createScheduledHealthHandler({
+      serviceName: 'test-service',
+      environment: 'dev',
+      dependencies: [{ name: 'A', type: 'custom', check: pass }],
+      metrics: { namespace: 'Test/Health' },
+    });
+
+    await handler(scheduledEvent, context);
+
+    expect(emfLines()).toEqual([
+      expect.objectContaining({ Dependency: 'A', DependencySuccess: 1 }),
+      expect.objectContaining({ Service: 'test-service', ServiceHealthy: 1 }),
+    ]);
+    expect(emfLines()[0]._aws.CloudWatchMetrics[0].Namespace).toBe('Test/Health');
+  });
+
+  it('runs a fresh deep check on a schedule and returns the response', async () => {
+    let calls = 0;
+    const handler = createScheduledHealthHandler({
+      serviceName: 'test-service',
+      dependencies: [
+        { name: 'A', type: 'custom', check: async () => (calls += 1) > 0 },
+        { name: 'B', type: 'custom', resource: 'b-table', check: fail, critical: false },
+      ],
+    });
+
+    await handler(scheduledEvent, context);
+    const response = await handler(scheduledEvent, context);
+
+    expect(calls).toBe(2);
+    expect(response).toMatchObject({
+      status: 'degraded',
+      mode: 'deep',
+      dependencies: [
+        expect.objectContaining({ name: 'A', cached: false }),
+        expect.objectContaining({ name: 'B', resource: 'b-table', status: 'unhealthy' }),
+      ],
+    });
+    expect(emfLines()).toHaveLength(6);
+  });
+});
+
+describe('createHealthHandler metadata', () => {
+  const lambdaContext = {
+    functionName: 'test-service-health',
+    functionVersion: '$LATEST',
+    invokedFunctionArn: 'arn:aws:lambda:us-east-1:123456789012:function:test-service-health',
+    memoryLimitInMB: '256',
+  } as Context;
+
+  it('reports runtime details in deep mode only', async () => {
+    const handler = createHealthHandler({ serviceName: 'test-service', auth });
+
+    const deep = (await handler(deepEvent, lambdaContext)) as APIGatewayProxyResult;
+    const ready = (await handler(event, lambdaContext)) as APIGatewayProxyResult;
+
+    expect(JSON.parse(deep.body).runtime).toMatchObject({
+      functionName: 'test-service-health',
+      memoryLimitMb: 256,
+      coldStart: expect.any(Boolean),
+      nodeVersion: process.version,
+    });
+    expect(JSON.parse(ready.body).runtime).toBeUndefined();
+  });
+
+  it('reports a cold start only on the first invocation of the instance', async () => {
+    const handler = createHealthHandler({ serviceName: 'test-service', auth });
+
+    await handler(deepEvent, lambdaContext);
+    const second = (await handler(deepEvent, lambdaContext)) as APIGatewayProxyResult;
+
+    expect(JSON.parse(second.body).runtime.coldStart).toBe(false);
+  });
+
+  it('falls back to build-info.json for version and commit', async () => {
+    const handler = createHealthHandler({
+      serviceName: 'test-service',
+      buildInfoPath: join(__dirname, 'fixtures', 'build-info.json'),
+    });
+
+    const result = (await handler(event, lambdaContext)) as APIGatewayProxyResult;
+
+    expect(JSON.parse(result.body)).toMatchObject({
+      version: '2.3.1',
+      gitCommit: '9f8e7d6',
+      build: { version: '2.3.1', gitCommit: '9f8e7d6', gitBranch: 'main' },
+    });
+  });
+
+  it('prefers configured version over build-info.json', async () => {
+    const handler = createHealthHandler({
+      serviceName: 'test-service',
+      version: '3.0.0',
+      buildInfoPath: join(__dirname, 'fixtures', 'build-info.json'),
+    });
+
+    const result = (await handler(event, lambdaContext)) as APIGatewayProxyResult;
+
+    expect(JSON.parse(result.body).version).toBe('3.0.0');
+  });
+});
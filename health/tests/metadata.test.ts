@@ -0,0 +1,97 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Context } from 'aws-lambda';
+import { defaultBuildInfoPath, getRuntimeInfo, loadBuildInfo } from '../src/metadata';
+
+describe('loadBuildInfo', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'build-info-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads build-info.json', () => {
+    const path = join(dir, 'build-info.json');
+    writeFileSync(
+      path,
+      JSON.stringify({ version: '1.4.0', gitCommit: 'abc123', builtAt: '2025-12-14T10:00:00Z' })
+    );
+
+    expect(loadBuildInfo(path)).toEqual({
+      version: '1.4.0',
+      gitCommit: 'abc123',
+      builtAt: '2025-12-14T10:00:00Z',
+    });
+  });
+
+  it('reads each file once', () => {
+    const path = join(dir, 'cached.json');
+    writeFileSync(path, JSON.stringify({ version: '1.0.0' }));
+    loadBuildInfo(path);
+    writeFileSync(path, JSON.stringify({ version: '2.0.0' }));
+
+    expect(loadBuildInfo(path).version).toBe('1.0.0');
+  });
+
+  it('returns an empty object for a missing or malformed file', () => {
+    const malformed = join(dir, 'malformed.json');
+    writeFileSync(malformed, '{not json');
+
+    expect(loadBuildInfo(join(dir, 'missing.json'))).toEqual({});
+    expect(loadBuildInfo(malformed)).toEqual({});
+  });
+});
+
+describe('defaultBuildInfoPath', () => {
+  it('prefers BUILD_INFO_PATH, then the Lambda task root', () => {
+    expect(
+      defaultBuildInfoPath({ BUILD_INFO_PATH: '/opt/build.json', LAMBDA_TASK_ROOT: '/var/task' })
+    ).toBe('/opt/build.json');
+    expect(defaultBuildInfoPath({ LAMBDA_TASK_ROOT: '/var/task' })).toBe('/var/task/build-info.json');
+  });
+});
+
+describe('getRuntimeInfo', () => {
+  const context = {
+    functionName: 'condor-prod-health',
+    functionVersion: '7',
+    invokedFunctionArn: 'arn:aws:lambda:us-east-1:123456789012:function:condor-prod-health:live',
+    memoryLimitInMB: '256',
+  } as Context;
+
+  it('reads function details from the context', () => {
+    expect(getRuntimeInfo(context, true)).toMatchObject({
+      functionName: 'condor-prod-health',
+      functionVersion: '7',
+      alias: 'live',
+      memoryLimitMb: 256,
+      coldStart: true,
+      nodeVersion: process.version,
+    });
+  });
+
+  it.each([
+    ['unqualified', 'arn:aws:lambda:us-east-1:123456789012:function:condor-prod-health'],
+    ['version-qualified', 'arn:aws:lambda:us-east-1:123456789012:function:condor-prod-health:7'],
+    ['$LATEST', 'arn:aws:lambda:us-east-1:123456789012:function:condor-prod-health:$LATEST'],
+  ])('reports no alias for %s ARNs', (_, invokedFunctionArn) => {
+    expect(getRuntimeInfo({ ...context, invokedFunctionArn }, false).alias).toBeUndefined();
+  });
+
+  it('tolerates a missing context', () => {
+    expect(getRuntimeInfo(undefined, false)).toEqual({
+      functionName: undefined,
+      functionVersion: undefined,
+      alias: undefined,
+      memoryLimitMb: undefined,
+      region: process.env.AWS_REGION,
+      coldStart: false,
+      nodeVersion: process.version,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { buildHealthMetrics, emitHealthMetrics } from '../src/metrics';
+import { DependencyStatus, HealthCheckResponse } from '../src/types';
+
+function dependency(overrides: Partial<DependencyStatus>): DependencyStatus {
+  return {
+    name: 'Jobs Table',
+    type: 'dynamodb',
+    status: 'healthy',
+    critical: true,
+    responseTime: 42,
+    cached: false,
+    checkedAt: '2025-12-14T10:05:00.000Z',
+    ...overrides,
+  };
+}
+
+function healthResponse(overrides: Partial<HealthCheckResponse> = {}): HealthCheckResponse {
+  return {
+    status: 'healthy',
+    mode: 'deep',
+    service: 'condor',
+    environment: 'prod',
+    timestamp: '2025-12-14T10:05:00.000Z',
+    uptime: 300,
+    ...overrides,
+  };
+}
+
+describe('buildHealthMetrics', () => {
+  it('records latency and success per dependency', () => {
+    const [record] = buildHealthMetrics(
+      healthResponse({ dependencies: [dependency({})] })
+    );
+
+    expect(record).toEqual({
+      _aws: {
+        Timestamp: Date.parse('2025-12-14T10:05:00.000Z'),
+        CloudWatchMetrics: [
+          {
+            Namespace: 'Aviary/Health',
+            Dimensions: [['Service', 'Environment', 'Dependency']],
+            Metrics: [
+              { Name: 'DependencySuccess', Unit: 'Count' },
+              { Name: 'DependencyLatency', Unit: 'Milliseconds' },
+            ],
+          },
+        ],
+      },
+      Service: 'condor',
+      Environment: 'prod',
+      Dependency: 'Jobs Table',
+      DependencySuccess: 1,
+      DependencyLatency: 42,
+    });
+  });
+
+  it.each(['unhealthy', 'timeout'] as const)('reports a %s dependency as 0', (status) => {
+    const [record] = buildHealthMetrics(
+      healthResponse({ dependencies: [dependency({ status })] })
+    );
+    expect(record.DependencySuccess).toBe(0);
+  });
+
+  it('omits latency for cached results', () => {
+    const [record] = buildHealthMetrics(
+      healthResponse({ dependencies: [dependency({ cached: true })] })
+    );
+
+    expect(record.DependencyLatency).toBeUndefined();
+    expect(record._aws.CloudWatchMetrics[0].Metrics).toEqual([
+      { Name: 'DependencySuccess', Unit: 'Count' },
+    ]);
+  });
+
+  it.each([
+    ['healthy', 1, 0],
+    ['degraded', 1, 1],
+    ['unhealthy', 0, 0],
+  ] as const)('reports %s service status', (status, healthy, degraded) => {
+    const records = buildHealthMetrics(healthResponse({ status }));
+    const serviceRecord = records[records.length - 1];
+
+    expect(serviceRecord).toMatchObject({
+      Service: 'condor',
+      Environment: 'prod',
+      ServiceHealthy: healthy,
+      ServiceDegraded: degraded,
+    });
+    expect(serviceRecord._aws.CloudWatchMetrics[0].Dimensions).toEqual([
+      ['Service', 'Environment'],
+    ]);
+  });
+
+  it('uses the configured namespace and a placeholder environment', () => {
+    const [record] = buildHealthMetrics(healthResponse({ environment: undefined }), {
+      namespace: 'Condor/Health',
+    });
+
+    expect(record._aws.CloudWatchMetrics[0].Namespace).toBe('Condor/Health');
+    expect(record.Environment).toBe('unknown');
+  });
+});
+
+describe('emitHealthMetrics', () => {
+  it('logs one JSON line per record', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    emitHealthMetrics(
+      healthResponse({ dependencies: [dependency({}), dependency({ name: 'Queue' })] })
+    );
+
+    expect(log).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(log.mock.calls[1][0] as string).Dependency).toBe('Queue');
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,247 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { LambdaClient } from '@aws-sdk/client-lambda';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SFNClient } from '@aws-sdk/client-sfn';
+import { SNSClient } from '@aws-sdk/client-sns';
+import {
+  httpProbe,
+  lambdaProbe,
+  secretsManagerProbe,
+  snsProbe,
+  stepFunctionsProbe,
+} from '../src/probes';
+import { HealthCheckDependency } from '../src/types';
+
+type Reply = { statusCode: number; body: string; delayMs?: number };
+
+const context = { region: 'us-east-1' };
+
+/**
+ * Answer every `send` on the client class with `output`, recording the commands
+ */
+type Send = (command: unknown, options?: unknown) => Promise<unknown>;
+
+function mockSend(Client: { prototype: { send: unknown } }, output: unknown) {
+  return jest.spyOn(Client.prototype as { send: Send }, 'send').mockResolvedValue(output);
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('httpProbe', () => {
+  let server: Server;
+  let baseUrl: string;
+  let replies: Record<string, Reply>;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const reply = replies[req.url || ''] || { statusCode: 404, body: 'Not Found' };
+      setTimeout(() => {
+        res.writeHead(reply.statusCode, { 'Content-Type': 'application/json' });
+        res.end(reply.body);
+      }, reply.delayMs ?? 0);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = {
+      '/health': { statusCode: 200, body: JSON.stringify({ status: 'degraded', service: 'condor' }) },
+      '/ping': { statusCode: 204, body: '' },
+      '/text': { statusCode: 200, body: 'pong' },
+    };
+  });
+
+  const http = (path: string, extra: Partial<HealthCheckDependency> = {}): HealthCheckDependency => ({
+    name: 'Downstream',
+    type: 'http',
+    resource: `${baseUrl}${path}`,
+    ...extra,
+  });
+
+  it('is healthy on 200 and surfaces the downstream status', async () => {
+    expect(await httpProbe(http('/health'), context)).toEqual({
+      healthy: true,
+      metadata: { statusCode: 200, status: 'degraded' },
+    });
+  });
+
+  it('checks expectedStatus', async () => {
+    expect(await httpProbe(http('/ping', { expectedStatus: 204 }), context)).toEqual({
+      healthy: true,
+      metadata: { statusCode: 204 },
+    });
+    expect(await httpProbe(http('/ping'), context)).toEqual({
+      healthy: false,
+      error: 'Expected HTTP 200, got 204',
+      metadata: { statusCode: 204 },
+    });
+  });
+
+  it('matches an expectedBody object as a subset of the JSON body', async () => {
+    const matching = await httpProbe(http('/health', { expectedBody: { status: 'degraded' } }), context);
+    const mismatched = await httpProbe(http('/health', { expectedBody: { status: 'healthy' } }), context);
+    const notJson = await httpProbe(http('/text', { expectedBody: { status: 'healthy' } }), context);
+
+    expect(matching.healthy).toBe(true);
+    expect(mismatched).toMatchObject({
+      healthy: false,
+      error: 'Response body does not match expectedBody',
+    });
+    expect(notJson.healthy).toBe(false);
+  });
+
+  it('matches an expectedBody string as a substring', async () => {
+    expect((await httpProbe(http('/text', { expectedBody: 'pong' }), context)).healthy).toBe(true);
+    expect((await httpProbe(http('/text', { expectedBody: 'ping' }), context)).healthy).toBe(false);
+  });
+
+  it('aborts the request with the context signal', async () => {
+    replies['/health'].delayMs = 500;
+    const controller = new AbortController();
+    const reason = new Error('Timed out after 50ms');
+    setTimeout(() => controller.abort(reason), 50);
+
+    await expect(
+      httpProbe(http('/health'), { ...context, signal: controller.signal })
+    ).rejects.toBe(reason);
+  });
+
+  it('aborts the request after the dependency timeout without a signal', async () => {
+    replies['/health'].delayMs = 500;
+
+    await expect(httpProbe(http('/health', { timeoutMs: 50 }), context)).rejects.toMatchObject({
+      name: 'TimeoutError',
+    });
+  });
+
+  it('requires a resource', async () => {
+    await expect(httpProbe({ name: 'Downstream', type: 'http' }, context)).rejects.toThrow(
+      'Invalid dependency configuration: Downstream needs a resource'
+    );
+  });
+});
+
+describe('secretsManagerProbe', () => {
+  const secret: HealthCheckDependency = {
+    name: 'Webhook secret',
+    type: 'secretsmanager',
+    resource: 'condor/prod/webhook-secret',
+  };
+
+  it('is healthy for an existing secret and reports rotation', async () => {
+    const send = mockSend(SecretsManagerClient, {
+      Name: 'condor/prod/webhook-secret',
+      RotationEnabled: true,
+    });
+
+    expect(await secretsManagerProbe(secret, context)).toEqual({
+      healthy: true,
+      metadata: { rotationEnabled: true },
+    });
+    expect((send.mock.calls[0][0] as { input: unknown }).input).toEqual({
+      SecretId: 'condor/prod/webhook-secret',
+    });
+  });
+
+  it('passes the context signal to the SDK call', async () => {
+    const send = mockSend(SecretsManagerClient, {});
+    const { signal } = new AbortController();
+
+    await secretsManagerProbe(secret, { ...context, signal });
+
+    expect(send.mock.calls[0][1]).toEqual({ abortSignal: signal });
+  });
+
+  it('is unhealthy when the secret is scheduled for deletion', async () => {
+    mockSend(SecretsManagerClient, { DeletedDate: new Date('2026-01-01T00:00:00Z') });
+
+    expect(await secretsManagerProbe(secret, context)).toEqual({
+      healthy: false,
+      error: 'Secret scheduled for deletion at 2026-01-01T00:00:00.000Z',
+    });
+  });
+});
+
+describe('snsProbe', () => {
+  it('reports confirmed subscriptions', async () => {
+    const send = mockSend(SNSClient, { Attributes: { SubscriptionsConfirmed: '3' } });
+    const topicArn = 'arn:aws:sns:us-east-1:123456789012:condor-alarms';
+
+    expect(await snsProbe({ name: 'Alarms', type: 'sns', resource: topicArn }, context)).toEqual({
+      healthy: true,
+      metadata: { subscriptionsConfirmed: 3 },
+    });
+    expect((send.mock.calls[0][0] as { input: unknown }).input).toEqual({ TopicArn: topicArn });
+  });
+});
+
+describe('stepFunctionsProbe', () => {
+  const machine: HealthCheckDependency = {
+    name: 'Pipeline',
+    type: 'stepfunctions',
+    resource: 'arn:aws:states:us-east-1:123456789012:stateMachine:condor-pipeline',
+  };
+
+  it('is healthy when the state machine is ACTIVE', async () => {
+    mockSend(SFNClient, { status: 'ACTIVE' });
+
+    expect(await stepFunctionsProbe(machine, context)).toEqual({ healthy: true });
+  });
+
+  it('is unhealthy otherwise', async () => {
+    mockSend(SFNClient, { status: 'DELETING' });
+
+    expect(await stepFunctionsProbe(machine, context)).toEqual({
+      healthy: false,
+      error: 'State machine status: DELETING',
+    });
+  });
+});
+
+describe('lambdaProbe', () => {
+  const fn: HealthCheckDependency = { name: 'Renderer', type: 'lambda', resource: 'condor-prod-renderer' };
+
+  it('is healthy when Active and the last update succeeded', async () => {
+    mockSend(LambdaClient, { State: 'Active', LastUpdateStatus: 'Successful' });
+
+    expect(await lambdaProbe(fn, context)).toEqual({
+      healthy: true,
+      metadata: { state: 'Active', lastUpdateStatus: 'Successful' },
+    });
+  });
+
+  it('is unhealthy when not Active, with the reason', async () => {
+    mockSend(LambdaClient, {
+      State: 'Failed',
+      StateReason: 'Subnet has no free IPs',
+      LastUpdateStatus: 'Successful',
+    });
+
+    expect(await lambdaProbe(fn, context)).toMatchObject({
+      healthy: false,
+      error: 'Function state: Failed (Subnet has no free IPs)',
+    });
+  });
+
+  it('is unhealthy when the last update failed', async () => {
+    mockSend(LambdaClient, {
+      State: 'Active',
+      LastUpdateStatus: 'Failed',
+      LastUpdateStatusReason: 'Image not found',
+    });
+
+    expect(await lambdaProbe(fn, context)).toEqual({
+      healthy: false,
+      error: 'Last update failed: Image not found',
+      metadata: { state: 'Active', lastUpdateStatus: 'Failed' },
+    });
+  });
+});
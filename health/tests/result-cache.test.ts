@@ -0,0 +1,145 @@
+import { HealthResultCache } from '../src/result-cache';
+import { DependencyStatus } from '../src/types';
+
+function status(name: string): DependencyStatus {
+  return {
+    name,
+    type: 'custom',
+    status: 'healthy',
+    critical: true,
+    cached: false,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+describe('HealthResultCache', () => {
+  let now: number;
+  let cache: HealthResultCache;
+  let check: jest.Mock<Promise<DependencyStatus>, []>;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    cache = new HealthResultCache({
+      ttlSeconds: 10,
+      staleWhileRevalidateSeconds: 30,
+      now: () => now,
+    });
+    let run = 0;
+    check = jest.fn(async () => status(`run-${++run}`));
+  });
+
+  it('checks on first use', async () => {
+    const result = await cache.get('a', check);
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ name: 'run-1', cached: false });
+  });
+
+  it('serves a cached result within the TTL', async () => {
+    await cache.get('a', check);
+    now += 9_000;
+
+    const result = await cache.get('a', check);
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ name: 'run-1', cached: true });
+  });
+
+  it('keeps results per key', async () => {
+    await cache.get('a', check);
+    const result = await cache.get('b', check);
+
+    expect(check).toHaveBeenCalledTimes(2);
+    expect(result.name).toBe('run-2');
+  });
+
+  it('serves a stale result and refreshes it in the background', async () => {
+    await cache.get('a', check);
+    now += 15_000;
+
+    const stale = await cache.get('a', check);
+    expect(stale).toMatchObject({ name: 'run-1', cached: true });
+    expect(check).toHaveBeenCalledTimes(2);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    const refreshed = await cache.get('a', check);
+    expect(refreshed).toMatchObject({ name: 'run-2', cached: true });
+  });
+
+  it('starts one background refresh at a time', async () => {
+    let release: () => void = () => undefined;
+    await cache.get('a', check);
+    check.mockImplementationOnce(
+      () => new Promise((resolve) => (release = () => resolve(status('slow'))))
+    );
+    now += 15_000;
+
+    await cache.get('a', check);
+    await cache.get('a', check);
+
+    expect(check).toHaveBeenCalledTimes(2);
+    release();
+  });
+
+  it('does not cache a background result that outlasted its timeout', async () => {
+    await cache.get('a', check);
+    check.mockImplementationOnce(async () => {
+      // The environment froze mid-check; the probe's timer fired on thaw
+      now += 5_000;
+      return { ...status('frozen'), status: 'timeout' };
+    });
+    now += 15_000;
+
+    await cache.get('a', check, { timeoutMs: 3000 });
+    await new Promise((resolve) => setImmediate(resolve));
+    const result = await cache.get('a', check, { timeoutMs: 3000 });
+
+    expect(result).toMatchObject({ name: 'run-1', status: 'healthy', cached: true });
+  });
+
+  it('caches a background result that finished within its timeout', async () => {
+    await cache.get('a', check);
+    now += 15_000;
+
+    await cache.get('a', check, { timeoutMs: 3000 });
+    await new Promise((resolve) => setImmediate(resolve));
+    const result = await cache.get('a', check, { timeoutMs: 3000 });
+
+    expect(result).toMatchObject({ name: 'run-2', cached: true });
+  });
+
+  it('checks synchronously once the stale window has passed', async () => {
+    await cache.get('a', check);
+    now += 40_000;
+
+    const result = await cache.get('a', check);
+
+    expect(result).toMatchObject({ name: 'run-2', cached: false });
+  });
+
+  it('collapses concurrent first checks into one', async () => {
+    const [first, second] = await Promise.all([cache.get('a', check), cache.get('a', check)]);
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it('skips and replaces the cached result when fresh', async () => {
+    await cache.get('a', check);
+
+    const fresh = await cache.get('a', check, { fresh: true });
+    const next = await cache.get('a', check);
+
+    expect(fresh).toMatchObject({ name: 'run-2', cached: false });
+    expect(next).toMatchObject({ name: 'run-2', cached: true });
+  });
+
+  it('does not cache with a zero TTL', async () => {
+    const uncached = new HealthResultCache({ ttlSeconds: 0 });
+
+    await uncached.get('a', check);
+    await uncached.get('a', check);
+
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+});
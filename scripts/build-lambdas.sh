@@ -12,6 +12,12 @@ rm -rf dist/lambdas
 echo "📦 Compiling TypeScript..."
 npm run build
 
+# Build metadata written to each package as build-info.json (read by @aviary/health)
+BUILD_VERSION=$(node -p "require('./package.json').version")
+BUILD_COMMIT=${GIT_COMMIT:-$(git rev-parse --short HEAD 2>/dev/null || echo "unknown")}
+BUILD_BRANCH=${GIT_BRANCH:-$(git rev-parse --abbrev-ref HEAD 2>/dev/null || echo "unknown")}
+BUILT_AT=$(date -u +"%Y-%m-%dT%H:%M:%SZ")
+
 # Create Lambda packages
 # Customize this array with your Lambda function names
 LAMBDAS=("your-lambda-function")
@@ -32,6 +38,16 @@ for lambda in "${LAMBDAS[@]}"; do
     # Copy the lib directory with compiled utilities
     cp -r "dist/lib" "dist/lambdas/$lambda-package/"
 
+    # Record build metadata for health responses
+    cat > "dist/lambdas/$lambda-package/build-info.json" <<EOF
+{
+  "version": "$BUILD_VERSION",
+  "gitCommit": "$BUILD_COMMIT",
+  "gitBranch": "$BUILD_BRANCH",
+  "builtAt": "$BUILT_AT"
+}
+EOF
+
     # Create package.json with only production dependencies needed for this lambda
     cat > "dist/lambdas/$lambda-package/package.json" <<EOF
 {
@@ -20,6 +20,20 @@ else
     exit 1
 fi
 
+# Deep health check (all dependencies, needs the API key)
+echo "Checking deep health..."
+DEEP_BODY=$(curl -s -w "\n%{http_code}" "$BASE_URL/health/deep" \
+    -H "Authorization: Bearer $API_KEY")
+DEEP_STATUS=$(echo "$DEEP_BODY" | tail -n 1)
+
+if [ "$DEEP_STATUS" = "200" ]; then
+    echo "✅ Deep health: OK"
+else
+    echo "❌ Deep health: FAILED (HTTP $DEEP_STATUS)"
+    echo "$DEEP_BODY" | sed '$d'
+    exit 1
+fi
+
 # API functionality test
 echo "Testing API functionality..."
 API_RESPONSE=$(curl -s -X POST "$BASE_URL/v1/test" \